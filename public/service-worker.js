@@ -0,0 +1,162 @@
+/* eslint-disable no-restricted-globals */
+// Keeps the dashboard usable while the server restarts: the app shell is served from the cache,
+// and the last device list is served with a snapshot header when the backend can't be reached.
+const VERSION = "v1";
+const SHELL_CACHE = `dashboard-shell-${VERSION}`;
+const DATA_CACHE = `dashboard-data-${VERSION}`;
+// Read by the app to tell a cached device list from a live one; the value is when it was saved
+const SNAPSHOT_HEADER = "X-Dashboard-Snapshot";
+const DEVICE_LIST_PATH = /\/espDevices\/?$/;
+
+const scope = new URL(self.registration.scope);
+const SHELL_FILES = [
+  "./",
+  "index.html",
+  "manifest.json",
+  "config.json",
+  "favicon.ico",
+  "icons/icon-192.png",
+  "icons/icon-512.png",
+  "images/light_on.png",
+  "images/light_off.png",
+].map((path) => new URL(path, scope).toString());
+
+// CRA lists the hashed JS and CSS bundles of the current build in asset-manifest.json:
+// `entrypoints` are precached, `files` also covers chunks that are only loaded on demand
+const buildManifest = async () => {
+  try {
+    const response = await fetch(new URL("asset-manifest.json", scope), { cache: "no-store" });
+    const manifest = await response.json();
+    const toUrl = (path) => new URL(path, scope).toString();
+    return {
+      entrypoints: (manifest.entrypoints || []).map(toUrl),
+      files: Object.values(manifest.files || {}).map(toUrl),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Bundles of earlier deploys are never requested again; without a manifest nothing is known to be stale.
+// This file is the same in every build, so a redeploy doesn't reinstall the worker: pruning runs on activate
+// and again on every navigation, which is when a new build's index.html gets loaded.
+const pruneShell = async () => {
+  const manifest = await buildManifest();
+  if (!manifest) return;
+  const cache = await caches.open(SHELL_CACHE);
+  const current = new Set([...SHELL_FILES, ...manifest.entrypoints, ...manifest.files]);
+  const cached = await cache.keys();
+  await Promise.all(cached.filter((request) => !current.has(request.url)).map((request) => cache.delete(request)));
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      const manifest = await buildManifest();
+      const files = [...SHELL_FILES, ...(manifest ? manifest.entrypoints : [])];
+      // One missing optional file (e.g. no config.json) must not stop the install
+      await Promise.all(files.map((url) => cache.add(url).catch(() => undefined)));
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names.filter((name) => name !== SHELL_CACHE && name !== DATA_CACHE).map((name) => caches.delete(name))
+      );
+      await pruneShell();
+      await self.clients.claim();
+    })()
+  );
+});
+
+// A proxy in front of a restarting server answers 502/503, which counts as unreachable too
+const networkFirst = async (request, fallbackUrl) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const key = fallbackUrl || request;
+  let response;
+  try {
+    response = await fetch(request);
+  } catch (error) {
+    const cached = await cache.match(key, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+  if (response.ok) await cache.put(key, response.clone());
+  if (response.status >= 500) return (await cache.match(key, { ignoreSearch: true })) || response;
+  return response;
+};
+
+// Bundles have content hashes in their names, so a cached copy never goes stale
+const cacheFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+};
+
+// Network first like the shell, but the saved copy is stamped so the app can show it as stale
+const deviceList = async (request) => {
+  const cache = await caches.open(DATA_CACHE);
+  let response;
+  try {
+    response = await fetch(request);
+  } catch (error) {
+    const cached = await cache.match(request.url);
+    if (cached) return cached;
+    throw error;
+  }
+  if (response.ok) {
+    const headers = new Headers(response.headers);
+    headers.set(SNAPSHOT_HEADER, String(Date.now()));
+    await cache.put(request.url, new Response(await response.clone().blob(), { status: 200, headers }));
+    return response;
+  }
+  if (response.status >= 500) return (await cache.match(request.url)) || response;
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (DEVICE_LIST_PATH.test(url.pathname)) {
+    event.respondWith(deviceList(request));
+  } else if (url.origin !== scope.origin) {
+    return;
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, new URL("index.html", scope).toString()));
+    event.waitUntil(pruneShell());
+  } else if (url.pathname.startsWith(`${scope.pathname}static/`)) {
+    event.respondWith(cacheFirst(request));
+  } else if (SHELL_FILES.includes(`${url.origin}${url.pathname}`)) {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+// The saved device list belongs to the session that fetched it; the app asks for it to go on logout
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "clearDeviceSnapshot") {
+    event.waitUntil(caches.delete(DATA_CACHE));
+  }
+});
+
+// Clicking a device notification brings the dashboard to the front, or opens it
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      if (windows.length > 0) return windows[0].focus();
+      return self.clients.openWindow(scope.href);
+    })()
+  );
+});
@@ -0,0 +1,96 @@
+// Minimal auth service for trying the login flow locally: `npm run mock-auth`,
+// then set REACT_APP_AUTH_URL (or the Settings screen) to http://localhost:8081/auth.
+// Users: viewer/viewer, operator/operator, admin/admin.
+const http = require("http");
+const crypto = require("crypto");
+
+const PORT = Number(process.env.MOCK_AUTH_PORT || 8081);
+// Short by default so token refresh is exercised within a minute
+const ACCESS_TTL_S = Number(process.env.MOCK_AUTH_TTL_S || 60);
+
+const USERS = {
+  viewer: { password: "viewer", role: "viewer" },
+  operator: { password: "operator", role: "operator" },
+  admin: { password: "admin", role: "admin" },
+};
+
+const accessTokens = new Map(); // token -> { username, expiresAt }
+const refreshTokens = new Map(); // token -> username
+
+const issueTokens = (username) => {
+  const accessToken = crypto.randomBytes(24).toString("hex");
+  const refreshToken = crypto.randomBytes(24).toString("hex");
+  accessTokens.set(accessToken, { username, expiresAt: Date.now() + ACCESS_TTL_S * 1000 });
+  refreshTokens.set(refreshToken, username);
+  return {
+    accessToken,
+    refreshToken,
+    expiresIn: ACCESS_TTL_S,
+    user: { username, role: USERS[username].role },
+  };
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  if (req.method === "OPTIONS") return send(res, 204);
+
+  const path = new URL(req.url, `http://localhost:${PORT}`).pathname;
+
+  if (req.method === "POST" && path === "/auth/login") {
+    const { username, password } = await readBody(req);
+    const user = USERS[username];
+    if (!user || user.password !== password) return send(res, 401, { message: "Invalid credentials" });
+    console.log(`login ${username}`);
+    return send(res, 200, issueTokens(username));
+  }
+
+  if (req.method === "POST" && path === "/auth/refresh") {
+    const { refreshToken } = await readBody(req);
+    const username = refreshTokens.get(refreshToken);
+    if (!username) return send(res, 401, { message: "Invalid refresh token" });
+    // Refresh tokens are single use
+    refreshTokens.delete(refreshToken);
+    console.log(`refresh ${username}`);
+    return send(res, 200, issueTokens(username));
+  }
+
+  if (req.method === "POST" && path === "/auth/logout") {
+    const { refreshToken } = await readBody(req);
+    refreshTokens.delete(refreshToken);
+    return send(res, 204);
+  }
+
+  // Lets a backend (or curl) check a bearer token
+  if (req.method === "GET" && path === "/auth/me") {
+    const token = (req.headers.authorization || "").replace(/^Bearer /, "");
+    const entry = accessTokens.get(token);
+    if (!entry || entry.expiresAt < Date.now()) return send(res, 401, { message: "Token expired or unknown" });
+    return send(res, 200, { username: entry.username, role: USERS[entry.username].role });
+  }
+
+  send(res, 404, { message: "Not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock auth server on http://localhost:${PORT}/auth (access tokens last ${ACCESS_TTL_S}s)`);
+});
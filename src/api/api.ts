@@ -1,15 +1,181 @@
-import axios from "axios";
+import { apiUrl, AppConfig, ConfigErrors } from "../config/config";
+import { AuditSource, DeviceRegistration, EspDevice, FirmwareImage } from "../types/types";
+import { getTransport } from "./transport";
+import { http } from "./http";
+import { decodeDevice } from "./protocol";
+import { recordInvalidMessage } from "./diagnostics";
+import { currentActor } from "./auth";
+import { recordAudit } from "../store/auditLog";
+import { deviceStore } from "../store/deviceStore";
 
-export const fetchDevices = async (): Promise<any> => {
-  const response = await axios.get("http://localhost:8080/api/mqtt/espDevices");
-  return response.data;
+const PROBE_TIMEOUT_MS = 5000;
+
+// Malformed entries are dropped and logged rather than failing the whole list
+export const fetchDevices = async (): Promise<EspDevice[]> => {
+  const data = await getTransport().fetchDevices();
+  if (!Array.isArray(data)) {
+    recordInvalidMessage("rest", data, "Device list is not an array");
+    throw new Error("Unexpected device list response");
+  }
+
+  return data.flatMap((entry) => {
+    const decoded = decodeDevice(entry);
+    if (decoded.ok) return [decoded.value];
+    recordInvalidMessage("rest", entry, decoded.error);
+    return [];
+  });
+};
+
+export interface CommandOrigin {
+  source: AuditSource;
+  deviceId?: string;
+  // Human-readable description for the audit log; defaults to the raw message
+  label?: string;
+}
+
+// Every publish is audited, whether it succeeds or not
+export const publishMQTTMessage = async (
+  message: string,
+  topic: string,
+  origin: CommandOrigin = { source: "user" }
+): Promise<void> => {
+  const device = origin.deviceId
+    ? deviceStore.getDevice(origin.deviceId)
+    : deviceStore.getDevices().find((d) => d.commandTopic === topic);
+  const entry = {
+    kind: "command" as const,
+    timestamp: Date.now(),
+    source: origin.source,
+    actor: currentActor(),
+    deviceId: device?.deviceId ?? origin.deviceId,
+    deviceName: device?.name,
+    summary: origin.label ?? message,
+    detail: `${topic}: ${message}`,
+  };
+
+  try {
+    await getTransport().publish(message, topic);
+    recordAudit(entry);
+  } catch (error) {
+    recordAudit({ ...entry, error: (error as Error).message });
+    throw error;
+  }
+};
+
+export const renameDevice = async (device: EspDevice, name: string): Promise<void> => {
+  const entry = {
+    kind: "rename" as const,
+    timestamp: Date.now(),
+    source: "user" as const,
+    actor: currentActor(),
+    deviceId: device.deviceId,
+    deviceName: device.name,
+    summary: `Renamed "${device.name}" to "${name}"`,
+  };
+
+  try {
+    await getTransport().renameDevice(device, name);
+    recordAudit(entry);
+  } catch (error) {
+    recordAudit({ ...entry, error: (error as Error).message });
+    throw error;
+  }
+};
+
+export const provisionDevice = async (registration: DeviceRegistration): Promise<void> => {
+  const entry = {
+    kind: "provision" as const,
+    timestamp: Date.now(),
+    source: "user" as const,
+    actor: currentActor(),
+    deviceId: registration.deviceId,
+    deviceName: registration.name,
+    summary: `Provisioned as "${registration.name}"`,
+    detail: `${registration.stateTopic}, ${registration.commandTopic}`,
+  };
+
+  try {
+    await getTransport().provisionDevice(registration);
+    recordAudit(entry);
+  } catch (error) {
+    recordAudit({ ...entry, error: (error as Error).message });
+    throw error;
+  }
+};
+
+export const uploadFirmware = async (
+  file: File,
+  version: string,
+  onProgress: (percent: number) => void = () => {}
+): Promise<FirmwareImage> => {
+  const data = (await getTransport().uploadFirmware(file, version, onProgress)) as Partial<FirmwareImage> | null;
+  if (!data || typeof data.id !== "string" || typeof data.url !== "string") {
+    recordInvalidMessage("rest", data, "Firmware upload response has no id or url");
+    throw new Error("Unexpected firmware upload response");
+  }
+  return {
+    id: data.id,
+    url: data.url,
+    version: data.version ?? version,
+    size: data.size ?? file.size,
+    sha256: data.sha256,
+    uploadedAt: Date.now(),
+  };
 };
 
-export const publishMQTTMessage = async (message: string, topic: string): Promise<any> => {
-  const response = await axios.post(
-    "http://localhost:8080/api/mqtt/publish",
-    null,
-    { params: { message, topic } }
+// The firmware downloads the image itself and reports progress with "ota" messages
+export const startOta = (device: EspDevice, firmware: FirmwareImage) =>
+  publishMQTTMessage(
+    JSON.stringify({ ota: { url: firmware.url, version: firmware.version, sha256: firmware.sha256 } }),
+    device.commandTopic,
+    { source: "rollout", deviceId: device.deviceId, label: `Update firmware to ${firmware.version}` }
   );
-  return response.data;
-};
\ No newline at end of file
+
+const probeWebSocket = (url: string, protocol?: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const socket = protocol ? new WebSocket(url, protocol) : new WebSocket(url);
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(new Error("Timed out"));
+    }, PROBE_TIMEOUT_MS);
+
+    socket.onopen = () => {
+      clearTimeout(timer);
+      socket.close();
+      resolve();
+    };
+    socket.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error("Connection refused"));
+    };
+  });
+
+// Checks that the endpoints in a (possibly unsaved) config actually answer
+export const probeEndpoints = async (candidate: AppConfig): Promise<ConfigErrors> => {
+  const errors: ConfigErrors = {};
+
+  if (candidate.transport === "broker") {
+    try {
+      await probeWebSocket(candidate.brokerUrl, "mqtt");
+    } catch (error) {
+      errors.brokerUrl = `Unreachable: ${(error as Error).message}`;
+    }
+    return errors;
+  }
+
+  try {
+    await http.get(apiUrl("espDevices", candidate.apiBaseUrl), {
+      timeout: PROBE_TIMEOUT_MS,
+    });
+  } catch (error) {
+    errors.apiBaseUrl = `Unreachable: ${(error as Error).message}`;
+  }
+
+  try {
+    await probeWebSocket(candidate.wsUrl);
+  } catch (error) {
+    errors.wsUrl = `Unreachable: ${(error as Error).message}`;
+  }
+
+  return errors;
+};
@@ -0,0 +1,140 @@
+import axios from "axios";
+import { getConfig } from "../config/config";
+import { AuthSession, AuthUser, UserRole } from "../types/types";
+import { clearDeviceSnapshot } from "../serviceWorkerRegistration";
+
+const STORAGE_KEY = "dashboardAuth";
+// Refresh this long before the access token runs out
+const REFRESH_MARGIN_MS = 30000;
+
+interface TokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  // Seconds
+  expiresIn: number;
+  user: AuthUser;
+}
+
+const ROLES: UserRole[] = ["viewer", "operator", "admin"];
+
+const loadSession = (): AuthSession | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+let session: AuthSession | null = loadSession();
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshInFlight: Promise<AuthSession | null> | null = null;
+const listeners = new Set<() => void>();
+
+export const isAuthEnabled = () => Boolean(getConfig().authUrl);
+
+const authUrl = (path: string) => `${getConfig().authUrl.replace(/\/+$/, "")}/${path}`;
+
+const toSession = (data: TokenResponse): AuthSession => {
+  if (!data?.accessToken || !data.refreshToken || !ROLES.includes(data.user?.role)) {
+    throw new Error("Malformed response from auth service");
+  }
+  return {
+    accessToken: data.accessToken,
+    refreshToken: data.refreshToken,
+    expiresAt: Date.now() + data.expiresIn * 1000,
+    user: { username: data.user.username, role: data.user.role },
+  };
+};
+
+const scheduleRefresh = () => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+  if (!session || !isAuthEnabled()) return;
+  const delay = Math.max(0, session.expiresAt - Date.now() - REFRESH_MARGIN_MS);
+  refreshTimer = setTimeout(() => {
+    refreshSession();
+  }, delay);
+};
+
+const setSession = (next: AuthSession | null) => {
+  session = next;
+  if (next) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+    // Whoever logs in next must not be shown this user's devices while the backend is down
+    clearDeviceSnapshot();
+  }
+  scheduleRefresh();
+  listeners.forEach((listener) => listener());
+};
+
+export const getSession = (): AuthSession | null => session;
+
+// Name recorded in the audit log for actions taken in this browser
+export const currentActor = () => (isAuthEnabled() && session ? session.user.username : "local");
+
+export const getAccessToken = (): string | undefined => (isAuthEnabled() ? session?.accessToken : undefined);
+
+export const subscribeAuth = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const login = async (username: string, password: string): Promise<AuthSession> => {
+  try {
+    const response = await axios.post<TokenResponse>(authUrl("login"), { username, password });
+    const next = toSession(response.data);
+    setSession(next);
+    return next;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      throw new Error("Wrong username or password");
+    }
+    throw error;
+  }
+};
+
+export const logout = () => {
+  const current = session;
+  setSession(null);
+  if (current && isAuthEnabled()) {
+    // Best effort; the tokens are gone locally either way
+    axios.post(authUrl("logout"), { refreshToken: current.refreshToken }).catch(() => undefined);
+  }
+};
+
+// Concurrent callers share one refresh; a rejected refresh token ends the session
+export const refreshSession = (): Promise<AuthSession | null> => {
+  if (!session) return Promise.resolve(null);
+  if (refreshInFlight) return refreshInFlight;
+
+  const { refreshToken } = session;
+  refreshInFlight = axios
+    .post<TokenResponse>(authUrl("refresh"), { refreshToken })
+    .then((response) => {
+      const next = toSession(response.data);
+      setSession(next);
+      return next;
+    })
+    .catch((error) => {
+      console.warn("Token refresh failed:", error);
+      if (axios.isAxiosError(error) && error.response && error.response.status < 500) {
+        setSession(null);
+        return null;
+      }
+      // Auth service unreachable: keep the session and try again shortly
+      if (session) refreshTimer = setTimeout(() => refreshSession(), REFRESH_MARGIN_MS);
+      return session;
+    })
+    .finally(() => {
+      refreshInFlight = null;
+    });
+  return refreshInFlight;
+};
+
+// Called once the runtime config is known, so a stored session keeps being refreshed
+export const resumeSession = () => scheduleRefresh();
@@ -0,0 +1,79 @@
+import { apiUrl, getConfig } from "../config/config";
+import { Transport } from "./transport";
+import { http } from "./http";
+import { getAccessToken } from "./auth";
+import { setSnapshotTime, SNAPSHOT_HEADER } from "../store/snapshot";
+
+// Browsers can't set headers on the WebSocket handshake, so the token travels as a query parameter
+const authenticatedWsUrl = () => {
+  const token = getAccessToken();
+  if (!token) return getConfig().wsUrl;
+  const url = new URL(getConfig().wsUrl);
+  url.searchParams.set("access_token", token);
+  return url.toString();
+};
+
+export const bridgeTransport: Transport = {
+  kind: "bridge",
+
+  endpoint: () => getConfig().wsUrl,
+
+  fetchDevices: async () => {
+    const response = await http.get(apiUrl("espDevices"));
+    // Only present when the service worker answered from its cache because the backend is down
+    const snapshot = response.headers[SNAPSHOT_HEADER];
+    setSnapshotTime(snapshot ? Number(snapshot) : null);
+    return response.data;
+  },
+
+  publish: async (message, topic) => {
+    const response = await http.post(
+      apiUrl("publish"),
+      null,
+      { params: { message, topic } }
+    );
+    return response.data;
+  },
+
+  renameDevice: async (device, name) => {
+    const response = await http.patch(
+      apiUrl(`espDevices/${encodeURIComponent(device.deviceId)}`),
+      { name }
+    );
+    return response.data;
+  },
+
+  provisionDevice: async (registration) => {
+    const response = await http.post(apiUrl("espDevices"), registration);
+    return response.data;
+  },
+
+  uploadFirmware: async (file, version, onProgress) => {
+    const form = new FormData();
+    form.append("file", file);
+    form.append("version", version);
+    const response = await http.post(apiUrl("firmware"), form, {
+      onUploadProgress: (event) => event.total && onProgress(Math.round((event.loaded / event.total) * 100)),
+    });
+    return response.data;
+  },
+
+  connect: (handlers) => {
+    const websocket = new WebSocket(authenticatedWsUrl());
+
+    websocket.onopen = handlers.onOpen;
+    websocket.onmessage = (event) => handlers.onMessage(event.data);
+    websocket.onerror = handlers.onError;
+    websocket.onclose = handlers.onClose;
+
+    return {
+      isOpen: () => websocket.readyState === WebSocket.OPEN,
+      send: (payload) => websocket.send(JSON.stringify(payload)),
+      close: () => {
+        if (websocket.readyState === WebSocket.OPEN || websocket.readyState === WebSocket.CONNECTING) {
+          websocket.close();
+        }
+      },
+    };
+  },
+};
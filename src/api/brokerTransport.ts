@@ -0,0 +1,124 @@
+import mqtt, { MqttClient } from "mqtt";
+import { getConfig } from "../config/config";
+import { Transport } from "./transport";
+import { getAccessToken, getSession } from "./auth";
+
+let activeClient: MqttClient | null = null;
+
+const deviceIdFromTopic = (topic: string): string | undefined => {
+  const patternParts = getConfig().stateTopic.split("/");
+  const topicParts = topic.split("/");
+  const index = patternParts.indexOf("+");
+  return index >= 0 ? topicParts[index] : undefined;
+};
+
+const stateTopicFor = (deviceId: string) => getConfig().stateTopic.replace("+", deviceId);
+
+const commandTopicFor = (deviceId: string) =>
+  getConfig().commandTopicTemplate.replace("{deviceId}", deviceId);
+
+export const brokerTransport: Transport = {
+  kind: "broker",
+
+  endpoint: () => getConfig().brokerUrl,
+
+  // The broker has no device listing; devices show up through their retained state messages
+  fetchDevices: async () => [],
+
+  publish: (message, topic) =>
+    new Promise((resolve, reject) => {
+      if (!activeClient?.connected) {
+        reject(new Error("MQTT broker is not connected"));
+        return;
+      }
+      activeClient.publish(topic, message, { qos: 1 }, (error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve({ topic, message });
+        }
+      });
+    }),
+
+  // Without a backend the firmware keeps the name and echoes it in its next state message
+  renameDevice: (device, name) => brokerTransport.publish(JSON.stringify({ name }), device.commandTopic),
+
+  // There is nothing to register with; the credentials have to be added to the broker by hand
+  provisionDevice: async (registration) => registration,
+
+  uploadFirmware: async () => {
+    throw new Error("Firmware uploads need the backend bridge; host the binary yourself in broker mode");
+  },
+
+  connect: (handlers) => {
+    const config = getConfig();
+    // With login enabled the broker is expected to accept the access token as the password
+    const token = getAccessToken();
+    const client = mqtt.connect(config.brokerUrl, {
+      username: token ? getSession()?.user.username : config.brokerUsername,
+      password: token ?? config.brokerPassword,
+      // Reconnection is driven by useWebSocket so both transports behave the same
+      reconnectPeriod: 0,
+    });
+    activeClient = client;
+
+    client.on("connect", () => {
+      client.subscribe(getConfig().stateTopic, { qos: 1 }, (error) => {
+        if (error) {
+          handlers.onError();
+          return;
+        }
+        handlers.onOpen();
+      });
+    });
+
+    client.on("message", (topic, payload) => {
+      const deviceId = deviceIdFromTopic(topic);
+      const text = payload.toString();
+
+      // An empty retained payload means the device state was cleared
+      if (!text) {
+        if (deviceId) {
+          handlers.onMessage(JSON.stringify({ type: "delete", deviceId }));
+        }
+        return;
+      }
+
+      try {
+        const data = JSON.parse(text);
+        const id = data.deviceId ?? deviceId;
+        handlers.onMessage(
+          JSON.stringify({
+            ...data,
+            deviceId: id,
+            commandTopic: data.commandTopic ?? commandTopicFor(id),
+          })
+        );
+      } catch {
+        handlers.onMessage(text);
+      }
+    });
+
+    client.on("error", handlers.onError);
+    client.on("close", () => {
+      if (activeClient === client) {
+        activeClient = null;
+      }
+      handlers.onClose();
+    });
+
+    return {
+      isOpen: () => client.connected,
+      // There is no server to delete from: this only forgets the retained state, so a device that is
+      // still running comes back with its next report
+      send: (payload: { type?: string; deviceId?: string }) => {
+        if (payload.type === "delete" && payload.deviceId) {
+          client.publish(stateTopicFor(payload.deviceId), "", { qos: 1, retain: true });
+        }
+      },
+      close: () => {
+        client.end();
+      },
+    };
+  },
+};
@@ -0,0 +1,52 @@
+import { DiagnosticEntry, DiagnosticSource } from "../types/types";
+
+const MAX_ENTRIES = 200;
+const MAX_RAW_LENGTH = 2000;
+
+let entries: DiagnosticEntry[] = [];
+const listeners = new Set<() => void>();
+
+let diagnosticCounter = 0;
+const nextDiagnosticId = () => `diag-${Date.now().toString(36)}-${++diagnosticCounter}`;
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const stringify = (raw: unknown) => {
+  if (typeof raw === "string") return raw;
+  try {
+    return JSON.stringify(raw);
+  } catch {
+    return String(raw);
+  }
+};
+
+// Keeps rejected payloads around so they can be inspected instead of silently dropped
+export const recordInvalidMessage = (source: DiagnosticSource, raw: unknown, error: string) => {
+  console.warn(`Rejected ${source} message: ${error}`, raw);
+  const text = stringify(raw);
+  entries = [
+    {
+      id: nextDiagnosticId(),
+      source,
+      receivedAt: Date.now(),
+      error,
+      raw: text.length > MAX_RAW_LENGTH ? `${text.slice(0, MAX_RAW_LENGTH)}…` : text,
+    },
+    ...entries,
+  ].slice(0, MAX_ENTRIES);
+  notify();
+};
+
+export const getDiagnostics = (): DiagnosticEntry[] => entries;
+
+export const clearDiagnostics = () => {
+  entries = [];
+  notify();
+};
+
+export const subscribeDiagnostics = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,32 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
+import { getAccessToken, refreshSession } from "./auth";
+
+// Shared axios instance for backend calls; carries the access token and retries once after a refresh
+export const http = axios.create();
+
+http.interceptors.request.use((config) => {
+  const token = getAccessToken();
+  if (token) config.headers.set("Authorization", `Bearer ${token}`);
+  return config;
+});
+
+http.interceptors.response.use(undefined, async (error: AxiosError) => {
+  const request = error.config as (InternalAxiosRequestConfig & { retriedAuth?: boolean }) | undefined;
+  if (error.response?.status !== 401 || !request || request.retriedAuth || !getAccessToken()) {
+    throw error;
+  }
+
+  request.retriedAuth = true;
+  const session = await refreshSession();
+  if (!session) throw error;
+  return http(request);
+});
+
+// The backend's own explanation when it sent one, else the transport error
+export const errorReason = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const message = (error.response?.data as { message?: unknown } | undefined)?.message;
+    if (typeof message === "string") return message;
+  }
+  return (error as Error).message;
+};
@@ -0,0 +1,122 @@
+import { decodeDevice, decodeMessage } from "./protocol";
+
+const decode = (message: object) => decodeMessage(JSON.stringify(message));
+
+describe("decodeMessage", () => {
+  it("decodes a state update and drops absent fields", () => {
+    expect(decode({ deviceId: "esp-1", lightOn: true, brightness: 140.4, timestamp: 1700000000 })).toEqual({
+      ok: true,
+      value: {
+        type: "update",
+        version: 1,
+        deviceId: "esp-1",
+        lightOn: true,
+        brightness: 100,
+        readings: {},
+        online: true,
+        timestamp: 1700000000000,
+      },
+    });
+  });
+
+  it("accepts the legacy lowercase rgbmode flag and hex colors", () => {
+    const decoded = decode({ type: "update", deviceId: "esp-1", lightOn: false, rgbmode: true, color: "#00ff00" });
+    expect(decoded.ok && decoded.value).toMatchObject({ rgbMode: true, color: { r: 0, g: 255, b: 0 } });
+  });
+
+  it("rejects malformed fields with a readable error", () => {
+    expect(decode({ deviceId: "esp-1", lightOn: "yes" })).toEqual({ ok: false, error: '"lightOn" must be a boolean' });
+    expect(decode({ deviceId: "", lightOn: true })).toEqual({
+      ok: false,
+      error: '"deviceId" must be a non-empty string',
+    });
+    expect(decode({ deviceId: "esp-1", lightOn: true, relays: [1] })).toEqual({
+      ok: false,
+      error: '"relays" must be an array of booleans',
+    });
+  });
+
+  it("rejects invalid JSON, non-objects and unknown types", () => {
+    expect(decodeMessage("{")).toEqual({ ok: false, error: "Not valid JSON" });
+    expect(decodeMessage("[1]")).toEqual({ ok: false, error: "Expected a JSON object" });
+    expect(decode({ type: "reboot", deviceId: "esp-1" })).toEqual({
+      ok: false,
+      error: 'Unknown message type "reboot"',
+    });
+  });
+
+  it("rejects protocol versions newer than it speaks", () => {
+    const decoded = decode({ version: 2, deviceId: "esp-1", lightOn: true });
+    expect(decoded.ok).toBe(false);
+    expect(!decoded.ok && decoded.error).toMatch(/Unsupported protocol version 2/);
+    expect(decode({ version: 0, deviceId: "esp-1", lightOn: true }).ok).toBe(false);
+  });
+
+  it("maps presence reports to heartbeats", () => {
+    const decoded = decode({ type: "presence", deviceId: "esp-1", status: "offline", timestamp: 1700000000000 });
+    expect(decoded).toEqual({
+      ok: true,
+      value: { type: "heartbeat", version: 1, deviceId: "esp-1", online: false, timestamp: 1700000000000 },
+    });
+  });
+
+  it("requires at least one reading in telemetry messages", () => {
+    const decoded = decode({ type: "telemetry", deviceId: "esp-1", temperature: "21.5", readings: { lux: 300 } });
+    expect(decoded.ok && decoded.value).toMatchObject({ readings: { temperature: 21.5, lux: 300 } });
+    expect(decode({ type: "telemetry", deviceId: "esp-1" })).toEqual({
+      ok: false,
+      error: "Telemetry message has no numeric readings",
+    });
+  });
+
+  it("validates OTA progress", () => {
+    expect(decode({ type: "ota", deviceId: "esp-1", status: "flashing", progress: 40 })).toEqual({
+      ok: true,
+      value: { type: "ota", version: 1, deviceId: "esp-1", status: "flashing", progress: 40 },
+    });
+    expect(decode({ type: "ota", deviceId: "esp-1", status: "paused" }).ok).toBe(false);
+    expect(decode({ type: "ota", deviceId: "esp-1", status: "flashing", progress: 101 }).ok).toBe(false);
+  });
+
+  it("decodes errors with an optional device", () => {
+    expect(decode({ type: "error", message: "Broker full" })).toEqual({
+      ok: true,
+      value: { type: "error", version: 1, message: "Broker full" },
+    });
+  });
+});
+
+describe("decodeDevice", () => {
+  it("fills in a default name and normalises lastSeen", () => {
+    const raw = { deviceId: "esp-1", lightOn: false, commandTopic: "esp-1/cmd", lastSeen: 1700000000 };
+    expect(decodeDevice(raw)).toEqual({
+      ok: true,
+      value: {
+        deviceId: "esp-1",
+        name: "ESP_esp-1",
+        lightOn: false,
+        commandTopic: "esp-1/cmd",
+        lastSeen: 1700000000000,
+      },
+    });
+  });
+
+  it("keeps readings reported with the device", () => {
+    const decoded = decodeDevice({ deviceId: "esp-1", lightOn: true, commandTopic: "t", humidity: 40 });
+    expect(decoded.ok && decoded.value.readings).toEqual({ humidity: 40 });
+  });
+
+  it("requires a command topic", () => {
+    expect(decodeDevice({ deviceId: "esp-1", lightOn: true })).toEqual({
+      ok: false,
+      error: '"commandTopic" must be a non-empty string',
+    });
+  });
+
+  it("rejects unparseable lastSeen values", () => {
+    expect(decodeDevice({ deviceId: "esp-1", lightOn: true, commandTopic: "t", lastSeen: "soon" })).toEqual({
+      ok: false,
+      error: '"lastSeen" must be a timestamp',
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { DeviceMessage, EspDevice } from "../types/types";
+import { clampBrightness, parseColor } from "../utils/color";
+import { extractTelemetry, messageTimestamp } from "../utils/telemetry";
+import { defaultDeviceName } from "../utils/devices";
+
+export const PROTOCOL_VERSION = 1;
+
+export type Decoded<T> = { ok: true; value: T } | { ok: false; error: string };
+
+type Fields = Record<string, unknown>;
+
+// Field helpers throw; the exported decoders turn that into a Decoded result
+const fail = (error: string): never => {
+  throw new Error(error);
+};
+
+const requireString = (data: Fields, key: string): string => {
+  const value = data[key];
+  if (typeof value !== "string" || !value.trim()) fail(`"${key}" must be a non-empty string`);
+  return value as string;
+};
+
+const optionalString = (data: Fields, key: string): string | undefined =>
+  data[key] === undefined || data[key] === null ? undefined : requireString(data, key);
+
+const requireBoolean = (data: Fields, key: string): boolean => {
+  const value = data[key];
+  if (typeof value !== "boolean") fail(`"${key}" must be a boolean`);
+  return value as boolean;
+};
+
+const optionalBoolean = (data: Fields, key: string): boolean | undefined =>
+  data[key] === undefined || data[key] === null ? undefined : requireBoolean(data, key);
+
+// Older firmware reports the RGB flag as lowercase "rgbmode"
+const rgbModeOf = (data: Fields) =>
+  data.rgbMode !== undefined ? optionalBoolean(data, "rgbMode") : optionalBoolean(data, "rgbmode");
+
+const OTA_STATUSES = ["downloading", "flashing", "rebooting", "done", "failed"] as const;
+
+const isOnline = (data: Fields) => data.online !== false && data.status !== "offline";
+
+// Optional state every device may report; present but malformed fields reject the whole message
+const decodeExtras = (data: Fields): Partial<EspDevice> => {
+  const extras: Partial<EspDevice> = {};
+
+  if (data.brightness !== undefined) {
+    if (typeof data.brightness !== "number" || !Number.isFinite(data.brightness)) {
+      fail(`"brightness" must be a number`);
+    }
+    extras.brightness = clampBrightness(data.brightness as number);
+  }
+
+  if (data.color !== undefined) {
+    extras.color = parseColor(data.color) ?? fail(`"color" is not a recognised color`);
+  }
+
+  if (data.capabilities !== undefined) {
+    if (!Array.isArray(data.capabilities) || data.capabilities.some((c) => typeof c !== "string")) {
+      fail(`"capabilities" must be an array of strings`);
+    }
+    extras.capabilities = data.capabilities as string[];
+  }
+
+  if (data.relays !== undefined) {
+    if (!Array.isArray(data.relays) || data.relays.some((r) => typeof r !== "boolean")) {
+      fail(`"relays" must be an array of booleans`);
+    }
+    extras.relays = data.relays as boolean[];
+  }
+
+  const room = optionalString(data, "room");
+  if (room !== undefined) extras.room = room;
+  const name = optionalString(data, "name");
+  if (name !== undefined) extras.name = name;
+  const firmwareVersion = optionalString(data, "firmwareVersion");
+  if (firmwareVersion !== undefined) extras.firmwareVersion = firmwareVersion;
+
+  return extras;
+};
+
+// Absent optional fields must not overwrite known device state when merged
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+
+const decodeFields = (data: Fields, version: number): DeviceMessage => {
+  const type = data.type ?? "update";
+
+  switch (type) {
+    case "update":
+      return compact({
+        type: "update",
+        version,
+        deviceId: requireString(data, "deviceId"),
+        lightOn: requireBoolean(data, "lightOn"),
+        rgbMode: rgbModeOf(data),
+        commandTopic: optionalString(data, "commandTopic"),
+        ...decodeExtras(data),
+        readings: extractTelemetry(data),
+        online: isOnline(data),
+        timestamp: messageTimestamp(data),
+      });
+    case "delete":
+      return { type: "delete", version, deviceId: requireString(data, "deviceId") };
+    case "rename":
+      return {
+        type: "rename",
+        version,
+        deviceId: requireString(data, "deviceId"),
+        name: requireString(data, "name"),
+      };
+    case "heartbeat":
+    case "presence":
+      return {
+        type: "heartbeat",
+        version,
+        deviceId: requireString(data, "deviceId"),
+        online: isOnline(data),
+        timestamp: messageTimestamp(data),
+      };
+    case "telemetry": {
+      const readings = extractTelemetry(data);
+      if (Object.keys(readings).length === 0) fail("Telemetry message has no numeric readings");
+      return {
+        type: "telemetry",
+        version,
+        deviceId: requireString(data, "deviceId"),
+        readings,
+        timestamp: messageTimestamp(data),
+      };
+    }
+    case "ota": {
+      const status = data.status;
+      if (!OTA_STATUSES.includes(status as typeof OTA_STATUSES[number])) {
+        fail(`"status" must be one of ${OTA_STATUSES.join(", ")}`);
+      }
+      if (
+        data.progress !== undefined &&
+        (typeof data.progress !== "number" || data.progress < 0 || data.progress > 100)
+      ) {
+        fail(`"progress" must be a number from 0 to 100`);
+      }
+      return compact({
+        type: "ota",
+        version,
+        deviceId: requireString(data, "deviceId"),
+        status: status as typeof OTA_STATUSES[number],
+        progress: data.progress as number | undefined,
+        firmwareVersion: optionalString(data, "firmwareVersion"),
+        error: optionalString(data, "error"),
+      });
+    }
+    case "error":
+      return compact({
+        type: "error",
+        version,
+        deviceId: optionalString(data, "deviceId"),
+        code: optionalString(data, "code"),
+        message: requireString(data, "message"),
+      });
+    default:
+      return fail(`Unknown message type ${JSON.stringify(type)}`);
+  }
+};
+
+const asObject = (raw: unknown): Fields =>
+  typeof raw === "object" && raw !== null && !Array.isArray(raw)
+    ? (raw as Fields)
+    : fail("Expected a JSON object");
+
+const toDecoded = <T>(decode: () => T): Decoded<T> => {
+  try {
+    return { ok: true, value: decode() };
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+};
+
+// Decodes one message pushed over the WebSocket or received from the broker
+export const decodeMessage = (rawData: string): Decoded<DeviceMessage> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawData);
+  } catch {
+    return { ok: false, error: "Not valid JSON" };
+  }
+
+  return toDecoded(() => {
+    const data = asObject(parsed);
+    const version = data.version ?? 1;
+    if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+      fail(`"version" must be a positive integer`);
+    }
+    if ((version as number) > PROTOCOL_VERSION) {
+      fail(`Unsupported protocol version ${version} (this dashboard speaks ${PROTOCOL_VERSION})`);
+    }
+    return decodeFields(data, version as number);
+  });
+};
+
+const decodeLastSeen = (value: unknown): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "number" && Number.isFinite(value)) return value < 1e12 ? value * 1000 : value;
+  if (typeof value === "string" && !Number.isNaN(Date.parse(value))) return Date.parse(value);
+  return fail(`"lastSeen" must be a timestamp`);
+};
+
+// Decodes one entry of the REST device list
+export const decodeDevice = (raw: unknown): Decoded<EspDevice> =>
+  toDecoded(() => {
+    const data = asObject(raw);
+    const deviceId = requireString(data, "deviceId");
+    const readings = extractTelemetry(data);
+    const device: EspDevice = compact({
+      deviceId,
+      name: optionalString(data, "name") ?? defaultDeviceName(deviceId),
+      lightOn: requireBoolean(data, "lightOn"),
+      rgbMode: rgbModeOf(data),
+      ...decodeExtras(data),
+      commandTopic: requireString(data, "commandTopic"),
+    });
+    if (Object.keys(readings).length > 0) device.readings = readings;
+    const lastSeen = decodeLastSeen(data.lastSeen);
+    if (lastSeen !== undefined) device.lastSeen = lastSeen;
+    return device;
+  });
@@ -0,0 +1,36 @@
+import { getConfig, TransportKind } from "../config/config";
+import { DeviceRegistration, EspDevice } from "../types/types";
+import { bridgeTransport } from "./bridgeTransport";
+import { brokerTransport } from "./brokerTransport";
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  // Raw JSON text in the same shape the backend bridge pushes over its WebSocket
+  onMessage: (data: string) => void;
+  onError: () => void;
+  onClose: () => void;
+}
+
+export interface TransportConnection {
+  isOpen: () => boolean;
+  send: (payload: object) => void;
+  close: () => void;
+}
+
+export interface Transport {
+  kind: TransportKind;
+  // URL of the live connection, used in error messages
+  endpoint: () => string;
+  // Raw device list; decoded and validated by the api layer
+  fetchDevices: () => Promise<unknown>;
+  publish: (message: string, topic: string) => Promise<unknown>;
+  renameDevice: (device: EspDevice, name: string) => Promise<unknown>;
+  // Registers a new device's id and broker credentials before it is flashed
+  provisionDevice: (registration: DeviceRegistration) => Promise<unknown>;
+  // Stores a firmware binary where devices can download it; resolves to the raw image metadata
+  uploadFirmware: (file: File, version: string, onProgress: (percent: number) => void) => Promise<unknown>;
+  connect: (handlers: TransportHandlers) => TransportConnection;
+}
+
+export const getTransport = (): Transport =>
+  getConfig().transport === "broker" ? brokerTransport : bridgeTransport;
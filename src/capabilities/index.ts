@@ -0,0 +1,14 @@
+import { registerCapability } from "./registry";
+import { SwitchControl } from "../components/controls/SwitchControl";
+import { RgbControl } from "../components/controls/RgbControl";
+import { DimmerControl } from "../components/controls/DimmerControl";
+import { SensorControl } from "../components/controls/SensorControl";
+import { RelayArrayControl } from "../components/controls/RelayArrayControl";
+
+registerCapability("switch", SwitchControl, 10);
+registerCapability("rgb", RgbControl, 20);
+registerCapability("dimmer", DimmerControl, 30);
+registerCapability("relay-array", RelayArrayControl, 40);
+registerCapability("sensor", SensorControl, 50);
+
+export * from "./registry";
@@ -0,0 +1,42 @@
+import { ComponentType } from "react";
+import { DeviceCapability, EspDevice } from "../types/types";
+import { CommandContext } from "../utils/deviceCommands";
+
+export interface CapabilityControlProps extends CommandContext {
+  device: EspDevice;
+  // True while the device is offline; controls must not send anything
+  disabled?: boolean;
+}
+
+interface CapabilityEntry {
+  component: ComponentType<CapabilityControlProps>;
+  // Lower renders first on the card
+  order: number;
+}
+
+// Devices that predate capability descriptors all have a light with an RGB strip
+export const DEFAULT_CAPABILITIES: DeviceCapability[] = ["switch", "rgb", "dimmer"];
+
+const registry = new Map<string, CapabilityEntry>();
+
+export const registerCapability = (
+  capability: DeviceCapability | string,
+  component: ComponentType<CapabilityControlProps>,
+  order = 100
+) => {
+  registry.set(capability, { component, order });
+};
+
+export const getDeviceCapabilities = (device: EspDevice): string[] =>
+  device.capabilities && device.capabilities.length > 0 ? device.capabilities : DEFAULT_CAPABILITIES;
+
+export const hasCapability = (device: EspDevice, capability: DeviceCapability | string) =>
+  getDeviceCapabilities(device).includes(capability);
+
+// Registered controls for the device, in display order; unknown capabilities are skipped
+export const getCapabilityControls = (device: EspDevice) =>
+  getDeviceCapabilities(device)
+    .filter((capability, index, all) => all.indexOf(capability) === index)
+    .map((capability) => ({ capability, entry: registry.get(capability) }))
+    .filter((item): item is { capability: string; entry: CapabilityEntry } => !!item.entry)
+    .sort((a, b) => a.entry.order - b.entry.order);
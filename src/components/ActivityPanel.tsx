@@ -0,0 +1,164 @@
+import { useMemo, useState } from "react";
+import { AuditKind, AuditSource, EspDevice } from "../types/types";
+import { useAuditLog } from "../hooks/useAuditLog";
+import { auditToCsv, downloadFile } from "../utils/audit";
+
+interface ActivityPanelProps {
+  devices: EspDevice[];
+  // Opens the timeline already filtered to one device
+  initialDeviceId?: string;
+  canClear: boolean;
+  onClose: () => void;
+}
+
+const MAX_RENDERED = 500;
+
+const KIND_LABELS: Record<AuditKind, string> = {
+  command: "Command",
+  rename: "Rename",
+  delete: "Delete",
+  restore: "Restore",
+  provision: "Provision",
+  firmware: "Firmware",
+  automation: "Automation",
+  state: "State change",
+  discovered: "Discovered",
+  removed: "Removed",
+};
+
+const SOURCE_LABELS: Record<AuditSource, string> = {
+  user: "Dashboard",
+  room: "Room action",
+  batch: "Batch action",
+  scene: "Scene",
+  schedule: "Schedule",
+  automation: "Automation",
+  queue: "Offline queue",
+  rollout: "Firmware rollout",
+  device: "Device",
+  remote: "Other client",
+};
+
+export const ActivityPanel = ({ devices, initialDeviceId, canClear, onClose }: ActivityPanelProps) => {
+  const { entries, clear } = useAuditLog();
+  const [deviceId, setDeviceId] = useState(initialDeviceId ?? "");
+  const [source, setSource] = useState<AuditSource | "">("");
+  const [kind, setKind] = useState<AuditKind | "">("");
+  const [query, setQuery] = useState("");
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return entries.filter(
+      (entry) =>
+        (!deviceId || entry.deviceId === deviceId) &&
+        (!source || entry.source === source) &&
+        (!kind || entry.kind === kind) &&
+        (!needle ||
+          [entry.summary, entry.actor, entry.deviceName, entry.detail].some((field) =>
+            field?.toLowerCase().includes(needle)
+          ))
+    );
+  }, [entries, deviceId, source, kind, query]);
+
+  // Devices that were deleted still appear in old entries
+  const deviceOptions = useMemo(() => {
+    const names = new Map(devices.map((d) => [d.deviceId, d.name]));
+    entries.forEach((entry) => {
+      if (entry.deviceId && !names.has(entry.deviceId)) names.set(entry.deviceId, entry.deviceName ?? entry.deviceId);
+    });
+    return Array.from(names.entries()).sort(([, a], [, b]) => a.localeCompare(b));
+  }, [devices, entries]);
+
+  const exportName = `activity-${deviceId || "all"}-${new Date().toISOString().slice(0, 10)}`;
+
+  return (
+    <div className="modal-overlay">
+      <div className="schedule-modal activity-modal">
+        <h2>Activity</h2>
+
+        <div className="activity-filters">
+          <select value={deviceId} onChange={(e) => setDeviceId(e.target.value)}>
+            <option value="">All devices</option>
+            {deviceOptions.map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <select value={source} onChange={(e) => setSource(e.target.value as AuditSource | "")}>
+            <option value="">All sources</option>
+            {(Object.keys(SOURCE_LABELS) as AuditSource[]).map((value) => (
+              <option key={value} value={value}>
+                {SOURCE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <select value={kind} onChange={(e) => setKind(e.target.value as AuditKind | "")}>
+            <option value="">All events</option>
+            {(Object.keys(KIND_LABELS) as AuditKind[]).map((value) => (
+              <option key={value} value={value}>
+                {KIND_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <input value={query} placeholder="Search" onChange={(e) => setQuery(e.target.value)} />
+        </div>
+
+        {filtered.length > 0 ? (
+          <ul className="activity-list">
+            {filtered.slice(0, MAX_RENDERED).map((entry) => (
+              <li key={entry.id} className={`activity-item ${entry.kind} ${entry.error ? "failed" : ""}`}>
+                <time dateTime={new Date(entry.timestamp).toISOString()}>
+                  {new Date(entry.timestamp).toLocaleString()}
+                </time>
+                <div className="activity-body">
+                  <strong>
+                    {entry.deviceName ?? entry.deviceId ?? "—"}: {entry.summary}
+                  </strong>
+                  <span>
+                    {KIND_LABELS[entry.kind]} · {SOURCE_LABELS[entry.source]} · {entry.actor}
+                  </span>
+                  {entry.error && <span className="queue-error">Failed: {entry.error}</span>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="sensor-empty">No matching activity</p>
+        )}
+        {filtered.length > MAX_RENDERED && (
+          <p className="queue-hint">
+            Showing the latest {MAX_RENDERED} of {filtered.length}; export to see everything.
+          </p>
+        )}
+
+        <div className="modal-buttons">
+          <button
+            className="confirm-button"
+            disabled={filtered.length === 0}
+            onClick={() => downloadFile(`${exportName}.csv`, auditToCsv(filtered), "text/csv")}
+          >
+            Export CSV
+          </button>
+          <button
+            className="cancel-button"
+            disabled={filtered.length === 0}
+            onClick={() =>
+              downloadFile(`${exportName}.json`, JSON.stringify(filtered, null, 2), "application/json")
+            }
+          >
+            Export JSON
+          </button>
+          {canClear && entries.length > 0 && (
+            <button className="cancel-button" onClick={clear}>
+              Clear Log
+            </button>
+          )}
+          <button className="cancel-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,521 @@
+import { FormEvent, useMemo, useState } from "react";
+import {
+  AutomationAction,
+  AutomationCondition,
+  AutomationRule,
+  AutomationTrigger,
+  ComparisonOperator,
+  DeviceComparison,
+  EspDevice,
+  ScheduleRule,
+  TimeOfDay,
+} from "../types/types";
+import { NewAutomationRule } from "../hooks/useAutomations";
+import { useAuditLog } from "../hooks/useAuditLog";
+import {
+  describeAction,
+  describeCondition,
+  describeTrigger,
+  deviceValueKeys,
+  isBooleanKey,
+  OPERATOR_LABELS,
+  validateAutomation,
+} from "../utils/automation";
+import { ACTION_LABELS, WEEKDAYS } from "../utils/schedule";
+
+interface AutomationManagerProps {
+  devices: EspDevice[];
+  rules: AutomationRule[];
+  // Rules with actions still in progress, e.g. waiting on a delay
+  running: string[];
+  addRule: (rule: NewAutomationRule) => void;
+  updateRule: (id: string, changes: Partial<AutomationRule>) => void;
+  removeRule: (id: string) => void;
+  onClose: () => void;
+}
+
+interface Draft {
+  name: string;
+  triggers: AutomationTrigger[];
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  dryRun: boolean;
+}
+
+const RECENT_LOG_ENTRIES = 20;
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const OPERATORS = Object.keys(OPERATOR_LABELS) as ComparisonOperator[];
+
+const emptyDraft = (): Draft => ({ name: "", triggers: [], conditions: [], actions: [], dryRun: true });
+
+const replaceAt = <T,>(items: T[], index: number, item: T) => items.map((current, i) => (i === index ? item : current));
+const removeAt = <T,>(items: T[], index: number) => items.filter((_, i) => i !== index);
+
+const ComparisonFields = ({
+  devices,
+  comparison,
+  operators,
+  onChange,
+}: {
+  devices: EspDevice[];
+  comparison: DeviceComparison;
+  operators: ComparisonOperator[];
+  onChange: (comparison: DeviceComparison) => void;
+}) => {
+  const keys = deviceValueKeys(devices.find((d) => d.deviceId === comparison.deviceId));
+  const boolean = isBooleanKey(comparison.key);
+  const setKey = (key: string) => onChange({ ...comparison, key, value: isBooleanKey(key) ? true : 0 });
+
+  return (
+    <>
+      <select value={comparison.deviceId} onChange={(e) => onChange({ ...comparison, deviceId: e.target.value })}>
+        {devices.map((device) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.name}
+          </option>
+        ))}
+      </select>
+      <select value={comparison.key} onChange={(e) => setKey(e.target.value)}>
+        {keys.map(([key, label]) => (
+          <option key={key} value={key}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={comparison.operator}
+        onChange={(e) => onChange({ ...comparison, operator: e.target.value as ComparisonOperator })}
+      >
+        {operators
+          .filter((op) => !boolean || op === "changes" || op === "==" || op === "!=")
+          .map((op) => (
+            <option key={op} value={op}>
+              {OPERATOR_LABELS[op]}
+            </option>
+          ))}
+      </select>
+      {comparison.operator !== "changes" &&
+        (boolean ? (
+          <select
+            value={comparison.value ? "on" : "off"}
+            onChange={(e) => onChange({ ...comparison, value: e.target.value === "on" })}
+          >
+            <option value="on">on</option>
+            <option value="off">off</option>
+          </select>
+        ) : (
+          <input
+            type="number"
+            step="any"
+            value={Number(comparison.value ?? 0)}
+            onChange={(e) => onChange({ ...comparison, value: Number(e.target.value) })}
+          />
+        ))}
+    </>
+  );
+};
+
+const TimeOfDayFields = ({ time, onChange }: { time: TimeOfDay; onChange: (time: TimeOfDay) => void }) => (
+  <>
+    <select
+      value={time.kind}
+      onChange={(e) => {
+        const kind = e.target.value as TimeOfDay["kind"];
+        onChange(kind === "clock" ? { kind, time: "22:00" } : { kind, offsetMinutes: 0 });
+      }}
+    >
+      <option value="clock">Time</option>
+      <option value="sunrise">Sunrise</option>
+      <option value="sunset">Sunset</option>
+    </select>
+    {time.kind === "clock" ? (
+      <input type="time" value={time.time} onChange={(e) => onChange({ ...time, time: e.target.value })} />
+    ) : (
+      <input
+        type="number"
+        title="Offset in minutes"
+        value={time.offsetMinutes}
+        onChange={(e) => onChange({ ...time, offsetMinutes: Number(e.target.value) })}
+      />
+    )}
+  </>
+);
+
+type WeeklyRule = Extract<ScheduleRule, { kind: "weekly" }>;
+
+const WeeklyFields = ({ rule, onChange }: { rule: WeeklyRule; onChange: (rule: WeeklyRule) => void }) => (
+  <>
+    <div className="weekday-picker">
+      {WEEKDAYS.map((label, day) => (
+        <button
+          key={label}
+          type="button"
+          className={rule.days.includes(day) ? "active" : ""}
+          onClick={() =>
+            onChange({
+              ...rule,
+              days: rule.days.includes(day) ? rule.days.filter((d) => d !== day) : [...rule.days, day].sort(),
+            })
+          }
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+    <input type="time" value={rule.time} onChange={(e) => onChange({ ...rule, time: e.target.value })} />
+  </>
+);
+
+export const AutomationManager = ({
+  devices,
+  rules,
+  running,
+  addRule,
+  updateRule,
+  removeRule,
+  onClose,
+}: AutomationManagerProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [formError, setFormError] = useState<string | null>(null);
+  const { entries } = useAuditLog();
+  const recent = useMemo(
+    () => entries.filter((entry) => entry.source === "automation").slice(0, RECENT_LOG_ENTRIES),
+    [entries]
+  );
+
+  const firstDeviceId = devices[0]?.deviceId ?? "";
+  const deviceName = (id: string) => devices.find((d) => d.deviceId === id)?.name ?? id;
+  const change = (changes: Partial<Draft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const newTrigger = (kind: AutomationTrigger["kind"]): AutomationTrigger => {
+    if (kind === "device") return { kind, deviceId: firstDeviceId, key: "lightOn", operator: "==", value: true };
+    if (kind === "sun") return { kind, event: "sunset", offsetMinutes: 0 };
+    return { kind, rule: { kind: "weekly", days: ALL_DAYS, time: "18:00" } };
+  };
+
+  const newCondition = (kind: AutomationCondition["kind"]): AutomationCondition =>
+    kind === "device"
+      ? { kind, deviceId: firstDeviceId, key: "lightOn", operator: "==", value: false }
+      : { kind, after: { kind: "sunset", offsetMinutes: 0 }, before: { kind: "clock", time: "06:00" } };
+
+  const newAction = (kind: AutomationAction["kind"]): AutomationAction =>
+    kind === "publish" ? { kind, deviceId: firstDeviceId, message: "on" } : { kind, seconds: 300 };
+
+  const startEditing = (rule: AutomationRule) => {
+    setEditingId(rule.id);
+    setDraft({
+      name: rule.name,
+      triggers: rule.triggers,
+      conditions: rule.conditions,
+      actions: rule.actions,
+      dryRun: rule.dryRun,
+    });
+    setFormError(null);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(emptyDraft());
+    setFormError(null);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const error = validateAutomation(draft);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    const name = draft.name.trim() || describeTrigger(draft.triggers[0], deviceName);
+    if (editingId) {
+      updateRule(editingId, { ...draft, name, lastError: undefined });
+    } else {
+      addRule({ ...draft, name, enabled: true });
+    }
+    resetForm();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="schedule-modal automation-modal">
+        <h2>Automations</h2>
+
+        {rules.length > 0 ? (
+          <ul className="schedule-list">
+            {rules.map((rule) => (
+              <li key={rule.id} className={`schedule-item ${rule.enabled ? "" : "disabled"}`}>
+                <div className="schedule-info">
+                  <strong>
+                    {rule.name}
+                    {rule.dryRun && <span className="automation-badge">dry run</span>}
+                    {running.includes(rule.id) && <span className="automation-badge running">running</span>}
+                  </strong>
+                  <span>{rule.triggers.map((t) => describeTrigger(t, deviceName)).join(" or ")}</span>
+                  {rule.conditions.length > 0 && (
+                    <span>If {rule.conditions.map((c) => describeCondition(c, deviceName)).join(" and ")}</span>
+                  )}
+                  <span>Then {rule.actions.map((a) => describeAction(a, deviceName)).join(", then ")}</span>
+                  {rule.lastFiredAt && <small>Last fired: {new Date(rule.lastFiredAt).toLocaleString()}</small>}
+                  {rule.lastError && <small className="settings-error">{rule.lastError}</small>}
+                </div>
+                <div className="schedule-actions">
+                  <button
+                    className="cancel-button"
+                    onClick={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                  >
+                    {rule.enabled ? "Disable" : "Enable"}
+                  </button>
+                  <button className="cancel-button" onClick={() => updateRule(rule.id, { dryRun: !rule.dryRun })}>
+                    {rule.dryRun ? "Go live" : "Dry run"}
+                  </button>
+                  <button className="cancel-button" onClick={() => startEditing(rule)}>
+                    Edit
+                  </button>
+                  <button
+                    className="confirm-button"
+                    onClick={() => {
+                      if (editingId === rule.id) resetForm();
+                      removeRule(rule.id);
+                    }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="sensor-empty">No automations yet</p>
+        )}
+
+        <form className="schedule-form" onSubmit={handleSubmit}>
+          <h3>{editingId ? "Edit automation" : "New automation"}</h3>
+          <label className="settings-field">
+            <span>Name</span>
+            <input
+              value={draft.name}
+              placeholder="Porch light on motion"
+              onChange={(e) => change({ name: e.target.value })}
+            />
+          </label>
+
+          <h4 className="firmware-heading">When any of</h4>
+          {draft.triggers.map((trigger, index) => (
+            <div key={index} className="automation-row">
+              {trigger.kind === "device" && (
+                <ComparisonFields
+                  devices={devices}
+                  comparison={trigger}
+                  operators={OPERATORS}
+                  onChange={(comparison) =>
+                    change({ triggers: replaceAt(draft.triggers, index, { ...comparison, kind: "device" }) })
+                  }
+                />
+              )}
+              {trigger.kind === "sun" && (
+                <TimeOfDayFields
+                  time={{ kind: trigger.event, offsetMinutes: trigger.offsetMinutes }}
+                  onChange={(time) =>
+                    time.kind !== "clock" &&
+                    change({
+                      triggers: replaceAt(draft.triggers, index, {
+                        kind: "sun",
+                        event: time.kind,
+                        offsetMinutes: time.offsetMinutes,
+                      }),
+                    })
+                  }
+                />
+              )}
+              {trigger.kind === "schedule" && trigger.rule.kind === "weekly" && (
+                <WeeklyFields
+                  rule={trigger.rule}
+                  onChange={(rule) => change({ triggers: replaceAt(draft.triggers, index, { ...trigger, rule }) })}
+                />
+              )}
+              <button
+                type="button"
+                className="automation-remove"
+                title="Remove trigger"
+                onClick={() => change({ triggers: removeAt(draft.triggers, index) })}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="automation-add">
+            <button
+              type="button"
+              disabled={devices.length === 0}
+              onClick={() => change({ triggers: [...draft.triggers, newTrigger("device")] })}
+            >
+              + Device value
+            </button>
+            <button type="button" onClick={() => change({ triggers: [...draft.triggers, newTrigger("schedule")] })}>
+              + Time
+            </button>
+            <button type="button" onClick={() => change({ triggers: [...draft.triggers, newTrigger("sun")] })}>
+              + Sunrise/sunset
+            </button>
+          </div>
+
+          <h4 className="firmware-heading">Only if all of</h4>
+          {draft.conditions.map((condition, index) => (
+            <div key={index} className="automation-row">
+              {condition.kind === "device" ? (
+                <ComparisonFields
+                  devices={devices}
+                  comparison={condition}
+                  operators={OPERATORS.filter((op) => op !== "changes")}
+                  onChange={(comparison) =>
+                    change({ conditions: replaceAt(draft.conditions, index, { ...comparison, kind: "device" }) })
+                  }
+                />
+              ) : (
+                <>
+                  <span>After</span>
+                  <TimeOfDayFields
+                    time={condition.after}
+                    onChange={(after) => change({ conditions: replaceAt(draft.conditions, index, { ...condition, after }) })}
+                  />
+                  <span>before</span>
+                  <TimeOfDayFields
+                    time={condition.before}
+                    onChange={(before) =>
+                      change({ conditions: replaceAt(draft.conditions, index, { ...condition, before }) })
+                    }
+                  />
+                </>
+              )}
+              <button
+                type="button"
+                className="automation-remove"
+                title="Remove condition"
+                onClick={() => change({ conditions: removeAt(draft.conditions, index) })}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="automation-add">
+            <button
+              type="button"
+              disabled={devices.length === 0}
+              onClick={() => change({ conditions: [...draft.conditions, newCondition("device")] })}
+            >
+              + Device value
+            </button>
+            <button type="button" onClick={() => change({ conditions: [...draft.conditions, newCondition("time")] })}>
+              + Time window
+            </button>
+          </div>
+
+          <h4 className="firmware-heading">Then</h4>
+          {draft.actions.map((action, index) => (
+            <div key={index} className="automation-row">
+              {action.kind === "publish" ? (
+                <>
+                  <select
+                    value={action.deviceId}
+                    onChange={(e) =>
+                      change({ actions: replaceAt(draft.actions, index, { ...action, deviceId: e.target.value }) })
+                    }
+                  >
+                    {devices.map((device) => (
+                      <option key={device.deviceId} value={device.deviceId}>
+                        {device.name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    list="automation-messages"
+                    value={action.message}
+                    placeholder="Command"
+                    onChange={(e) =>
+                      change({ actions: replaceAt(draft.actions, index, { ...action, message: e.target.value }) })
+                    }
+                  />
+                </>
+              ) : (
+                <>
+                  <span>Wait</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={action.seconds}
+                    onChange={(e) =>
+                      change({ actions: replaceAt(draft.actions, index, { ...action, seconds: Number(e.target.value) }) })
+                    }
+                  />
+                  <span>seconds</span>
+                </>
+              )}
+              <button
+                type="button"
+                className="automation-remove"
+                title="Remove action"
+                onClick={() => change({ actions: removeAt(draft.actions, index) })}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <datalist id="automation-messages">
+            {Object.keys(ACTION_LABELS).map((message) => (
+              <option key={message} value={message} />
+            ))}
+          </datalist>
+          <div className="automation-add">
+            <button
+              type="button"
+              disabled={devices.length === 0}
+              onClick={() => change({ actions: [...draft.actions, newAction("publish")] })}
+            >
+              + Command
+            </button>
+            <button type="button" onClick={() => change({ actions: [...draft.actions, newAction("delay")] })}>
+              + Delay
+            </button>
+          </div>
+
+          <label className="checkbox-field">
+            <input type="checkbox" checked={draft.dryRun} onChange={(e) => change({ dryRun: e.target.checked })} />
+            <span>Dry run: log what would be sent instead of sending it</span>
+          </label>
+
+          {formError && <p className="settings-error">{formError}</p>}
+
+          <div className="modal-buttons">
+            <button type="submit" className="confirm-button">
+              {editingId ? "Save Automation" : "Add Automation"}
+            </button>
+            {editingId && (
+              <button type="button" className="cancel-button" onClick={resetForm}>
+                Cancel Edit
+              </button>
+            )}
+            <button type="button" className="cancel-button" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </form>
+
+        <h3>Recent activity</h3>
+        {recent.length > 0 ? (
+          <ul className="automation-log">
+            {recent.map((entry) => (
+              <li key={entry.id} className={entry.error ? "failed" : ""}>
+                <time>{new Date(entry.timestamp).toLocaleTimeString()}</time>
+                <span>{entry.summary}</span>
+                {entry.error && <small className="settings-error">{entry.error}</small>}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="sensor-empty">Nothing has fired yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
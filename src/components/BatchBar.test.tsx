@@ -0,0 +1,41 @@
+import { render, screen } from "@testing-library/react";
+import { BatchBar } from "./BatchBar";
+
+const renderBar = (canControl: boolean, canDelete: boolean) =>
+  render(
+    <BatchBar
+      selectedCount={2}
+      hiddenCount={0}
+      visibleCount={5}
+      rooms={["Kitchen"]}
+      canControl={canControl}
+      canDelete={canDelete}
+      busy={false}
+      onSelectAll={jest.fn()}
+      onClear={jest.fn()}
+      onRun={jest.fn()}
+    />
+  );
+
+describe("BatchBar permissions", () => {
+  it("only lets viewers change the selection", () => {
+    renderBar(false, false);
+    expect(screen.getByText("Clear")).toBeInTheDocument();
+    expect(screen.queryByText("On")).not.toBeInTheDocument();
+    expect(screen.queryByText("Assign")).not.toBeInTheDocument();
+    expect(screen.queryByPlaceholderText(/room/i)).not.toBeInTheDocument();
+    expect(screen.queryByText("Delete")).not.toBeInTheDocument();
+  });
+
+  it("lets operators switch lights and assign rooms, but not delete", () => {
+    renderBar(true, false);
+    expect(screen.getByText("On")).toBeInTheDocument();
+    expect(screen.getByText("Assign")).toBeInTheDocument();
+    expect(screen.queryByText("Delete")).not.toBeInTheDocument();
+  });
+
+  it("shows delete to admins", () => {
+    renderBar(true, true);
+    expect(screen.getByText("Delete")).toBeInTheDocument();
+  });
+});
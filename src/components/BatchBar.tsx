@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { BatchAction } from "../types/types";
+
+interface BatchBarProps {
+  selectedCount: number;
+  // Selected devices the current search or filters hide
+  hiddenCount: number;
+  visibleCount: number;
+  rooms: string[];
+  canControl: boolean;
+  canDelete: boolean;
+  busy: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onRun: (action: BatchAction) => void;
+}
+
+export const BatchBar = ({
+  selectedCount,
+  hiddenCount,
+  visibleCount,
+  rooms,
+  canControl,
+  canDelete,
+  busy,
+  onSelectAll,
+  onClear,
+  onRun,
+}: BatchBarProps) => {
+  const [room, setRoom] = useState("");
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  return (
+    <div className="batch-bar">
+      <span className="batch-count">
+        {selectedCount} selected
+        {hiddenCount > 0 && <small> · {hiddenCount} hidden by filters</small>}
+      </span>
+      <button className="batch-link" onClick={onSelectAll}>
+        Select all {visibleCount} shown
+      </button>
+      <button className="batch-link" onClick={onClear}>
+        Clear
+      </button>
+
+      {confirmingDelete ? (
+        <div className="batch-actions">
+          <span>Move {selectedCount} devices to the trash?</span>
+          <button
+            className="batch-danger"
+            onClick={() => {
+              setConfirmingDelete(false);
+              onRun({ kind: "delete" });
+            }}
+          >
+            Confirm
+          </button>
+          <button onClick={() => setConfirmingDelete(false)}>Cancel</button>
+        </div>
+      ) : (
+        <div className="batch-actions">
+          {canControl && (
+            <>
+              <button disabled={busy} onClick={() => onRun({ kind: "light", on: true })}>
+                On
+              </button>
+              <button disabled={busy} onClick={() => onRun({ kind: "light", on: false })}>
+                Off
+              </button>
+              <button disabled={busy} onClick={() => onRun({ kind: "rgb", on: true })}>
+                RGB on
+              </button>
+              <button disabled={busy} onClick={() => onRun({ kind: "rgb", on: false })}>
+                RGB off
+              </button>
+            </>
+          )}
+          {canControl && (
+            <form
+              className="batch-room"
+              onSubmit={(e) => {
+                e.preventDefault();
+                onRun({ kind: "room", room: room.trim() });
+                setRoom("");
+              }}
+            >
+              <input
+                list="batch-rooms"
+                value={room}
+                placeholder="Room (empty to unassign)"
+                onChange={(e) => setRoom(e.target.value)}
+              />
+              <datalist id="batch-rooms">
+                {rooms.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+              <button type="submit" disabled={busy}>
+                Assign
+              </button>
+            </form>
+          )}
+          {canDelete && (
+            <button className="batch-danger" disabled={busy} onClick={() => setConfirmingDelete(true)}>
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import { BatchItemStatus, BatchRun } from "../types/types";
+import { countByStatus, describeBatchAction } from "../utils/batch";
+
+interface BatchResultsProps {
+  run: BatchRun;
+  running: boolean;
+  onRetryFailed: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  pending: "…",
+  done: "✓",
+  queued: "⏳",
+  skipped: "–",
+  failed: "✕",
+};
+
+export const BatchResults = ({ run, running, onRetryFailed, onClose }: BatchResultsProps) => {
+  const counts = countByStatus(run.items);
+  const finished = run.items.length - (counts.pending ?? 0);
+
+  return (
+    <div className="modal-overlay">
+      <div className="schedule-modal">
+        <h2>{describeBatchAction(run.action)}</h2>
+        <p className="queue-hint">
+          {finished}/{run.items.length} finished · {counts.done ?? 0} done
+          {counts.queued ? ` · ${counts.queued} queued` : ""}
+          {counts.skipped ? ` · ${counts.skipped} skipped` : ""}
+          {counts.failed ? ` · ${counts.failed} failed` : ""}
+        </p>
+        <ul className="batch-results">
+          {run.items.map((item) => (
+            <li key={item.deviceId} className={item.status}>
+              <span className="batch-status" title={item.status}>
+                {STATUS_LABELS[item.status]}
+              </span>
+              <strong>{item.deviceName}</strong>
+              {item.note && <small>{item.note}</small>}
+            </li>
+          ))}
+        </ul>
+        <div className="modal-buttons">
+          {(counts.failed ?? 0) > 0 && (
+            <button className="confirm-button" disabled={running} onClick={onRetryFailed}>
+              Retry Failed
+            </button>
+          )}
+          <button className="cancel-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
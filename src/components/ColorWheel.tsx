@@ -0,0 +1,70 @@
+import { PointerEvent, useRef } from "react";
+import { RgbColor } from "../types/types";
+import { hsvToRgb, rgbToHex, rgbToHsv } from "../utils/color";
+
+interface ColorWheelProps {
+  color: RgbColor;
+  size?: number;
+  disabled?: boolean;
+  onChange: (color: RgbColor) => void;
+  onChangeEnd?: () => void;
+}
+
+export const ColorWheel = ({ color, size = 180, disabled, onChange, onChangeEnd }: ColorWheelProps) => {
+  const wheelRef = useRef<HTMLDivElement>(null);
+  const { h, s } = rgbToHsv(color);
+  const radius = size / 2;
+
+  const pickColor = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = wheelRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const dx = event.clientX - rect.left - radius;
+    const dy = event.clientY - rect.top - radius;
+    // Hue runs clockwise from the right-hand edge, matching the conic-gradient below
+    const hue = ((Math.atan2(dy, dx) * 180) / Math.PI + 360) % 360;
+    const saturation = Math.min(Math.hypot(dx, dy) / radius, 1);
+    onChange(hsvToRgb({ h: hue, s: saturation, v: 1 }));
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pickColor(event);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      pickColor(event);
+    }
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+      onChangeEnd?.();
+    }
+  };
+
+  const markerAngle = (h * Math.PI) / 180;
+
+  return (
+    <div
+      ref={wheelRef}
+      className={`color-wheel ${disabled ? "disabled" : ""}`}
+      style={{ width: size, height: size }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      title={rgbToHex(color)}
+    >
+      <span
+        className="color-wheel-marker"
+        style={{
+          left: radius + Math.cos(markerAngle) * s * radius,
+          top: radius + Math.sin(markerAngle) * s * radius,
+          background: rgbToHex(color),
+        }}
+      />
+    </div>
+  );
+};
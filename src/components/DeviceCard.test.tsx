@@ -0,0 +1,54 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { deviceStore } from "../store/deviceStore";
+import { DeviceCard } from "./DeviceCard";
+
+const renderCard = (canControl: boolean, onAssignRoom: jest.Mock) =>
+  render(
+    <DeviceCard
+      deviceId="esp-1"
+      presenceStatus="online"
+      connected
+      canControl={canControl}
+      canRename={false}
+      canDelete={false}
+      queuedCount={0}
+      room="Kitchen"
+      rooms={["Kitchen", "Hall"]}
+      onAssignRoom={onAssignRoom}
+      onShowTelemetry={jest.fn()}
+      onShowHistory={jest.fn()}
+      onDelete={jest.fn()}
+      selected={false}
+      onToggleSelect={jest.fn()}
+      setErrorMessage={jest.fn()}
+      trackCommand={jest.fn()}
+    />
+  );
+
+beforeEach(() => {
+  deviceStore.dispatch({
+    type: "sync",
+    devices: [{ deviceId: "esp-1", name: "Porch", lightOn: false, commandTopic: "esp/esp-1/command" }],
+  });
+});
+
+describe("DeviceCard room picker", () => {
+  it("is read-only for viewers", () => {
+    const onAssignRoom = jest.fn();
+    renderCard(false, onAssignRoom);
+    const input = screen.getByPlaceholderText("Unassigned");
+    expect(input).toBeDisabled();
+    fireEvent.change(input, { target: { value: "Hall" } });
+    fireEvent.blur(input);
+    expect(onAssignRoom).not.toHaveBeenCalled();
+  });
+
+  it("assigns the room on blur for operators", () => {
+    const onAssignRoom = jest.fn();
+    renderCard(true, onAssignRoom);
+    const input = screen.getByPlaceholderText("Unassigned");
+    fireEvent.change(input, { target: { value: "Hall" } });
+    fireEvent.blur(input);
+    expect(onAssignRoom).toHaveBeenCalledWith("esp-1", "Hall");
+  });
+});
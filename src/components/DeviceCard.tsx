@@ -0,0 +1,159 @@
+import { memo } from "react";
+import { CommandState, PresenceStatus } from "../types/types";
+import { hasCapability } from "../capabilities";
+import { useDevice } from "../hooks/useDeviceStore";
+import { useNow } from "../hooks/useNow";
+import { useHasTelemetry } from "../hooks/useTelemetry";
+import { applyRename, CommandContext } from "../utils/deviceCommands";
+import { formatReading } from "../utils/telemetry";
+import { formatAge } from "../utils/time";
+import { DeviceControls } from "./DeviceControls";
+import { DeviceName } from "./DeviceName";
+
+// Props are kept referentially stable so a message for one device doesn't re-render every card
+interface DeviceCardProps extends CommandContext {
+  deviceId: string;
+  commandState?: CommandState;
+  presenceStatus: PresenceStatus;
+  lastSeen?: number;
+  // While the dashboard itself is disconnected, presence can't be trusted and commands get queued
+  connected: boolean;
+  canControl: boolean;
+  canRename: boolean;
+  canDelete: boolean;
+  queuedCount: number;
+  room: string;
+  rooms: string[];
+  onAssignRoom: (deviceId: string, room: string) => void;
+  onShowTelemetry: (deviceId: string) => void;
+  onShowHistory: (deviceId: string) => void;
+  onDelete: (deviceId: string) => void;
+  selected: boolean;
+  // extendRange is set for shift-clicks
+  onToggleSelect: (deviceId: string, extendRange: boolean) => void;
+}
+
+const AGE_TICK_MS = 5000;
+
+// Ticks on its own so the age stays current without re-rendering the card around it
+const SeenAge = ({ lastSeen }: { lastSeen: number }) => {
+  const now = useNow(AGE_TICK_MS);
+  return <>{` · seen ${formatAge(now - lastSeen)}`}</>;
+};
+
+const DeviceCardView = ({
+  deviceId,
+  commandState,
+  presenceStatus,
+  lastSeen,
+  connected,
+  canControl,
+  canRename,
+  canDelete,
+  queuedCount,
+  room,
+  rooms,
+  onAssignRoom,
+  onShowTelemetry,
+  onShowHistory,
+  onDelete,
+  selected,
+  onToggleSelect,
+  ...commandContext
+}: DeviceCardProps) => {
+  const device = useDevice(deviceId);
+  const hasTelemetry = useHasTelemetry(deviceId);
+  if (!device) return null;
+
+  const roomListId = `rooms-${deviceId}`;
+  const isOffline = connected && presenceStatus === "offline";
+
+  return (
+    <div className={`device-card ${isOffline ? "offline" : ""} ${selected ? "selected" : ""}`}>
+      <div className="device-header">
+        <input
+          type="checkbox"
+          className="select-checkbox"
+          aria-label={`Select ${device.name}`}
+          checked={selected}
+          onChange={(e) => onToggleSelect(deviceId, (e.nativeEvent as MouseEvent).shiftKey)}
+        />
+        <DeviceName
+          device={device}
+          editable={canRename}
+          onRename={(name) => applyRename(commandContext, device, name)}
+        />
+        {commandState && (
+          <span
+            className={`command-badge ${commandState.status}`}
+            title={`Command ${commandState.commandId} (attempt ${commandState.attempts})`}
+          >
+            {commandState.status}
+          </span>
+        )}
+        {!commandState && queuedCount > 0 && (
+          <span className="command-badge queued" title={`${queuedCount} command(s) waiting for reconnect`}>
+            queued
+          </span>
+        )}
+        <span
+          className="device-status"
+          title={device.lightOn ? "Light On" : "Light Off"}
+        >
+          {device.lightOn ? "🟢" : "⚪"}
+        </span>
+      </div>
+      <p className="device-id">
+        ID: {device.deviceId}
+        {device.firmwareVersion && ` · fw ${device.firmwareVersion}`}
+      </p>
+      {presenceStatus !== "unknown" && (
+        <p className={`presence-badge ${presenceStatus}`}>
+          <span className="presence-dot" />
+          {presenceStatus}
+          {lastSeen && <SeenAge lastSeen={lastSeen} />}
+        </p>
+      )}
+      <label className="room-picker">
+        <span>Room</span>
+        <input
+          list={roomListId}
+          defaultValue={room}
+          key={room}
+          placeholder="Unassigned"
+          disabled={!canControl}
+          onBlur={(e) => canControl && e.target.value.trim() !== room && onAssignRoom(deviceId, e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+        />
+        <datalist id={roomListId}>
+          {rooms.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </label>
+      {!hasCapability(device, "sensor") && device.readings && Object.keys(device.readings).length > 0 && (
+        <p className="telemetry-summary">
+          {Object.entries(device.readings)
+            .map(([metric, value]) => formatReading(metric, value))
+            .join(" · ")}
+        </p>
+      )}
+      <DeviceControls device={device} disabled={isOffline || !canControl} {...commandContext} />
+      {hasTelemetry && (
+        <button className="telemetry-button" onClick={() => onShowTelemetry(deviceId)}>
+          📈 Telemetry
+        </button>
+      )}
+      <button className="telemetry-button history-button" onClick={() => onShowHistory(deviceId)}>
+        📜 History
+      </button>
+      {canDelete && (
+        <button className="delete-button" onClick={() => onDelete(deviceId)}>
+          Delete Device
+        </button>
+      )}
+    </div>
+  );
+};
+
+export const DeviceCard = memo(DeviceCardView);
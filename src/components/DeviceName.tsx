@@ -0,0 +1,78 @@
+import { KeyboardEvent, useRef, useState } from "react";
+import { EspDevice } from "../types/types";
+import { MAX_NAME_LENGTH, validateDeviceName } from "../utils/deviceCommands";
+import { deviceStore } from "../store/deviceStore";
+
+interface DeviceNameProps {
+  device: EspDevice;
+  editable: boolean;
+  onRename: (name: string) => Promise<boolean>;
+}
+
+export const DeviceName = ({ device, editable, onRename }: DeviceNameProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(device.name);
+  const [error, setError] = useState<string | null>(null);
+  // Enter and the blur that follows it must not submit twice
+  const closedRef = useRef(false);
+
+  const startEditing = () => {
+    setDraft(device.name);
+    setError(null);
+    closedRef.current = false;
+    setIsEditing(true);
+  };
+
+  const close = () => {
+    closedRef.current = true;
+    setIsEditing(false);
+  };
+
+  const save = async () => {
+    if (closedRef.current) return;
+    if (draft.trim() === device.name) {
+      close();
+      return;
+    }
+    const validationError = validateDeviceName(draft, device, deviceStore.getDevices());
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    close();
+    await onRename(draft);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") save();
+    if (event.key === "Escape") close();
+  };
+
+  if (!editable) return <h3 title={device.name}>{device.name}</h3>;
+
+  if (!isEditing) {
+    return (
+      <h3 title={`${device.name} (click to rename)`} onClick={startEditing}>
+        {device.name}
+      </h3>
+    );
+  }
+
+  return (
+    <div className="name-edit">
+      <input
+        className="name-edit-input"
+        value={draft}
+        autoFocus
+        maxLength={MAX_NAME_LENGTH}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setError(null);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={save}
+      />
+      {error && <small className="settings-error">{error}</small>}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import { CommandState, EspDevice } from "../types/types";
+import { hasCapability } from "../capabilities";
+import { DevicePresence } from "../hooks/usePresence";
+import { CommandContext, setLight, setRgb } from "../utils/deviceCommands";
+import { formatAge } from "../utils/time";
+
+interface DeviceTableProps {
+  // Already filtered and sorted
+  devices: EspDevice[];
+  commandStates: Record<string, CommandState>;
+  presenceOf: (deviceId: string) => DevicePresence;
+  roomOf: (device: EspDevice) => string;
+  connected: boolean;
+  canControl: boolean;
+  now: number;
+  commandContext: CommandContext;
+  onShowHistory: (deviceId: string) => void;
+  selected: Set<string>;
+  onToggleSelect: (deviceId: string, extendRange: boolean) => void;
+}
+
+// Compact view with one row per device and the most common toggles
+export const DeviceTable = ({
+  devices,
+  commandStates,
+  presenceOf,
+  roomOf,
+  connected,
+  canControl,
+  now,
+  commandContext,
+  onShowHistory,
+  selected,
+  onToggleSelect,
+}: DeviceTableProps) => (
+  <div className="device-table-wrapper">
+    <table className="device-table">
+      <thead>
+        <tr>
+          <th />
+          <th>Name</th>
+          <th>Room</th>
+          <th>Light</th>
+          <th>RGB</th>
+          <th>Brightness</th>
+          <th>Status</th>
+          <th />
+        </tr>
+      </thead>
+      <tbody>
+        {devices.map((device) => {
+          const presence = presenceOf(device.deviceId);
+          const disabled = !canControl || (connected && presence.status === "offline");
+          const commandState = commandStates[device.deviceId];
+          return (
+            <tr
+              key={device.deviceId}
+              className={`${connected && presence.status === "offline" ? "offline" : ""} ${
+                selected.has(device.deviceId) ? "selected" : ""
+              }`}
+            >
+              <td>
+                <input
+                  type="checkbox"
+                  className="select-checkbox"
+                  aria-label={`Select ${device.name}`}
+                  checked={selected.has(device.deviceId)}
+                  onChange={(e) => onToggleSelect(device.deviceId, (e.nativeEvent as MouseEvent).shiftKey)}
+                />
+              </td>
+              <td>
+                <strong>{device.name}</strong>
+                <small>{device.deviceId}</small>
+              </td>
+              <td>{roomOf(device) || "Unassigned"}</td>
+              <td>
+                {hasCapability(device, "switch") && (
+                  <button
+                    className={`table-toggle ${device.lightOn ? "active" : ""}`}
+                    disabled={disabled}
+                    onClick={() => setLight(commandContext, device, !device.lightOn)}
+                  >
+                    {device.lightOn ? "On" : "Off"}
+                  </button>
+                )}
+              </td>
+              <td>
+                {hasCapability(device, "rgb") && (
+                  <button
+                    className={`table-toggle ${device.rgbMode ? "active" : ""}`}
+                    disabled={disabled}
+                    onClick={() => setRgb(commandContext, device, !device.rgbMode)}
+                  >
+                    {device.rgbMode ? "On" : "Off"}
+                  </button>
+                )}
+              </td>
+              <td>{hasCapability(device, "dimmer") && device.brightness !== undefined ? `${device.brightness}%` : "—"}</td>
+              <td>
+                <span className={`presence-badge ${presence.status}`}>
+                  <span className="presence-dot" />
+                  {presence.status}
+                  {presence.lastSeen && ` · ${formatAge(now - presence.lastSeen)}`}
+                </span>
+                {commandState && <span className={`command-badge ${commandState.status}`}>{commandState.status}</span>}
+              </td>
+              <td>
+                <button className="table-history" title="History" onClick={() => onShowHistory(device.deviceId)}>
+                  📜
+                </button>
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
@@ -0,0 +1,70 @@
+import { DeviceFilter, DeviceLayout, DeviceSort, DeviceView } from "../types/types";
+import { DEFAULT_VIEW, FILTER_LABELS, LAYOUT_LABELS, SORT_LABELS } from "../utils/deviceView";
+
+interface DeviceToolbarProps {
+  view: DeviceView;
+  onChange: (changes: Partial<DeviceView>) => void;
+  shown: number;
+  total: number;
+}
+
+export const DeviceToolbar = ({ view, onChange, shown, total }: DeviceToolbarProps) => {
+  const toggleFilter = (filter: DeviceFilter) =>
+    onChange({
+      filters: view.filters.includes(filter) ? view.filters.filter((f) => f !== filter) : [...view.filters, filter],
+    });
+  const isFiltered = view.query.trim() !== "" || view.filters.length > 0;
+
+  return (
+    <div className="device-toolbar">
+      <input
+        type="search"
+        className="device-search"
+        placeholder="Search name, id or topic"
+        aria-label="Search devices"
+        value={view.query}
+        onChange={(e) => onChange({ query: e.target.value })}
+      />
+      <div className="filter-chips">
+        {(Object.keys(FILTER_LABELS) as DeviceFilter[]).map((filter) => (
+          <button
+            key={filter}
+            className={`filter-chip ${view.filters.includes(filter) ? "active" : ""}`}
+            aria-pressed={view.filters.includes(filter)}
+            onClick={() => toggleFilter(filter)}
+          >
+            {FILTER_LABELS[filter]}
+          </button>
+        ))}
+      </div>
+      <label className="device-sort">
+        <span>Sort</span>
+        <select value={view.sort} onChange={(e) => onChange({ sort: e.target.value as DeviceSort })}>
+          {(Object.keys(SORT_LABELS) as DeviceSort[]).map((sort) => (
+            <option key={sort} value={sort}>
+              {SORT_LABELS[sort]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="layout-toggle">
+        {(Object.keys(LAYOUT_LABELS) as DeviceLayout[]).map((layout) => (
+          <button
+            key={layout}
+            className={view.layout === layout ? "active" : ""}
+            aria-pressed={view.layout === layout}
+            onClick={() => onChange({ layout })}
+          >
+            {LAYOUT_LABELS[layout]}
+          </button>
+        ))}
+      </div>
+      {isFiltered && (
+        <span className="device-count">
+          {shown} of {total}
+          <button onClick={() => onChange({ query: DEFAULT_VIEW.query, filters: DEFAULT_VIEW.filters })}>Clear</button>
+        </span>
+      )}
+    </div>
+  );
+};
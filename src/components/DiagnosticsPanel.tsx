@@ -0,0 +1,47 @@
+import { DiagnosticEntry } from "../types/types";
+import { PROTOCOL_VERSION } from "../api/protocol";
+
+interface DiagnosticsPanelProps {
+  entries: DiagnosticEntry[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+export const DiagnosticsPanel = ({ entries, onClear, onClose }: DiagnosticsPanelProps) => (
+  <div className="modal-overlay">
+    <div className="schedule-modal">
+      <h2>Diagnostics</h2>
+      <p className="queue-hint">
+        Messages that failed validation against protocol v{PROTOCOL_VERSION} and were ignored.
+      </p>
+
+      {entries.length > 0 ? (
+        <ul className="diagnostics-list">
+          {entries.map((entry) => (
+            <li key={entry.id} className="diagnostics-item">
+              <div className="diagnostics-meta">
+                <span className="diagnostics-source">{entry.source}</span>
+                <span>{new Date(entry.receivedAt).toLocaleTimeString()}</span>
+              </div>
+              <strong>{entry.error}</strong>
+              <pre>{entry.raw}</pre>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="sensor-empty">No rejected messages</p>
+      )}
+
+      <div className="modal-buttons">
+        {entries.length > 0 && (
+          <button className="cancel-button" onClick={onClear}>
+            Clear
+          </button>
+        )}
+        <button className="cancel-button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,243 @@
+import { useMemo, useState } from "react";
+import { DeviceOtaState, EspDevice, FirmwareImage, FirmwareRollout, RolloutStatus } from "../types/types";
+import { uploadFirmware } from "../api/api";
+import { errorReason } from "../api/http";
+import { describeStages, STAGE_PRESETS, stageTargets } from "../utils/rollout";
+
+interface FirmwarePanelProps {
+  devices: EspDevice[];
+  rooms: string[];
+  roomOf: (device: EspDevice) => string;
+  rollouts: FirmwareRollout[];
+  isConnected: boolean;
+  startRollout: (firmware: FirmwareImage, deviceIds: string[], stages: number[]) => void;
+  continueRollout: (id: string) => void;
+  retryFailed: (id: string) => void;
+  abortRollout: (id: string) => void;
+  onClose: () => void;
+}
+
+type Target = { kind: "all" } | { kind: "room"; room: string } | { kind: "pick" };
+
+const STATUS_LABELS: Record<RolloutStatus, string> = {
+  running: "Running",
+  awaiting: "Waiting for approval",
+  halted: "Halted after a failure",
+  completed: "Completed",
+  aborted: "Aborted",
+};
+
+const deviceStatusText = (state: DeviceOtaState) => {
+  if (state.status === "failed") return `failed${state.error ? `: ${state.error}` : ""}`;
+  return state.progress !== undefined && state.status !== "done" ? `${state.status} ${state.progress}%` : state.status;
+};
+
+export const FirmwarePanel = ({
+  devices,
+  rooms,
+  roomOf,
+  rollouts,
+  isConnected,
+  startRollout,
+  continueRollout,
+  retryFailed,
+  abortRollout,
+  onClose,
+}: FirmwarePanelProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [version, setVersion] = useState("");
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploaded, setUploaded] = useState<FirmwareImage[]>([]);
+  const [firmwareId, setFirmwareId] = useState("");
+  const [target, setTarget] = useState<Target>({ kind: "all" });
+  const [picked, setPicked] = useState<string[]>([]);
+  const [presetIndex, setPresetIndex] = useState(0);
+
+  // Images uploaded now plus the ones earlier rollouts used
+  const images = useMemo(() => {
+    const byId = new Map<string, FirmwareImage>();
+    [...uploaded, ...rollouts.map((rollout) => rollout.firmware)].forEach((image) => {
+      if (!byId.has(image.id)) byId.set(image.id, image);
+    });
+    return Array.from(byId.values());
+  }, [uploaded, rollouts]);
+  const firmware = images.find((image) => image.id === firmwareId) ?? images[0];
+
+  const targetIds =
+    target.kind === "all"
+      ? devices.map((d) => d.deviceId)
+      : target.kind === "room"
+        ? devices.filter((d) => roomOf(d) === target.room).map((d) => d.deviceId)
+        : picked;
+
+  const handleUpload = async () => {
+    if (!file || !version.trim()) return;
+    setUploadError(null);
+    setUploadProgress(0);
+    try {
+      const image = await uploadFirmware(file, version.trim(), setUploadProgress);
+      setUploaded((prev) => [image, ...prev]);
+      setFirmwareId(image.id);
+      setFile(null);
+      setVersion("");
+    } catch (error) {
+      const reason = errorReason(error);
+      setUploadError(`Upload failed: ${reason}`);
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const nameOf = (deviceId: string) => devices.find((d) => d.deviceId === deviceId)?.name ?? deviceId;
+
+  return (
+    <div className="modal-overlay">
+      <div className="schedule-modal">
+        <h2>Firmware Updates</h2>
+
+        <h3 className="firmware-heading">Upload</h3>
+        <div className="firmware-upload">
+          <input type="file" accept=".bin" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+          <input value={version} placeholder="Version, e.g. 1.4.0" onChange={(e) => setVersion(e.target.value)} />
+          <button
+            className="confirm-button"
+            onClick={handleUpload}
+            disabled={!file || !version.trim() || uploadProgress !== null}
+          >
+            {uploadProgress !== null ? `Uploading ${uploadProgress}%` : "Upload"}
+          </button>
+        </div>
+        {uploadError && <p className="settings-error">{uploadError}</p>}
+
+        <h3 className="firmware-heading">New rollout</h3>
+        {firmware ? (
+          <>
+            <div className="firmware-upload">
+              <select value={firmware.id} onChange={(e) => setFirmwareId(e.target.value)}>
+                {images.map((image) => (
+                  <option key={image.id} value={image.id}>
+                    {image.version} ({Math.round(image.size / 1024)} KB)
+                  </option>
+                ))}
+              </select>
+              <select
+                value={target.kind === "room" ? `room:${target.room}` : target.kind}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setTarget(
+                    value.startsWith("room:") ? { kind: "room", room: value.slice(5) } : { kind: value as "all" | "pick" }
+                  );
+                }}
+              >
+                <option value="all">All devices</option>
+                {rooms.map((room) => (
+                  <option key={room} value={`room:${room}`}>
+                    Room: {room}
+                  </option>
+                ))}
+                <option value="pick">Selected devices</option>
+              </select>
+              <select value={presetIndex} onChange={(e) => setPresetIndex(Number(e.target.value))}>
+                {STAGE_PRESETS.map((preset, index) => (
+                  <option key={preset.label} value={index}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {target.kind === "pick" && (
+              <div className="firmware-picker">
+                {devices.map((device) => (
+                  <label key={device.deviceId}>
+                    <input
+                      type="checkbox"
+                      checked={picked.includes(device.deviceId)}
+                      onChange={(e) =>
+                        setPicked((prev) =>
+                          e.target.checked ? [...prev, device.deviceId] : prev.filter((id) => id !== device.deviceId)
+                        )
+                      }
+                    />
+                    {device.name}
+                    {device.firmwareVersion && <span> · {device.firmwareVersion}</span>}
+                  </label>
+                ))}
+              </div>
+            )}
+            <button
+              className="confirm-button"
+              disabled={!isConnected || targetIds.length === 0}
+              onClick={() => startRollout(firmware, targetIds, STAGE_PRESETS[presetIndex].stages)}
+            >
+              Update {targetIds.length} device{targetIds.length === 1 ? "" : "s"} to {firmware.version}
+            </button>
+          </>
+        ) : (
+          <p className="sensor-empty">Upload a firmware image to start a rollout</p>
+        )}
+
+        <h3 className="firmware-heading">Rollouts</h3>
+        {rollouts.length > 0 ? (
+          <ul className="schedule-list">
+            {rollouts.map((rollout) => (
+              <li key={rollout.id} className={`rollout-item ${rollout.status}`}>
+                <div className="schedule-info">
+                  <strong>
+                    {rollout.firmware.version} · {STATUS_LABELS[rollout.status]}
+                  </strong>
+                  <span>
+                    Stage {rollout.currentStage + 1} of {rollout.stages.length} ({describeStages(rollout.stages)}) ·{" "}
+                    {stageTargets(rollout).length} of {rollout.deviceIds.length} devices · started by{" "}
+                    {rollout.createdBy} {new Date(rollout.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                <ul className="rollout-devices">
+                  {Object.entries(rollout.devices).map(([deviceId, state]) => (
+                    <li key={deviceId} className={`ota-${state.status}`}>
+                      <span>
+                        {nameOf(deviceId)}
+                        {state.fromVersion && ` (${state.fromVersion})`}
+                      </span>
+                      <progress max={100} value={state.status === "done" ? 100 : state.progress ?? 0} />
+                      <span>{deviceStatusText(state)}</span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="schedule-actions">
+                  {rollout.status === "awaiting" && (
+                    <button
+                      className="confirm-button"
+                      onClick={() => continueRollout(rollout.id)}
+                      disabled={!isConnected}
+                    >
+                      Continue to {describeStages([rollout.stages[rollout.currentStage + 1]])}
+                    </button>
+                  )}
+                  {rollout.status === "halted" && (
+                    <button className="confirm-button" onClick={() => retryFailed(rollout.id)} disabled={!isConnected}>
+                      Retry Failed
+                    </button>
+                  )}
+                  {["running", "awaiting", "halted"].includes(rollout.status) && (
+                    <button className="cancel-button" onClick={() => abortRollout(rollout.id)}>
+                      Abort
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="sensor-empty">No rollouts yet</p>
+        )}
+
+        <div className="modal-buttons">
+          <button className="cancel-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import { FormEvent, useState } from "react";
+
+interface LoginScreenProps {
+  onLogin: (username: string, password: string) => Promise<unknown>;
+  onShowSettings: () => void;
+}
+
+export const LoginScreen = ({ onLogin, onShowSettings }: LoginScreenProps) => {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onLogin(username.trim(), password);
+    } catch (loginError) {
+      setError((loginError as Error).message || "Login failed");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form className="login-card" onSubmit={handleSubmit}>
+      <h1>Smart Home Dashboard</h1>
+      <label className="settings-field">
+        <span>Username</span>
+        <input value={username} autoComplete="username" onChange={(e) => setUsername(e.target.value)} />
+      </label>
+      <label className="settings-field">
+        <span>Password</span>
+        <input
+          type="password"
+          value={password}
+          autoComplete="current-password"
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </label>
+      {error && <p className="settings-error">{error}</p>}
+      <button className="confirm-button" type="submit" disabled={isSubmitting || !username.trim() || !password}>
+        {isSubmitting ? "Signing in..." : "Sign In"}
+      </button>
+      <button className="cancel-button" type="button" onClick={onShowSettings}>
+        ⚙ Settings
+      </button>
+    </form>
+  );
+};
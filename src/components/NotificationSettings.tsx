@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { NotificationChannels, NotificationEvent, NotificationPreferences } from "../types/types";
+import { notify } from "../store/notifications";
+import { browserPermission, NOTIFICATION_EVENT_LABELS } from "../utils/notifications";
+
+interface NotificationSettingsProps {
+  preferences: NotificationPreferences;
+  onChange: (preferences: NotificationPreferences) => void;
+  onClose: () => void;
+}
+
+const PERMISSION_HINTS: Record<NotificationPermission | "unsupported", string> = {
+  granted: "Browser notifications are allowed.",
+  default: "Browser notifications are off until you allow them.",
+  denied: "This browser blocks notifications from the dashboard. Allow them in the site settings to use them.",
+  unsupported: "This browser doesn't support notifications.",
+};
+
+export const NotificationSettings = ({ preferences, onChange, onClose }: NotificationSettingsProps) => {
+  const [permission, setPermission] = useState(browserPermission);
+
+  const setChannel = (event: NotificationEvent, channel: keyof NotificationChannels, enabled: boolean) =>
+    onChange({
+      ...preferences,
+      events: { ...preferences.events, [event]: { ...preferences.events[event], [channel]: enabled } },
+    });
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="schedule-modal">
+        <h2>Notifications</h2>
+
+        <p className="queue-hint">{PERMISSION_HINTS[permission]}</p>
+        {permission === "default" && (
+          <div className="modal-buttons notification-permission">
+            <button className="confirm-button" onClick={requestPermission}>
+              Allow Browser Notifications
+            </button>
+          </div>
+        )}
+
+        <table className="notification-table">
+          <thead>
+            <tr>
+              <th>Event</th>
+              <th>Toast</th>
+              <th>Browser</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEvent[]).map((event) => (
+              <tr key={event}>
+                <td>{NOTIFICATION_EVENT_LABELS[event]}</td>
+                <td>
+                  <input
+                    type="checkbox"
+                    aria-label={`${NOTIFICATION_EVENT_LABELS[event]} as toast`}
+                    checked={preferences.events[event].toast}
+                    onChange={(e) => setChannel(event, "toast", e.target.checked)}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="checkbox"
+                    aria-label={`${NOTIFICATION_EVENT_LABELS[event]} as browser notification`}
+                    checked={preferences.events[event].browser}
+                    disabled={permission !== "granted"}
+                    onChange={(e) => setChannel(event, "browser", e.target.checked)}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <label className="settings-field">
+          <span>Alert when a light has been on for more than (hours, 0 = never)</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={preferences.lightOnHours}
+            onChange={(e) => onChange({ ...preferences, lightOnHours: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </label>
+
+        <div className="modal-buttons">
+          <button
+            className="cancel-button"
+            onClick={() => notify({ event: "system", message: "This is a test notification" })}
+          >
+            Send Test
+          </button>
+          <button className="confirm-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { DeviceRegistration, EspDevice } from "../types/types";
+import { provisionDevice } from "../api/api";
+import { errorReason } from "../api/http";
+import { getTransport } from "../api/transport";
+import { getConfig } from "../config/config";
+import { useDevice } from "../hooks/useDeviceStore";
+import { DevicePresence } from "../hooks/usePresence";
+import { deviceStore } from "../store/deviceStore";
+import { downloadFile } from "../utils/audit";
+import { applyRename, CommandContext, MAX_NAME_LENGTH, validateDeviceName } from "../utils/deviceCommands";
+import { createRegistration, deviceConfigSnippet } from "../utils/provisioning";
+import { QrCode } from "./QrCode";
+
+interface ProvisionWizardProps {
+  // Auto-discovered devices that can be claimed instead of provisioning a new one
+  unclaimed: EspDevice[];
+  rooms: string[];
+  onAssignRoom: (deviceId: string, room: string) => void;
+  setErrorMessage: CommandContext["setErrorMessage"];
+  presenceOf: (deviceId: string) => DevicePresence;
+  onClose: () => void;
+}
+
+type Mode = "new" | "claim";
+type Step = "details" | "flash" | "done";
+
+// Shown while waiting when the device has not spoken up for this long
+const SLOW_HINT_MS = 120000;
+
+export const ProvisionWizard = ({
+  unclaimed,
+  rooms,
+  onAssignRoom,
+  setErrorMessage,
+  presenceOf,
+  onClose,
+}: ProvisionWizardProps) => {
+  const [step, setStep] = useState<Step>("details");
+  const [mode, setMode] = useState<Mode>("new");
+  const [name, setName] = useState("");
+  const [room, setRoom] = useState("");
+  const [wifiSsid, setWifiSsid] = useState("");
+  const [wifiPassword, setWifiPassword] = useState("");
+  const [claimId, setClaimId] = useState(unclaimed[0]?.deviceId ?? "");
+  const [registration, setRegistration] = useState<DeviceRegistration | null>(null);
+  const [isWaitingLong, setIsWaitingLong] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [flashStartedAt, setFlashStartedAt] = useState(0);
+
+  const targetId = mode === "claim" ? claimId : registration?.deviceId ?? "";
+  const arrived = useDevice(targetId);
+  // A resync can list a registered device that never connected, so only a report from the device itself counts
+  const { status, lastSeen } = presenceOf(targetId);
+  const online = status !== "offline" && lastSeen !== undefined && lastSeen >= flashStartedAt;
+
+  // The first message from the new device finishes the wizard
+  useEffect(() => {
+    if (step !== "flash" || !online || !arrived || !registration) return;
+    setStep("done");
+    if (arrived.name !== registration.name) {
+      applyRename({ setErrorMessage }, arrived, registration.name);
+    }
+  }, [step, online, arrived, registration, setErrorMessage]);
+
+  useEffect(() => {
+    if (step !== "flash") return;
+    setIsWaitingLong(false);
+    const timer = setTimeout(() => setIsWaitingLong(true), SLOW_HINT_MS);
+    return () => clearTimeout(timer);
+  }, [step]);
+
+  const submitDetails = async () => {
+    const validationError = validateDeviceName(name, { deviceId: targetId }, deviceStore.getDevices());
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError(null);
+    setIsSubmitting(true);
+
+    if (mode === "claim") {
+      const device = deviceStore.getDevice(claimId);
+      if (device && (await applyRename({ setErrorMessage }, device, name))) {
+        if (room.trim()) onAssignRoom(claimId, room);
+        setStep("done");
+      }
+      setIsSubmitting(false);
+      return;
+    }
+
+    const next = createRegistration(name);
+    try {
+      await provisionDevice(next);
+      if (room.trim()) onAssignRoom(next.deviceId, room);
+      setRegistration(next);
+      setFlashStartedAt(Date.now());
+      setStep("flash");
+    } catch (provisionError) {
+      const reason = errorReason(provisionError);
+      setError(`Could not register the device: ${reason}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const restart = () => {
+    setStep("details");
+    setMode("new");
+    setClaimId(unclaimed[0]?.deviceId ?? "");
+    setName("");
+    setCopied(false);
+    setRegistration(null);
+    setError(null);
+  };
+
+  const snippet = registration ? deviceConfigSnippet(registration, { ssid: wifiSsid, password: wifiPassword }) : "";
+
+  const copySnippet = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+    } catch {
+      setError("Copy failed; select the text and copy it manually");
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="schedule-modal">
+        <h2>Add Device</h2>
+
+        {step === "details" && (
+          <>
+            <div className="provision-modes">
+              <button className={mode === "new" ? "active" : ""} onClick={() => setMode("new")}>
+                New device
+              </button>
+              <button
+                className={mode === "claim" ? "active" : ""}
+                onClick={() => setMode("claim")}
+                disabled={unclaimed.length === 0}
+              >
+                Claim discovered ({unclaimed.length})
+              </button>
+            </div>
+
+            {mode === "claim" && (
+              <label className="settings-field">
+                <span>Discovered device</span>
+                <select value={claimId} onChange={(e) => setClaimId(e.target.value)}>
+                  {unclaimed.map((device) => (
+                    <option key={device.deviceId} value={device.deviceId}>
+                      {device.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            <label className={`settings-field ${error ? "invalid" : ""}`}>
+              <span>Name</span>
+              <input value={name} maxLength={MAX_NAME_LENGTH} onChange={(e) => setName(e.target.value)} />
+            </label>
+            <label className="settings-field">
+              <span>Room (optional)</span>
+              <input value={room} list="provision-rooms" onChange={(e) => setRoom(e.target.value)} />
+              <datalist id="provision-rooms">
+                {rooms.map((r) => (
+                  <option key={r} value={r} />
+                ))}
+              </datalist>
+            </label>
+
+            {mode === "new" && (
+              <>
+                <label className="settings-field">
+                  <span>Wi-Fi network (optional, only written into the device config)</span>
+                  <input value={wifiSsid} onChange={(e) => setWifiSsid(e.target.value)} />
+                </label>
+                {wifiSsid && (
+                  <label className="settings-field">
+                    <span>Wi-Fi password</span>
+                    <input type="password" value={wifiPassword} onChange={(e) => setWifiPassword(e.target.value)} />
+                  </label>
+                )}
+              </>
+            )}
+
+            {error && <p className="settings-error">{error}</p>}
+          </>
+        )}
+
+        {step === "flash" && registration && (
+          <>
+            <p className="queue-hint">
+              Flash this config onto the device or scan the code with the setup app, then power it on.
+              {getTransport().kind === "broker" &&
+                ` Add user ${registration.username} with this password to the broker at ${
+                  getConfig().deviceBrokerUrl
+                } first.`}
+            </p>
+            <div className="provision-config">
+              <QrCode value={snippet} />
+              <pre>{snippet}</pre>
+            </div>
+            {error && <p className="settings-error">{error}</p>}
+            <p className="provision-waiting">
+              <span className="dot disconnected"></span>
+              {isWaitingLong
+                ? "Still no message from the device. Check its Wi-Fi and broker settings."
+                : `Waiting for ${registration.name} to connect…`}
+            </p>
+          </>
+        )}
+
+        {step === "done" && arrived && (
+          <p className="provision-waiting">
+            <span className="dot connected"></span>
+            {arrived.name} is online{room.trim() ? ` in ${room.trim()}` : ""}.
+          </p>
+        )}
+
+        <div className="modal-buttons">
+          {step === "details" && (
+            <button
+              className="confirm-button"
+              onClick={submitDetails}
+              disabled={isSubmitting || !name.trim() || (mode === "claim" && !claimId)}
+            >
+              {mode === "claim" ? "Claim" : isSubmitting ? "Registering..." : "Next"}
+            </button>
+          )}
+          {step === "flash" && (
+            <>
+              <button className="confirm-button" onClick={copySnippet}>
+                {copied ? "Copied" : "Copy Config"}
+              </button>
+              <button
+                className="cancel-button"
+                onClick={() => downloadFile(`${registration?.deviceId}.json`, snippet, "application/json")}
+              >
+                Download
+              </button>
+            </>
+          )}
+          {step === "done" && (
+            <button className="confirm-button" onClick={restart}>
+              Add Another
+            </button>
+          )}
+          <button className="cancel-button" onClick={onClose}>
+            {step === "done" ? "Done" : "Cancel"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
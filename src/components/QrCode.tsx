@@ -0,0 +1,41 @@
+import { useMemo } from "react";
+import { encodeQr } from "../utils/qrcode";
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+// Quiet zone required around the symbol, in modules
+const MARGIN = 4;
+
+export const QrCode = ({ value, size = 240 }: QrCodeProps) => {
+  const path = useMemo(() => {
+    try {
+      const modules = encodeQr(value);
+      const commands = modules.flatMap((row, y) =>
+        row.flatMap((dark, x) => (dark ? [`M${x + MARGIN} ${y + MARGIN}h1v1h-1z`] : []))
+      );
+      return { d: commands.join(""), extent: modules.length + MARGIN * 2 };
+    } catch {
+      return null;
+    }
+  }, [value]);
+
+  if (!path) return <p className="settings-error">Too much data for a QR code; copy the config instead.</p>;
+
+  return (
+    <svg
+      className="qr-code"
+      width={size}
+      height={size}
+      viewBox={`0 0 ${path.extent} ${path.extent}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="Device configuration QR code"
+    >
+      <rect width={path.extent} height={path.extent} fill="#fff" />
+      <path d={path.d} fill="#000" />
+    </svg>
+  );
+};
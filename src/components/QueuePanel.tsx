@@ -0,0 +1,80 @@
+import { QueuedCommand } from "../types/types";
+import { formatAge } from "../utils/time";
+
+interface QueuePanelProps {
+  queue: QueuedCommand[];
+  isConnected: boolean;
+  replaying: boolean;
+  now: number;
+  onCancel: (id: string) => void;
+  onRetry: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+export const QueuePanel = ({
+  queue,
+  isConnected,
+  replaying,
+  now,
+  onCancel,
+  onRetry,
+  onClear,
+  onClose,
+}: QueuePanelProps) => {
+  const stalled = queue.some((command) => command.lastError);
+
+  return (
+    <div className="modal-overlay">
+      <div className="schedule-modal">
+        <h2>Queued Commands</h2>
+        <p className="queue-hint">
+          {replaying
+            ? "Replaying queued commands…"
+            : isConnected
+              ? "Connected. Commands are sent immediately."
+              : "Offline. Commands will be sent in this order once the connection is back."}
+        </p>
+
+        {queue.length > 0 ? (
+          <ul className="schedule-list">
+            {queue.map((command) => (
+              <li key={command.id} className={`schedule-item ${command.lastError ? "queue-failed" : ""}`}>
+                <div className="schedule-info">
+                  <strong>
+                    {command.deviceName}: {command.label}
+                  </strong>
+                  <span>Queued {formatAge(now - command.enqueuedAt)}</span>
+                  {command.lastError && <span className="queue-error">{command.lastError}</span>}
+                </div>
+                <div className="schedule-actions">
+                  <button className="cancel-button" onClick={() => onCancel(command.id)} disabled={replaying}>
+                    Cancel
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="sensor-empty">Nothing queued</p>
+        )}
+
+        <div className="modal-buttons">
+          {stalled && (
+            <button className="confirm-button" onClick={onRetry} disabled={!isConnected || replaying}>
+              Retry
+            </button>
+          )}
+          {queue.length > 0 && (
+            <button className="cancel-button" onClick={onClear} disabled={replaying}>
+              Discard All
+            </button>
+          )}
+          <button className="cancel-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
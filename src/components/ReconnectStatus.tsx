@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+
+interface ReconnectStatusProps {
+  reconnectAttempts: number;
+  maxReconnectAttempts: number;
+  nextRetryAt: number | null;
+  onReconnectNow: () => void;
+}
+
+export const ReconnectStatus = ({
+  reconnectAttempts,
+  maxReconnectAttempts,
+  nextRetryAt,
+  onReconnectNow,
+}: ReconnectStatusProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (nextRetryAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [nextRetryAt]);
+
+  const secondsLeft = nextRetryAt === null ? null : Math.max(0, Math.ceil((nextRetryAt - now) / 1000));
+
+  return (
+    <>
+      {reconnectAttempts > 0 && (
+        <span className="attempts">
+          (Attempt {reconnectAttempts}
+          {maxReconnectAttempts > 0 && `/${maxReconnectAttempts}`}
+          {secondsLeft !== null && `, retrying in ${secondsLeft}s`})
+        </span>
+      )}
+      <button className="settings-button" onClick={onReconnectNow}>
+        ↻ Reconnect now
+      </button>
+    </>
+  );
+};
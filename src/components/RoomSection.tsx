@@ -0,0 +1,82 @@
+import { ReactNode, useState } from "react";
+import { EspDevice } from "../types/types";
+import { hasCapability } from "../capabilities";
+import { CommandContext, setLight, setRgb } from "../utils/deviceCommands";
+
+interface RoomSectionProps {
+  room: string;
+  devices: EspDevice[];
+  collapsed: boolean;
+  onToggleCollapsed: () => void;
+  commandContext: CommandContext;
+  // Viewers see the summary but not the group actions
+  readOnly: boolean;
+  isOffline: (deviceId: string) => boolean;
+  children: ReactNode;
+}
+
+export const RoomSection = ({
+  room,
+  devices,
+  collapsed,
+  onToggleCollapsed,
+  commandContext,
+  readOnly,
+  isOffline,
+  children,
+}: RoomSectionProps) => {
+  const [isBusy, setIsBusy] = useState(false);
+  const groupContext: CommandContext = { ...commandContext, source: "room" };
+  const lightsOn = devices.filter((d) => d.lightOn).length;
+  const rgbDevices = devices.filter((d) => hasCapability(d, "rgb"));
+  const rgbOn = rgbDevices.filter((d) => d.rgbMode).length;
+
+  // Offline members are skipped; their controls are disabled too
+  const fanOut = async (action: (device: EspDevice) => Promise<unknown>, members: EspDevice[]) => {
+    setIsBusy(true);
+    await Promise.all(members.filter((d) => !isOffline(d.deviceId)).map(action));
+    setIsBusy(false);
+  };
+
+  const switchMembers = devices.filter((d) => hasCapability(d, "switch"));
+
+  return (
+    <div className={`room-section ${collapsed ? "collapsed" : ""}`}>
+      <div className="room-header">
+        <button className="room-title" onClick={onToggleCollapsed} aria-expanded={!collapsed}>
+          <span className="room-chevron">{collapsed ? "▸" : "▾"}</span>
+          {room || "Unassigned"}
+        </button>
+        <span className="room-summary">
+          {lightsOn}/{devices.length} on
+          {rgbDevices.length > 0 && ` · ${rgbOn}/${rgbDevices.length} RGB`}
+        </span>
+        {!readOnly && (
+          <div className="room-actions">
+            <button
+              disabled={isBusy}
+              onClick={() => fanOut((d) => setLight(groupContext, d, true), switchMembers)}
+            >
+              All On
+            </button>
+            <button
+              disabled={isBusy}
+              onClick={() => fanOut((d) => setLight(groupContext, d, false), switchMembers)}
+            >
+              All Off
+            </button>
+            {rgbDevices.length > 0 && (
+              <button
+                disabled={isBusy}
+                onClick={() => fanOut((d) => setRgb(groupContext, d, true), rgbDevices)}
+              >
+                All RGB
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {!collapsed && <div className="devices-grid">{children}</div>}
+    </div>
+  );
+};
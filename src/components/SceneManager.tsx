@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { EspDevice, Scene, SceneResultStatus, SceneTarget } from "../types/types";
+import { SceneApplyResult } from "../hooks/useScenes";
+import { captureTarget } from "../utils/scene";
+
+interface SceneManagerProps {
+  devices: EspDevice[];
+  scenes: Scene[];
+  applyResult: SceneApplyResult | null;
+  captureScene: (name: string, deviceIds?: string[]) => void;
+  updateScene: (id: string, changes: { name?: string; targets?: SceneTarget[] }) => void;
+  removeScene: (id: string) => void;
+  applyScene: (scene: Scene) => void;
+  clearApplyResult: () => void;
+  onClose: () => void;
+}
+
+const RESULT_LABELS: Record<SceneResultStatus, string> = {
+  pending: "⏳ Waiting",
+  reached: "✅ Reached",
+  failed: "❌ Not reached",
+  unchanged: "➖ Already there",
+  missing: "⚠️ Unknown device",
+  queued: "📥 Queued until reconnect",
+  superseded: "↪ Replaced by a newer command",
+};
+
+type BoolChoice = "keep" | "on" | "off";
+
+const toChoice = (value: boolean | undefined): BoolChoice =>
+  value === undefined ? "keep" : value ? "on" : "off";
+
+const fromChoice = (choice: BoolChoice): boolean | undefined =>
+  choice === "keep" ? undefined : choice === "on";
+
+export const SceneManager = ({
+  devices,
+  scenes,
+  applyResult,
+  captureScene,
+  updateScene,
+  removeScene,
+  applyScene,
+  clearApplyResult,
+  onClose,
+}: SceneManagerProps) => {
+  const [newName, setNewName] = useState("");
+  const [editing, setEditing] = useState<Scene | null>(null);
+
+  const deviceName = (id: string) => devices.find((d) => d.deviceId === id)?.name ?? id;
+
+  const handleCapture = () => {
+    if (!newName.trim()) return;
+    captureScene(newName.trim());
+    setNewName("");
+  };
+
+  const updateTarget = (deviceId: string, changes: Partial<SceneTarget> | null) => {
+    if (!editing) return;
+    const others = editing.targets.filter((t) => t.deviceId !== deviceId);
+    const existing = editing.targets.find((t) => t.deviceId === deviceId) ?? { deviceId };
+    const targets = changes === null ? others : [...others, { ...existing, ...changes }];
+    setEditing({ ...editing, targets });
+  };
+
+  const saveEditing = () => {
+    if (!editing) return;
+    updateScene(editing.id, { name: editing.name, targets: editing.targets });
+    setEditing(null);
+  };
+
+  const appliedScene = applyResult && scenes.find((scene) => scene.id === applyResult.sceneId);
+
+  return (
+    <div className="modal-overlay">
+      <div className="schedule-modal">
+        <h2>Scenes</h2>
+
+        {appliedScene && applyResult && (
+          <div className="scene-result">
+            <h3>Applying "{appliedScene.name}"</h3>
+            <ul>
+              {Object.entries(applyResult.statuses).map(([deviceId, status]) => (
+                <li key={deviceId} className={`scene-result-item ${status}`}>
+                  <span>{deviceName(deviceId)}</span>
+                  <span>{RESULT_LABELS[status]}</span>
+                </li>
+              ))}
+            </ul>
+            <button className="cancel-button" onClick={clearApplyResult}>
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {editing ? (
+          <div className="scene-editor">
+            <label className="settings-field">
+              <span>Scene name</span>
+              <input value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} />
+            </label>
+            <table className="scene-table">
+              <thead>
+                <tr>
+                  <th>Device</th>
+                  <th>Light</th>
+                  <th>RGB</th>
+                  <th>Brightness</th>
+                </tr>
+              </thead>
+              <tbody>
+                {devices.map((device) => {
+                  const target = editing.targets.find((t) => t.deviceId === device.deviceId);
+                  return (
+                    <tr key={device.deviceId} className={target ? "" : "excluded"}>
+                      <td>
+                        <label className="checkbox-field">
+                          <input
+                            type="checkbox"
+                            checked={!!target}
+                            onChange={(e) =>
+                              updateTarget(device.deviceId, e.target.checked ? captureTarget(device) : null)
+                            }
+                          />
+                          <span>{device.name}</span>
+                        </label>
+                      </td>
+                      <td>
+                        <select
+                          disabled={!target}
+                          value={toChoice(target?.lightOn)}
+                          onChange={(e) =>
+                            updateTarget(device.deviceId, { lightOn: fromChoice(e.target.value as BoolChoice) })
+                          }
+                        >
+                          <option value="keep">Keep</option>
+                          <option value="on">On</option>
+                          <option value="off">Off</option>
+                        </select>
+                      </td>
+                      <td>
+                        <select
+                          disabled={!target}
+                          value={toChoice(target?.rgbMode)}
+                          onChange={(e) =>
+                            updateTarget(device.deviceId, { rgbMode: fromChoice(e.target.value as BoolChoice) })
+                          }
+                        >
+                          <option value="keep">Keep</option>
+                          <option value="on">On</option>
+                          <option value="off">Off</option>
+                        </select>
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          placeholder="Keep"
+                          disabled={!target}
+                          value={target?.brightness ?? ""}
+                          onChange={(e) =>
+                            updateTarget(device.deviceId, {
+                              brightness: e.target.value === "" ? undefined : Math.min(100, Math.max(0, Number(e.target.value))),
+                            })
+                          }
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div className="modal-buttons">
+              <button className="confirm-button" onClick={saveEditing}>
+                Save Scene
+              </button>
+              <button className="cancel-button" onClick={() => setEditing(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {scenes.length > 0 ? (
+              <ul className="schedule-list">
+                {scenes.map((scene) => (
+                  <li key={scene.id} className="schedule-item">
+                    <div className="schedule-info">
+                      <strong>{scene.name}</strong>
+                      <span>{scene.targets.map((t) => deviceName(t.deviceId)).join(", ") || "No devices"}</span>
+                    </div>
+                    <div className="schedule-actions">
+                      <button className="confirm-button" onClick={() => applyScene(scene)}>
+                        Apply
+                      </button>
+                      <button className="cancel-button" onClick={() => setEditing(scene)}>
+                        Edit
+                      </button>
+                      <button className="cancel-button" onClick={() => removeScene(scene.id)}>
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="sensor-empty">No scenes yet</p>
+            )}
+
+            <h3>Capture current state</h3>
+            <div className="scene-capture">
+              <input
+                className="scene-name-input"
+                value={newName}
+                placeholder="Movie night"
+                onChange={(e) => setNewName(e.target.value)}
+              />
+              <button className="confirm-button" onClick={handleCapture} disabled={devices.length === 0}>
+                Capture
+              </button>
+            </div>
+
+            <div className="modal-buttons">
+              <button className="cancel-button" onClick={onClose}>
+                Close
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
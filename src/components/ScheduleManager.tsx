@@ -0,0 +1,199 @@
+import { FormEvent, useMemo, useState } from "react";
+import { EspDevice, Schedule, ScheduleAction, ScheduleRule } from "../types/types";
+import { NewSchedule } from "../hooks/useSchedules";
+import { ACTION_LABELS, describeRule, nextOccurrence, validateRule, WEEKDAYS } from "../utils/schedule";
+
+interface ScheduleManagerProps {
+  devices: EspDevice[];
+  schedules: Schedule[];
+  addSchedule: (schedule: NewSchedule) => void;
+  updateSchedule: (id: string, changes: Partial<Schedule>) => void;
+  removeSchedule: (id: string) => void;
+  onClose: () => void;
+}
+
+const WORKDAYS = [1, 2, 3, 4, 5];
+
+export const ScheduleManager = ({
+  devices,
+  schedules,
+  addSchedule,
+  updateSchedule,
+  removeSchedule,
+  onClose,
+}: ScheduleManagerProps) => {
+  const [name, setName] = useState("");
+  const [deviceId, setDeviceId] = useState(devices[0]?.deviceId ?? "");
+  const [action, setAction] = useState<ScheduleAction>("on");
+  const [ruleKind, setRuleKind] = useState<ScheduleRule["kind"]>("weekly");
+  const [days, setDays] = useState<number[]>(WORKDAYS);
+  const [time, setTime] = useState("18:30");
+  const [expression, setExpression] = useState("0 0 * * *");
+  const [catchUp, setCatchUp] = useState(true);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const toggleDay = (day: number) => {
+    setDays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort()));
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const device = devices.find((d) => d.deviceId === deviceId);
+    if (!device) {
+      setFormError("Pick a device");
+      return;
+    }
+
+    const rule: ScheduleRule =
+      ruleKind === "weekly" ? { kind: "weekly", days, time } : { kind: "cron", expression: expression.trim() };
+    const ruleError = validateRule(rule);
+    if (ruleError) {
+      setFormError(ruleError);
+      return;
+    }
+
+    addSchedule({
+      name: name.trim() || `${device.name} ${ACTION_LABELS[action].toLowerCase()}`,
+      deviceId,
+      commandTopic: device.commandTopic,
+      action,
+      rule,
+      enabled: true,
+      catchUp,
+    });
+    setName("");
+    setFormError(null);
+  };
+
+  const deviceName = (id: string) => devices.find((d) => d.deviceId === id)?.name ?? id;
+
+  // Finding the next run can scan a whole year, too slow to repeat on every device message
+  const nextRuns = useMemo(
+    () =>
+      new Map(
+        schedules.map((schedule) => [schedule.id, schedule.enabled ? nextOccurrence(schedule.rule) : null])
+      ),
+    [schedules]
+  );
+
+  return (
+    <div className="modal-overlay">
+      <div className="schedule-modal">
+        <h2>Schedules</h2>
+
+        {schedules.length > 0 ? (
+          <ul className="schedule-list">
+            {schedules.map((schedule) => {
+              const next = nextRuns.get(schedule.id);
+              return (
+                <li key={schedule.id} className={`schedule-item ${schedule.enabled ? "" : "disabled"}`}>
+                  <div className="schedule-info">
+                    <strong>{schedule.name}</strong>
+                    <span>
+                      {ACTION_LABELS[schedule.action]} · {deviceName(schedule.deviceId)} · {describeRule(schedule.rule)}
+                    </span>
+                    <small>
+                      {next ? `Next: ${new Date(next).toLocaleString()}` : "Not scheduled"}
+                      {schedule.lastRunAt && ` · Last: ${new Date(schedule.lastRunAt).toLocaleString()}`}
+                    </small>
+                    {schedule.lastError && <small className="settings-error">{schedule.lastError}</small>}
+                  </div>
+                  <div className="schedule-actions">
+                    <button
+                      className="cancel-button"
+                      onClick={() => updateSchedule(schedule.id, { enabled: !schedule.enabled })}
+                    >
+                      {schedule.enabled ? "Disable" : "Enable"}
+                    </button>
+                    <button className="confirm-button" onClick={() => removeSchedule(schedule.id)}>
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="sensor-empty">No schedules yet</p>
+        )}
+
+        <form className="schedule-form" onSubmit={handleSubmit}>
+          <h3>New schedule</h3>
+          <label className="settings-field">
+            <span>Name</span>
+            <input value={name} placeholder="Hallway evening" onChange={(e) => setName(e.target.value)} />
+          </label>
+          <label className="settings-field">
+            <span>Device</span>
+            <select value={deviceId} onChange={(e) => setDeviceId(e.target.value)}>
+              {devices.map((device) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="settings-field">
+            <span>Action</span>
+            <select value={action} onChange={(e) => setAction(e.target.value as ScheduleAction)}>
+              {(Object.keys(ACTION_LABELS) as ScheduleAction[]).map((key) => (
+                <option key={key} value={key}>
+                  {ACTION_LABELS[key]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="settings-field">
+            <span>Repeat</span>
+            <select value={ruleKind} onChange={(e) => setRuleKind(e.target.value as ScheduleRule["kind"])}>
+              <option value="weekly">Weekdays and time</option>
+              <option value="cron">Cron expression</option>
+            </select>
+          </label>
+
+          {ruleKind === "weekly" ? (
+            <>
+              <div className="weekday-picker">
+                {WEEKDAYS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    className={days.includes(day) ? "active" : ""}
+                    onClick={() => toggleDay(day)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <label className="settings-field">
+                <span>Time</span>
+                <input type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+              </label>
+            </>
+          ) : (
+            <label className="settings-field">
+              <span>Cron (minute hour day month weekday)</span>
+              <input value={expression} onChange={(e) => setExpression(e.target.value)} />
+            </label>
+          )}
+
+          <label className="checkbox-field">
+            <input type="checkbox" checked={catchUp} onChange={(e) => setCatchUp(e.target.checked)} />
+            <span>Run the latest missed occurrence when the dashboard reopens</span>
+          </label>
+
+          {formError && <p className="settings-error">{formError}</p>}
+
+          <div className="modal-buttons">
+            <button type="submit" className="confirm-button" disabled={devices.length === 0}>
+              Add Schedule
+            </button>
+            <button type="button" className="cancel-button" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import {
+  AppConfig,
+  ConfigErrors,
+  clearOverrides,
+  getBaseConfig,
+  getConfig,
+  saveOverrides,
+  validateConfig,
+} from "../config/config";
+import { probeEndpoints } from "../api/api";
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+type NumberField =
+  | "commandTimeoutMs"
+  | "commandRetries"
+  | "reconnectBaseMs"
+  | "reconnectMaxMs"
+  | "reconnectMaxAttempts"
+  | "presenceStaleMs"
+  | "presenceOfflineMs"
+  | "deleteGraceMs"
+  | "latitude"
+  | "longitude";
+type TextField = Exclude<keyof AppConfig, "transport" | NumberField>;
+
+const FIELD_LABELS: Record<TextField, string> = {
+  apiBaseUrl: "Backend API URL",
+  wsUrl: "Backend WebSocket URL",
+  brokerUrl: "MQTT broker URL",
+  brokerUsername: "Broker username",
+  brokerPassword: "Broker password",
+  stateTopic: "State topic filter",
+  commandTopicTemplate: "Command topic template",
+  authUrl: "Auth service URL (empty = no login)",
+  deviceBrokerUrl: "Broker URL for new devices",
+};
+
+const NUMBER_LABELS: Record<NumberField, string> = {
+  commandTimeoutMs: "Command timeout (ms)",
+  commandRetries: "Command retries",
+  reconnectBaseMs: "Reconnect base delay (ms)",
+  reconnectMaxMs: "Reconnect max delay (ms)",
+  reconnectMaxAttempts: "Reconnect attempts (0 = unlimited)",
+  presenceStaleMs: "Device stale after (ms)",
+  presenceOfflineMs: "Device offline after (ms)",
+  deleteGraceMs: "Keep deleted devices in trash for (ms)",
+  latitude: "Latitude for sunrise/sunset (optional)",
+  longitude: "Longitude for sunrise/sunset (optional)",
+};
+
+// Coordinates can be negative and fractional
+const SIGNED_FIELDS: NumberField[] = ["latitude", "longitude"];
+
+const BRIDGE_FIELDS: TextField[] = ["apiBaseUrl", "wsUrl", "authUrl", "deviceBrokerUrl"];
+const BROKER_FIELDS: TextField[] = [
+  "brokerUrl",
+  "brokerUsername",
+  "brokerPassword",
+  "stateTopic",
+  "commandTopicTemplate",
+  "authUrl",
+  "deviceBrokerUrl",
+];
+
+export const SettingsPanel = ({ onClose }: SettingsPanelProps) => {
+  const [draft, setDraft] = useState<AppConfig>(getConfig());
+  const [errors, setErrors] = useState<ConfigErrors>({});
+  const [status, setStatus] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const fields = draft.transport === "broker" ? BROKER_FIELDS : BRIDGE_FIELDS;
+
+  const updateField = (field: keyof AppConfig, value: string | number) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+    setStatus(null);
+  };
+
+  const handleTest = async () => {
+    const validationErrors = validateConfig(draft);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      setStatus("Fix the highlighted fields first");
+      return;
+    }
+
+    setIsTesting(true);
+    setStatus("Testing connection...");
+    const probeErrors = await probeEndpoints(draft);
+    setIsTesting(false);
+    setErrors(probeErrors);
+    setStatus(Object.keys(probeErrors).length > 0 ? "Some endpoints are unreachable" : "All endpoints reachable");
+  };
+
+  const handleSave = () => {
+    const validationErrors = validateConfig(draft);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      setStatus("Fix the highlighted fields first");
+      return;
+    }
+
+    // Only keep values that differ from the deployment config, so config.json changes still apply;
+    // Object.is because unset coordinates are NaN, which never equals itself
+    const base = getBaseConfig();
+    const overrides = (Object.keys(draft) as (keyof AppConfig)[]).reduce<Partial<AppConfig>>(
+      (acc, key) => (Object.is(draft[key], base[key]) ? acc : { ...acc, [key]: draft[key] }),
+      {}
+    );
+    saveOverrides(overrides);
+    window.location.reload();
+  };
+
+  const handleReset = () => {
+    clearOverrides();
+    window.location.reload();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="settings-modal">
+        <h2>Connection Settings</h2>
+
+        <label className="settings-field">
+          <span>Transport</span>
+          <select
+            value={draft.transport}
+            onChange={(e) => updateField("transport", e.target.value)}
+          >
+            <option value="bridge">Backend bridge</option>
+            <option value="broker">Direct broker</option>
+          </select>
+        </label>
+
+        {fields.map((field) => (
+          <label key={field} className={`settings-field ${errors[field] ? "invalid" : ""}`}>
+            <span>{FIELD_LABELS[field]}</span>
+            <input
+              type={field === "brokerPassword" ? "password" : "text"}
+              value={draft[field] ?? ""}
+              onChange={(e) => updateField(field, e.target.value)}
+            />
+            {errors[field] && <small className="settings-error">{errors[field]}</small>}
+          </label>
+        ))}
+
+        {(Object.keys(NUMBER_LABELS) as NumberField[]).map((field) => (
+          <label key={field} className={`settings-field ${errors[field] ? "invalid" : ""}`}>
+            <span>{NUMBER_LABELS[field]}</span>
+            <input
+              type="number"
+              min={SIGNED_FIELDS.includes(field) ? undefined : 0}
+              step={SIGNED_FIELDS.includes(field) ? "any" : undefined}
+              value={Number.isNaN(draft[field]) ? "" : draft[field]}
+              onChange={(e) => updateField(field, e.target.valueAsNumber)}
+            />
+            {errors[field] && <small className="settings-error">{errors[field]}</small>}
+          </label>
+        ))}
+
+        {status && <p className="settings-status">{status}</p>}
+
+        <div className="modal-buttons">
+          <button className="confirm-button" onClick={handleSave}>
+            Save & Reload
+          </button>
+          <button className="cancel-button" onClick={handleTest} disabled={isTesting}>
+            Test
+          </button>
+          <button className="cancel-button" onClick={handleReset}>
+            Reset
+          </button>
+          <button className="cancel-button" onClick={onClose}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
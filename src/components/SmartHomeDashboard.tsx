@@ -1,43 +1,248 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { EspDevice } from "../types/types";
 import { fetchDevices } from "../api/api";
+import { getTransport } from "../api/transport";
+import { deviceStore } from "../store/deviceStore";
+import { notify } from "../store/notifications";
+import { recordTelemetry } from "../store/telemetry";
+import { apiUrl, getConfig, validateConfig } from "../config/config";
+import { useCommandQueue } from "../hooks/useCommandQueue";
+import { AuthState, useAuth } from "../hooks/useAuth";
+import { useAutomations } from "../hooks/useAutomations";
+import { useBatch } from "../hooks/useBatch";
+import { useCommandTracker } from "../hooks/useCommandTracker";
+import { useDeviceAlerts } from "../hooks/useDeviceAlerts";
+import { useDevices } from "../hooks/useDeviceStore";
+import { useDeviceView } from "../hooks/useDeviceView";
+import { useDiagnostics } from "../hooks/useDiagnostics";
+import { usePresence } from "../hooks/usePresence";
+import { useNotifications } from "../hooks/useNotifications";
+import { useRollouts } from "../hooks/useRollouts";
+import { useRooms } from "../hooks/useRooms";
+import { useScenes } from "../hooks/useScenes";
+import { useSchedules } from "../hooks/useSchedules";
+import { useSnapshot } from "../hooks/useSnapshot";
+import { useSelection } from "../hooks/useSelection";
+import { useTrash } from "../hooks/useTrash";
 import { useWebSocket } from "../hooks/useWebSocket";
-import { DeviceControls } from "./DeviceControls";
-
-export default function SmartHomeDashboard() {
-  const [devices, setDevices] = useState<EspDevice[]>([]);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+import { CommandContext } from "../utils/deviceCommands";
+import { isUnclaimed } from "../utils/devices";
+import { Permission } from "../utils/permissions";
+import { applyView } from "../utils/deviceView";
+import { ActivityPanel } from "./ActivityPanel";
+import { AutomationManager } from "./AutomationManager";
+import { BatchBar } from "./BatchBar";
+import { BatchResults } from "./BatchResults";
+import { DeviceCard } from "./DeviceCard";
+import { DeviceTable } from "./DeviceTable";
+import { DeviceToolbar } from "./DeviceToolbar";
+import { DiagnosticsPanel } from "./DiagnosticsPanel";
+import { FirmwarePanel } from "./FirmwarePanel";
+import { LoginScreen } from "./LoginScreen";
+import { NotificationSettings } from "./NotificationSettings";
+import { ProvisionWizard } from "./ProvisionWizard";
+import { QueuePanel } from "./QueuePanel";
+import { ReconnectStatus } from "./ReconnectStatus";
+import { RoomSection } from "./RoomSection";
+import { SceneManager } from "./SceneManager";
+import { ScheduleManager } from "./ScheduleManager";
+import { SettingsPanel } from "./SettingsPanel";
+import { StaleBanner } from "./StaleBanner";
+import { TelemetryPanel } from "./TelemetryPanel";
+import { ToastStack } from "./ToastStack";
+import { TrashPanel } from "./TrashPanel";
+import { UndoToast } from "./UndoToast";
+
+// How long the undo toast stays up after a delete; the trash keeps the device for longer
+const UNDO_TOAST_MS = 10000;
+
+// Failed commands and dashboard errors both end up in the toast stack, as different notification types
+const reportCommandFailure = (message: string | null) => {
+  if (message) notify({ event: "commandFailed", message });
+};
+
+const reportError = (message: string | null) => {
+  if (message) notify({ event: "system", message });
+};
+
+function Dashboard({ auth }: { auth: AuthState }) {
+  const devices = useDevices();
+  const [showNotifications, setShowNotifications] = useState(false);
+  const notifications = useNotifications();
   const [deviceToDelete, setDeviceToDelete] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [telemetryDeviceId, setTelemetryDeviceId] = useState<string | null>(null);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [showScenes, setShowScenes] = useState(false);
+  const [showAutomations, setShowAutomations] = useState(false);
+  const [showQueue, setShowQueue] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showProvision, setShowProvision] = useState(false);
+  const [showFirmware, setShowFirmware] = useState(false);
+  const [undo, setUndo] = useState<{ deviceId: string; name: string; expiresAt: number } | null>(null);
+  const dismissUndo = useCallback(() => setUndo(null), []);
+  // undefined deviceId shows the global timeline
+  const [activity, setActivity] = useState<{ deviceId?: string } | null>(null);
+  const showHistory = useCallback((deviceId: string) => setActivity({ deviceId }), []);
+  // While only the cached device list is available nothing may be changed
+  const snapshotAt = useSnapshot();
+  const can = (permission: Permission) => auth.can(permission) && snapshotAt === null;
+  const canControl = can("control");
+  const { commandStates, trackCommand, confirmState } = useCommandTracker();
+  const { presenceOf, markSeen, now } = usePresence();
+  const diagnostics = useDiagnostics();
   const {
     isConnected,
     reconnectAttempts,
-    MAX_RECONNECT_ATTEMPTS,
+    maxReconnectAttempts,
+    nextRetryAt,
+    errorMessage: connectionError,
+    reconnectNow,
     deleteDevice,
-  } = useWebSocket(setDevices);
+  } = useWebSocket({
+    // Handlers run after render, so the automations declared below are in scope by then
+    onDeviceState: (deviceId, state) => {
+      confirmState(deviceId, state);
+      automations.handleState(deviceId, state);
+    },
+    onTelemetry: (deviceId, readings, timestamp) => {
+      recordTelemetry(deviceId, readings, timestamp);
+      automations.handleTelemetry(deviceId, readings);
+    },
+    onSeen: markSeen,
+    onDeviceError: ({ deviceId, code, message }) => {
+      const source = deviceId ? deviceStore.getDevice(deviceId)?.name ?? deviceId : "Bridge";
+      notify({
+        event: "deviceError",
+        deviceId,
+        message: `${source} reported an error${code ? ` (${code})` : ""}: ${message}`,
+      });
+    },
+  });
+  const { schedules, addSchedule, updateSchedule, removeSchedule } = useSchedules(
+    devices,
+    // Only users allowed to control devices run schedules from their browser
+    isConnected && canControl,
+    reportCommandFailure
+  );
+  const automations = useAutomations(isConnected && canControl, reportCommandFailure);
+  useDeviceAlerts(devices, presenceOf, isConnected);
+  const commandQueue = useCommandQueue(isConnected, trackCommand);
+  const trash = useTrash(deleteDevice, isConnected && auth.can("delete"));
+  const firmware = useRollouts();
+  const activeRollouts = firmware.rollouts.filter((r) => r.status === "running" || r.status === "awaiting").length;
+  const { enqueueCommand } = commandQueue;
+  const commandContext: CommandContext = useMemo(
+    () => ({ setErrorMessage: reportCommandFailure, trackCommand, enqueueCommand }),
+    [trackCommand, enqueueCommand]
+  );
+  const scenes = useScenes(devices, commandContext);
+  const { groups, rooms, roomOf, assignRoom, collapsed, toggleCollapsed } = useRooms(devices);
+  const { view, updateView } = useDeviceView();
+  const visibleDevices = useMemo(
+    () =>
+      applyView(devices, view, {
+        roomOf,
+        lastActivity: (device) => presenceOf(device.deviceId).lastSeen ?? device.lastSeen,
+        isOffline: (device) => presenceOf(device.deviceId).status === "offline",
+      }),
+    [devices, view, roomOf, presenceOf]
+  );
+  // Room summaries and group actions still cover every member; only the cards are filtered
+  const visibleGroups = useMemo(
+    () =>
+      groups
+        .map((group) => ({ ...group, visible: visibleDevices.filter((device) => roomOf(device) === group.room) }))
+        .filter((group) => group.visible.length > 0),
+    [groups, visibleDevices, roomOf]
+  );
+  const visibleIds = useMemo(() => visibleDevices.map((device) => device.deviceId), [visibleDevices]);
+  const allIds = useMemo(() => devices.map((device) => device.deviceId), [devices]);
+  const selection = useSelection(visibleIds, allIds);
+  const hiddenSelected = selection.selected.filter((deviceId) => !visibleIds.includes(deviceId)).length;
+  const batch = useBatch(commandContext, {
+    moveToTrash: trash.moveToTrash,
+    assignRoom,
+    isOffline: (deviceId) => isConnected && presenceOf(deviceId).status === "offline",
+  });
+  const unclaimed = useMemo(() => devices.filter((device) => isUnclaimed(device, roomOf(device))), [devices, roomOf]);
+
+  const loadDevices = useCallback(
+    () =>
+      fetchDevices()
+        .then((data: EspDevice[]) => {
+          deviceStore.dispatch({ type: "sync", devices: data });
+          data.forEach((device) => device.lastSeen && markSeen(device.deviceId, device.lastSeen));
+        })
+        .catch(() => reportError(`Failed to fetch devices from ${apiUrl("espDevices")}`)),
+    [markSeen]
+  );
 
   useEffect(() => {
-    fetchDevices()
-      .then((data) => setDevices(data))
-      .catch(() => setErrorMessage("Failed to fetch devices"));
-  }, []);
+    const configErrors = Object.entries(validateConfig(getConfig()));
+    if (configErrors.length > 0) {
+      reportError(
+        `Invalid configuration: ${configErrors.map(([field, error]) => `${field} (${error})`).join(", ")}`
+      );
+      return;
+    }
+    loadDevices();
+  }, [loadDevices]);
 
-  const handleDeleteClick = (deviceId: string) => {
-    setDeviceToDelete(deviceId);
-  };
+  // The live connection is back, so the saved list can be replaced with the real one
+  useEffect(() => {
+    if (isConnected && snapshotAt !== null) loadDevices();
+  }, [isConnected, snapshotAt, loadDevices]);
 
   const confirmDelete = () => {
     if (deviceToDelete) {
-      deleteDevice(deviceToDelete);
+      const name = deviceStore.getDevice(deviceToDelete)?.name ?? deviceToDelete;
+      trash.moveToTrash(deviceToDelete);
+      setUndo({
+        deviceId: deviceToDelete,
+        name,
+        expiresAt: Date.now() + Math.min(UNDO_TOAST_MS, getConfig().deleteGraceMs),
+      });
       setDeviceToDelete(null);
     }
   };
 
+  const undoDelete = () => {
+    if (undo) trash.restore(undo.deviceId);
+    setUndo(null);
+  };
+
   const cancelDelete = () => {
     setDeviceToDelete(null);
   };
 
+  const renderCard = (device: EspDevice) => (
+    <DeviceCard
+      key={device.deviceId}
+      deviceId={device.deviceId}
+      commandState={commandStates[device.deviceId]}
+      presenceStatus={presenceOf(device.deviceId).status}
+      lastSeen={presenceOf(device.deviceId).lastSeen}
+      connected={isConnected}
+      canControl={canControl}
+      canRename={can("rename")}
+      canDelete={can("delete")}
+      queuedCount={commandQueue.queue.filter((q) => q.deviceId === device.deviceId).length}
+      room={roomOf(device)}
+      rooms={rooms}
+      onAssignRoom={assignRoom}
+      onShowTelemetry={setTelemetryDeviceId}
+      onShowHistory={showHistory}
+      onDelete={setDeviceToDelete}
+      selected={selection.selectedSet.has(device.deviceId)}
+      onToggleSelect={selection.toggle}
+      {...commandContext}
+    />
+  );
+
   return (
-    <div className="dashboard-container">
+    <>
       <header className="dashboard-header">
         <h1>Smart Home Dashboard</h1>
         <div className="status-indicator">
@@ -45,55 +250,147 @@ export default function SmartHomeDashboard() {
             className={`dot ${isConnected ? "connected" : "disconnected"}`}
           ></span>
           <span>{isConnected ? "Online" : "Offline"}</span>
-          {!isConnected && reconnectAttempts > 0 && (
-            <span className="attempts">
-              (Attempt {reconnectAttempts}/{MAX_RECONNECT_ATTEMPTS})
+          {!isConnected && (
+            <ReconnectStatus
+              reconnectAttempts={reconnectAttempts}
+              maxReconnectAttempts={maxReconnectAttempts}
+              nextRetryAt={nextRetryAt}
+              onReconnectNow={reconnectNow}
+            />
+          )}
+          {!isConnected && connectionError && (
+            <span className="connection-error">{connectionError}</span>
+          )}
+          {commandQueue.queue.length > 0 && (
+            <button
+              className={`settings-button queue-button ${commandQueue.queue.some((q) => q.lastError) ? "stalled" : ""}`}
+              onClick={() => setShowQueue(true)}
+            >
+              📥 {commandQueue.queue.length} queued
+            </button>
+          )}
+          {diagnostics.entries.length > 0 && (
+            <button className="settings-button diagnostics-button" onClick={() => setShowDiagnostics(true)}>
+              🩺 {diagnostics.entries.length} rejected
+            </button>
+          )}
+          {canControl && (
+            <>
+              <button className="settings-button" onClick={() => setShowScenes(true)}>
+                🎬 Scenes
+              </button>
+              <button className="settings-button" onClick={() => setShowSchedules(true)}>
+                🕒 Schedules
+              </button>
+              <button className="settings-button" onClick={() => setShowAutomations(true)}>
+                🤖 Automations
+              </button>
+            </>
+          )}
+          {can("provision") && (
+            <button className="settings-button" onClick={() => setShowProvision(true)}>
+              ➕ Add device{unclaimed.length > 0 ? ` (${unclaimed.length} new)` : ""}
+            </button>
+          )}
+          {can("firmware") && (
+            <button className="settings-button" onClick={() => setShowFirmware(true)}>
+              ⬆ Firmware{activeRollouts > 0 ? ` (${activeRollouts} active)` : ""}
+            </button>
+          )}
+          {auth.can("delete") && trash.entries.length > 0 && (
+            <button className="settings-button" onClick={() => setShowTrash(true)}>
+              🗑 {trash.entries.length} in trash
+            </button>
+          )}
+          <button className="settings-button" onClick={() => setActivity({})}>
+            📜 Activity
+          </button>
+          <button className="settings-button" onClick={() => setShowNotifications(true)}>
+            🔔 Notifications
+          </button>
+          {auth.can("control") && (
+            <button className="settings-button" onClick={() => setShowSettings(true)}>
+              ⚙ Settings
+            </button>
+          )}
+          {auth.user && (
+            <span className="user-badge" title={`Signed in as ${auth.user.username}`}>
+              👤 {auth.user.username} · {auth.user.role}
+              <button onClick={auth.logout}>Log out</button>
             </span>
           )}
         </div>
       </header>
 
-      {errorMessage && (
-        <div className="error-alert">
-          <span>{errorMessage}</span>
-          <button onClick={() => setErrorMessage(null)}>Dismiss</button>
-        </div>
+      {snapshotAt !== null && <StaleBanner snapshotAt={snapshotAt} now={now} onRetry={loadDevices} />}
+
+      <ToastStack
+        toasts={notifications.toasts}
+        onDismiss={notifications.dismiss}
+        onDismissAll={notifications.dismissAll}
+      />
+
+      {devices.length > 0 && (
+        <DeviceToolbar view={view} onChange={updateView} shown={visibleDevices.length} total={devices.length} />
       )}
 
-      <section className="devices-grid">
-        {devices.length > 0 ? (
-          devices.map((device) => (
-            <div key={device.deviceId} className="device-card">
-              <div className="device-header">
-                <h3 title={device.name}>{device.name}</h3>
-                <span
-                  className="device-status"
-                  title={device.lightOn ? "Light On" : "Light Off"}
-                >
-                  {device.lightOn ? "🟢" : "⚪"}
-                </span>
-              </div>
-              <p className="device-id">ID: {device.deviceId}</p>
-              <DeviceControls
-                device={device}
-                setDevices={setDevices}
-                setErrorMessage={setErrorMessage}
-              />
-              <button
-                className="delete-button"
-                onClick={() => handleDeleteClick(device.deviceId)}
-              >
-                Delete Device
-              </button>
-            </div>
-          ))
-        ) : (
+      {selection.selected.length > 0 && (
+        <BatchBar
+          selectedCount={selection.selected.length}
+          hiddenCount={hiddenSelected}
+          visibleCount={visibleDevices.length}
+          rooms={rooms}
+          canControl={canControl}
+          canDelete={can("delete")}
+          busy={batch.running}
+          onSelectAll={selection.selectAll}
+          onClear={selection.clear}
+          onRun={(action) => batch.startBatch(action, selection.selected)}
+        />
+      )}
+
+      <section className="room-groups">
+        {devices.length === 0 ? (
           <div className="no-devices">
             <p>No devices detected</p>
-            <button onClick={() => fetchDevices().then(setDevices)}>
-              Refresh
-            </button>
+            <button onClick={loadDevices}>Refresh</button>
+          </div>
+        ) : visibleDevices.length === 0 ? (
+          <div className="no-devices">
+            <p>No devices match this search</p>
+            <button onClick={() => updateView({ query: "", filters: [] })}>Clear filters</button>
           </div>
+        ) : view.layout === "table" ? (
+          <DeviceTable
+            devices={visibleDevices}
+            commandStates={commandStates}
+            presenceOf={presenceOf}
+            roomOf={roomOf}
+            connected={isConnected}
+            canControl={canControl}
+            now={now}
+            commandContext={commandContext}
+            onShowHistory={showHistory}
+            selected={selection.selectedSet}
+            onToggleSelect={selection.toggle}
+          />
+        ) : view.sort === "room" ? (
+          visibleGroups.map((group) => (
+            <RoomSection
+              key={group.room}
+              room={group.room}
+              devices={group.devices}
+              collapsed={collapsed.includes(group.room)}
+              onToggleCollapsed={() => toggleCollapsed(group.room)}
+              commandContext={commandContext}
+              readOnly={!canControl}
+              isOffline={(deviceId) => isConnected && presenceOf(deviceId).status === "offline"}
+            >
+              {group.visible.map(renderCard)}
+            </RoomSection>
+          ))
+        ) : (
+          <div className="devices-grid">{visibleDevices.map(renderCard)}</div>
         )}
       </section>
 
@@ -102,6 +399,13 @@ export default function SmartHomeDashboard() {
           <div className="delete-confirm-modal">
             <h2>Confirm Deletion</h2>
             <p>Are you sure you want to delete device {devices.find(d => d.deviceId === deviceToDelete)?.name || deviceToDelete}?</p>
+            <p className="queue-hint">It stays in the trash and can be restored for a while before it is deleted.</p>
+            {getTransport().kind === "broker" && (
+              <p className="queue-hint">
+                Broker mode only forgets the device's retained state. A device that is still running shows up again
+                when it next reports after leaving the trash.
+              </p>
+            )}
             <div className="modal-buttons">
               <button className="confirm-button" onClick={confirmDelete}>
                 Confirm
@@ -114,6 +418,150 @@ export default function SmartHomeDashboard() {
         </div>
       )}
 
+      {telemetryDeviceId && devices.some((d) => d.deviceId === telemetryDeviceId) && (
+        <TelemetryPanel
+          device={devices.find((d) => d.deviceId === telemetryDeviceId)!}
+          onClose={() => setTelemetryDeviceId(null)}
+        />
+      )}
+
+      {showScenes && (
+        <SceneManager devices={devices} {...scenes} onClose={() => setShowScenes(false)} />
+      )}
+
+      {showSchedules && (
+        <ScheduleManager
+          devices={devices}
+          schedules={schedules}
+          addSchedule={addSchedule}
+          updateSchedule={updateSchedule}
+          removeSchedule={removeSchedule}
+          onClose={() => setShowSchedules(false)}
+        />
+      )}
+
+      {batch.run && (
+        <BatchResults
+          run={batch.run}
+          running={batch.running}
+          onRetryFailed={batch.retryFailed}
+          onClose={batch.dismiss}
+        />
+      )}
+
+      {showAutomations && (
+        <AutomationManager
+          devices={devices}
+          rules={automations.rules}
+          running={automations.running}
+          addRule={automations.addRule}
+          updateRule={automations.updateRule}
+          removeRule={automations.removeRule}
+          onClose={() => setShowAutomations(false)}
+        />
+      )}
+
+      {showQueue && (
+        <QueuePanel
+          queue={commandQueue.queue}
+          isConnected={isConnected}
+          replaying={commandQueue.replaying}
+          now={now}
+          onCancel={commandQueue.cancel}
+          onRetry={commandQueue.retry}
+          onClear={commandQueue.clear}
+          onClose={() => setShowQueue(false)}
+        />
+      )}
+
+      {showProvision && (
+        <ProvisionWizard
+          unclaimed={unclaimed}
+          rooms={rooms}
+          onAssignRoom={assignRoom}
+          setErrorMessage={reportCommandFailure}
+          presenceOf={presenceOf}
+          onClose={() => setShowProvision(false)}
+        />
+      )}
+
+      {showFirmware && (
+        <FirmwarePanel
+          devices={devices}
+          rooms={rooms}
+          roomOf={roomOf}
+          isConnected={isConnected}
+          {...firmware}
+          onClose={() => setShowFirmware(false)}
+        />
+      )}
+
+      {showTrash && (
+        <TrashPanel
+          entries={trash.entries}
+          isConnected={isConnected}
+          now={now}
+          onRestore={trash.restore}
+          onPurge={trash.purge}
+          onClose={() => setShowTrash(false)}
+        />
+      )}
+
+      {undo && (
+        <UndoToast
+          message={`Deleted ${undo.name}`}
+          expiresAt={undo.expiresAt}
+          onUndo={undoDelete}
+          onDismiss={dismissUndo}
+        />
+      )}
+
+      {activity && (
+        <ActivityPanel
+          devices={devices}
+          initialDeviceId={activity.deviceId}
+          canClear={auth.can("delete")}
+          onClose={() => setActivity(null)}
+        />
+      )}
+
+      {showDiagnostics && (
+        <DiagnosticsPanel
+          entries={diagnostics.entries}
+          onClear={diagnostics.clear}
+          onClose={() => setShowDiagnostics(false)}
+        />
+      )}
+
+      {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
+
+      {showNotifications && (
+        <NotificationSettings
+          preferences={notifications.preferences}
+          onChange={notifications.setPreferences}
+          onClose={() => setShowNotifications(false)}
+        />
+      )}
+    </>
+  );
+}
+
+export default function SmartHomeDashboard() {
+  const auth = useAuth();
+  const [showSettings, setShowSettings] = useState(false);
+
+  return (
+    <div className="dashboard-container">
+      {auth.role ? (
+        // Remounting on user change reconnects with the new user's token
+        <Dashboard key={auth.user?.username ?? ""} auth={auth} />
+      ) : (
+        <>
+          <LoginScreen onLogin={auth.login} onShowSettings={() => setShowSettings(true)} />
+          {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
+        </>
+      )}
+
       <style>{`
         @import url('https://fonts.googleapis.com/css2?family=Orbitron:wght@400;500;700&display=swap');
 
@@ -221,401 +669,1968 @@ export default function SmartHomeDashboard() {
           text-shadow: 0 0 5px rgba(129, 140, 248, 0.5);
         }
 
-        .error-alert {
+        .connection-error {
+          font-size: 13px;
+          color: #ff6f91;
+          max-width: 260px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .settings-button {
+          padding: 10px 20px;
+          background: rgba(255, 255, 255, 0.08);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 12px;
+          color: #e0e7ff;
+          font-family: 'Orbitron', sans-serif;
+          font-size: 14px;
+          cursor: pointer;
+          transition: all 0.4s ease;
+          position: relative;
+          z-index: 2;
+        }
+
+        .settings-button:hover {
+          background: rgba(255, 255, 255, 0.18);
+          border-color: rgba(100, 150, 255, 0.6);
+        }
+
+        .stale-banner {
           max-width: 1400px;
-          margin: 0 auto 50px;
-          padding: 25px 40px;
-          background: rgba(255, 77, 77, 0.9);
-          color: #fff;
-          border-radius: 15px;
+          margin: 0 auto 30px;
+          padding: 18px 30px;
           display: flex;
           justify-content: space-between;
           align-items: center;
-          box-shadow: 0 10px 30px rgba(0, 0, 0, 0.4);
-          animation: slideIn 0.6s ease, glowError 2s infinite;
-          backdrop-filter: blur(8px);
+          gap: 20px;
+          background: rgba(255, 216, 77, 0.12);
+          border: 1px solid rgba(255, 216, 77, 0.5);
+          border-radius: 15px;
+          color: #ffe58a;
+          font-size: 15px;
+          position: relative;
           z-index: 1;
-          border: 1px solid rgba(255, 128, 128, 0.3);
         }
 
-        .error-alert button {
-          background: #ff1a1a;
-          border: none;
-          padding: 12px 30px;
+        .stale-banner button {
+          padding: 10px 24px;
+          background: rgba(255, 216, 77, 0.2);
+          border: 1px solid rgba(255, 216, 77, 0.6);
           border-radius: 10px;
-          color: white;
-          font-size: 16px;
-          font-weight: 600;
+          color: #ffe58a;
+          font-family: inherit;
           cursor: pointer;
-          transition: all 0.4s ease;
-          box-shadow: 0 0 15px rgba(255, 26, 26, 0.6);
         }
 
-        .error-alert button:hover {
-          background: #cc0000;
-          transform: scale(1.05) rotate(2deg);
-          box-shadow: 0 0 25px rgba(255, 26, 26, 0.8);
+        .toast-stack {
+          position: fixed;
+          top: 20px;
+          right: 20px;
+          z-index: 1100;
+          width: min(420px, calc(100vw - 40px));
+          display: flex;
+          flex-direction: column;
+          align-items: flex-end;
+          gap: 10px;
         }
 
-        .devices-grid {
-          max-width: 1400px;
-          margin: 0 auto;
-          display: grid;
-          grid-template-columns: repeat(auto-fit, minmax(340px, 1fr));
-          gap: 50px;
-          z-index: 1;
+        .toast {
+          width: 100%;
+          display: flex;
+          align-items: flex-start;
+          gap: 12px;
+          padding: 14px 16px;
+          background: rgba(30, 27, 75, 0.95);
+          border: 1px solid rgba(165, 180, 252, 0.3);
+          border-left: 4px solid #7b68ee;
+          border-radius: 12px;
+          color: #e0e7ff;
+          box-shadow: 0 10px 30px rgba(0, 0, 0, 0.4);
+          animation: fadeIn 0.3s ease;
         }
 
-        .device-card {
-          background: rgba(25, 30, 55, 0.9);
-          padding: 40px;
-          border-radius: 25px;
-          box-shadow: 0 20px 50px rgba(0, 0, 0, 0.6), inset 0 0 15px rgba(255, 255, 255, 0.05);
-          border: 1px solid rgba(100, 150, 255, 0.2);
-          transition: all 0.5s ease;
-          position: relative;
-          overflow: hidden;
-          backdrop-filter: blur(15px);
-          z-index: 1;
+        .toast.commandFailed,
+        .toast.deviceError,
+        .toast.system {
+          border-left-color: #ff3366;
         }
 
-        .device-card::before {
-          content: '';
-          position: absolute;
-          top: -50%;
-          left: -50%;
-          width: 200%;
-          height: 200%;
-          background: radial-gradient(circle, rgba(100, 150, 255, 0.1) 0%, transparent 70%);
-          animation: rotateGlow 15s infinite linear;
-          pointer-events: none;
+        .toast.offline,
+        .toast.lightOnTooLong {
+          border-left-color: #ffd84d;
         }
 
-        .device-card:hover {
-          transform: translateY(-15px) scale(1.03);
-          box-shadow: 0 30px 60px rgba(0, 0, 0, 0.7), inset 0 0 20px rgba(100, 150, 255, 0.3);
-          border: 1px solid rgba(100, 150, 255, 0.5);
+        .toast-icon {
+          font-size: 20px;
         }
 
-        .device-header {
+        .toast-body {
+          flex: 1;
           display: flex;
-          justify-content: space-between;
-          align-items: center;
-          margin-bottom: 30px;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 14px;
         }
 
-        .device-card h3 {
-          font-size: 26px;
-          font-weight: 600;
-          color: #e0e7ff;
-          max-width: 260px;
-          white-space: nowrap;
-          overflow: hidden;
-          text-overflow: ellipsis;
-          transition: all 0.4s ease;
+        .toast-body small {
+          color: #a5b4fc;
+          font-size: 11px;
+        }
+
+        .toast-close,
+        .toast-dismiss-all {
+          background: none;
+          border: none;
+          color: #a5b4fc;
+          font-family: inherit;
           cursor: pointer;
         }
 
-        .device-card:hover h3 {
-          color: #00ff9d;
-          text-shadow: 0 0 15px rgba(0, 255, 157, 0.8);
+        .toast-close {
+          font-size: 20px;
+          line-height: 1;
         }
 
-        .name-edit-input {
-          font-size: 26px;
-          font-weight: 600;
+        .toast-dismiss-all {
+          font-size: 12px;
+          text-decoration: underline;
+        }
+
+        .notification-table {
+          width: 100%;
+          border-collapse: collapse;
+          margin-bottom: 25px;
+          font-size: 14px;
           color: #e0e7ff;
-          background: rgba(255, 255, 255, 0.1);
-          border: 1px solid rgba(100, 150, 255, 0.5);
-          border-radius: 8px;
-          padding: 5px 10px;
-          width: 260px;
-          font-family: 'Orbitron', sans-serif;
-          outline: none;
-          transition: all 0.3s ease;
         }
 
-        .name-edit-input:focus {
-          border-color: #00ff9d;
-          box-shadow: 0 0 10px rgba(0, 255, 157, 0.5);
+        .notification-table th {
+          padding: 10px;
+          text-align: left;
+          font-size: 12px;
+          text-transform: uppercase;
+          letter-spacing: 1px;
+          color: #a5b4fc;
+          border-bottom: 1px solid rgba(100, 150, 255, 0.2);
         }
 
-        .device-status {
-          font-size: 24px;
-          transition: transform 0.5s ease;
+        .notification-table td {
+          padding: 10px;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.05);
         }
 
-        .device-card:hover .device-status {
-          transform: scale(1.4) rotate(10deg);
+        .notification-table input {
+          width: 18px;
+          height: 18px;
+          accent-color: #7b68ee;
         }
 
-        .device-id {
-          font-size: 16px;
-          color: #a5b4fc;
-          margin-bottom: 35px;
-          letter-spacing: 1px;
-          font-weight: 400;
-          text-shadow: 0 0 5px rgba(165, 180, 252, 0.4);
+        .notification-permission {
+          margin-bottom: 20px;
         }
 
-        .control-section {
+        .device-toolbar {
+          max-width: 1400px;
+          margin: 0 auto 40px;
           display: flex;
-          flex-direction: column;
-          gap: 20px;
+          flex-wrap: wrap;
           align-items: center;
+          gap: 12px 18px;
+          position: relative;
+          z-index: 1;
         }
 
-        .light-toggle {
-          display: flex;
-          align-items: center;
-          gap: 15px;
-          padding: 16px 35px;
-          border: none;
-          border-radius: 15px;
-          background: rgba(255, 255, 255, 0.05);
+        .device-search {
+          flex: 1;
+          min-width: 220px;
+          padding: 12px 18px;
+          background: rgba(255, 255, 255, 0.08);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 12px;
           color: #e0e7ff;
-          font-size: 18px;
-          font-weight: 600;
-          cursor: pointer;
-          transition: all 0.5s ease;
-          box-shadow: 0 8px 20px rgba(0, 0, 0, 0.3);
-          position: relative;
-          z-index: 2;
-          overflow: hidden;
+          font-family: inherit;
+          font-size: 14px;
+          outline: none;
         }
 
-        .light-toggle::after {
-          content: '';
-          position: absolute;
-          top: -50%;
-          left: -50%;
-          width: 200%;
-          height: 200%;
-          background: radial-gradient(circle, rgba(255, 255, 255, 0.2) 0%, transparent 70%);
-          opacity: 0;
-          transition: opacity 0.5s ease;
+        .filter-chips,
+        .layout-toggle {
+          display: flex;
+          gap: 6px;
         }
 
-        .light-toggle:hover::after {
-          opacity: 1;
+        .filter-chip,
+        .layout-toggle button {
+          padding: 8px 14px;
+          background: rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 20px;
+          color: #a5b4fc;
+          font-family: inherit;
+          font-size: 13px;
+          cursor: pointer;
         }
 
-        .light-toggle:hover {
+        .layout-toggle button {
+          border-radius: 8px;
+        }
+
+        .filter-chip.active,
+        .layout-toggle button.active {
+          background: #7b68ee;
+          border-color: #7b68ee;
+          color: #fff;
+        }
+
+        .device-sort {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          font-size: 13px;
+          color: #a5b4fc;
+        }
+
+        .device-sort select {
+          padding: 8px 12px;
+          background: rgba(255, 255, 255, 0.08);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 8px;
+          color: #e0e7ff;
+          font-family: inherit;
+        }
+
+        .device-sort select option {
+          background: #1e2749;
+        }
+
+        .device-count {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          font-size: 13px;
+          color: #a5b4fc;
+        }
+
+        .device-count button {
+          background: none;
+          border: none;
+          color: #7b68ee;
+          font-family: inherit;
+          cursor: pointer;
+          text-decoration: underline;
+        }
+
+        .device-table-wrapper {
+          overflow-x: auto;
+          background: rgba(25, 30, 55, 0.9);
+          border: 1px solid rgba(100, 150, 255, 0.2);
+          border-radius: 20px;
+        }
+
+        .device-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 14px;
+          color: #e0e7ff;
+        }
+
+        .device-table th {
+          padding: 14px 16px;
+          text-align: left;
+          font-size: 12px;
+          text-transform: uppercase;
+          letter-spacing: 1px;
+          color: #a5b4fc;
+          border-bottom: 1px solid rgba(100, 150, 255, 0.2);
+        }
+
+        .device-table td {
+          padding: 10px 16px;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.05);
+          vertical-align: middle;
+        }
+
+        .device-table td small {
+          display: block;
+          font-size: 11px;
+          color: #818cf8;
+        }
+
+        .device-table tr.offline {
+          opacity: 0.6;
+        }
+
+        .device-table .presence-badge {
+          margin: 0;
+          display: inline-flex;
+        }
+
+        .device-table .command-badge {
+          margin-left: 8px;
+        }
+
+        .table-toggle,
+        .table-history {
+          padding: 5px 12px;
+          background: rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 8px;
+          color: #a5b4fc;
+          font-family: inherit;
+          cursor: pointer;
+        }
+
+        .table-toggle.active {
+          background: rgba(0, 255, 157, 0.15);
+          border-color: rgba(0, 255, 157, 0.5);
+          color: #00ff9d;
+        }
+
+        .table-toggle:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+
+        .batch-bar {
+          position: sticky;
+          top: 10px;
+          max-width: 1400px;
+          margin: 0 auto 30px;
+          padding: 14px 22px;
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 10px 16px;
+          background: rgba(25, 30, 55, 0.95);
+          border: 1px solid rgba(123, 104, 238, 0.5);
+          border-radius: 15px;
+          box-shadow: 0 10px 30px rgba(0, 0, 0, 0.5);
+          z-index: 5;
+          font-size: 14px;
+          color: #e0e7ff;
+        }
+
+        .batch-count small {
+          color: #a5b4fc;
+        }
+
+        .batch-link {
+          background: none;
+          border: none;
+          color: #7b68ee;
+          font-family: inherit;
+          cursor: pointer;
+          text-decoration: underline;
+        }
+
+        .batch-actions {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+          margin-left: auto;
+        }
+
+        .batch-actions button,
+        .batch-room input {
+          padding: 8px 14px;
+          background: rgba(255, 255, 255, 0.08);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 8px;
+          color: #e0e7ff;
+          font-family: inherit;
+          font-size: 13px;
+        }
+
+        .batch-actions button {
+          cursor: pointer;
+        }
+
+        .batch-actions button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .batch-actions .batch-danger {
+          border-color: rgba(255, 51, 102, 0.6);
+          color: #ff6f91;
+        }
+
+        .batch-room {
+          display: flex;
+          gap: 6px;
+        }
+
+        .batch-results {
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          margin-bottom: 25px;
+          font-size: 14px;
+          color: #e0e7ff;
+        }
+
+        .batch-results li {
+          display: flex;
+          align-items: baseline;
+          gap: 10px;
+          padding: 8px 14px;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 10px;
+        }
+
+        .batch-results small {
+          color: #a5b4fc;
+        }
+
+        .batch-status {
+          width: 18px;
+          text-align: center;
+          color: #a5b4fc;
+        }
+
+        .batch-results .done .batch-status {
+          color: #00ff9d;
+        }
+
+        .batch-results .failed {
+          border: 1px solid rgba(255, 51, 102, 0.4);
+        }
+
+        .batch-results .failed .batch-status,
+        .batch-results .failed small {
+          color: #ff6f91;
+        }
+
+        .select-checkbox {
+          width: 18px;
+          height: 18px;
+          margin-right: 12px;
+          accent-color: #7b68ee;
+          cursor: pointer;
+        }
+
+        .device-card.selected {
+          border-color: #7b68ee;
+          box-shadow: 0 20px 50px rgba(0, 0, 0, 0.6), 0 0 0 2px rgba(123, 104, 238, 0.6);
+        }
+
+        .device-table tr.selected {
+          background: rgba(123, 104, 238, 0.12);
+        }
+
+        .room-groups {
+          max-width: 1400px;
+          margin: 0 auto;
+          display: flex;
+          flex-direction: column;
+          gap: 50px;
+          position: relative;
+          z-index: 1;
+        }
+
+        .room-header {
+          display: flex;
+          align-items: center;
+          gap: 20px;
+          flex-wrap: wrap;
+          padding: 18px 30px;
+          margin-bottom: 30px;
+          background: rgba(20, 25, 45, 0.85);
+          border: 1px solid rgba(80, 100, 255, 0.2);
+          border-radius: 18px;
+        }
+
+        .room-title {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          background: none;
+          border: none;
+          color: #e0e7ff;
+          font-family: inherit;
+          font-size: 22px;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        .room-chevron {
+          color: #00ddeb;
+        }
+
+        .room-summary {
+          font-size: 14px;
+          color: #a5b4fc;
+        }
+
+        .room-actions {
+          display: flex;
+          gap: 10px;
+          margin-left: auto;
+        }
+
+        .room-actions button {
+          padding: 8px 18px;
+          background: rgba(255, 255, 255, 0.06);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 10px;
+          color: #e0e7ff;
+          font-family: inherit;
+          font-size: 13px;
+          cursor: pointer;
+          transition: all 0.3s ease;
+        }
+
+        .room-actions button:hover:not(:disabled) {
+          background: rgba(0, 221, 235, 0.2);
+        }
+
+        .room-actions button:disabled {
+          opacity: 0.5;
+          cursor: wait;
+        }
+
+        .room-section.collapsed .room-header {
+          margin-bottom: 0;
+        }
+
+        .room-picker {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          margin: -20px 0 25px;
+          font-size: 13px;
+          color: #a5b4fc;
+          position: relative;
+          z-index: 2;
+        }
+
+        .room-picker input {
+          flex: 1;
+          padding: 6px 10px;
+          background: rgba(255, 255, 255, 0.06);
+          border: 1px solid rgba(100, 150, 255, 0.25);
+          border-radius: 8px;
+          color: #e0e7ff;
+          font-family: inherit;
+          font-size: 13px;
+          outline: none;
+        }
+
+        .devices-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(340px, 1fr));
+          gap: 50px;
+          z-index: 1;
+        }
+
+        .device-card {
+          background: rgba(25, 30, 55, 0.9);
+          padding: 40px;
+          border-radius: 25px;
+          box-shadow: 0 20px 50px rgba(0, 0, 0, 0.6), inset 0 0 15px rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(100, 150, 255, 0.2);
+          transition: all 0.5s ease;
+          position: relative;
+          overflow: hidden;
+          backdrop-filter: blur(15px);
+          z-index: 1;
+        }
+
+        .device-card::before {
+          content: '';
+          position: absolute;
+          top: -50%;
+          left: -50%;
+          width: 200%;
+          height: 200%;
+          background: radial-gradient(circle, rgba(100, 150, 255, 0.1) 0%, transparent 70%);
+          animation: rotateGlow 15s infinite linear;
+          pointer-events: none;
+        }
+
+        .device-card:hover {
+          transform: translateY(-15px) scale(1.03);
+          box-shadow: 0 30px 60px rgba(0, 0, 0, 0.7), inset 0 0 20px rgba(100, 150, 255, 0.3);
+          border: 1px solid rgba(100, 150, 255, 0.5);
+        }
+
+        .device-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 30px;
+        }
+
+        .device-card h3 {
+          font-size: 26px;
+          font-weight: 600;
+          color: #e0e7ff;
+          max-width: 260px;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          transition: all 0.4s ease;
+          cursor: pointer;
+        }
+
+        .device-card:hover h3 {
+          color: #00ff9d;
+          text-shadow: 0 0 15px rgba(0, 255, 157, 0.8);
+        }
+
+        .name-edit-input {
+          font-size: 26px;
+          font-weight: 600;
+          color: #e0e7ff;
+          background: rgba(255, 255, 255, 0.1);
+          border: 1px solid rgba(100, 150, 255, 0.5);
+          border-radius: 8px;
+          padding: 5px 10px;
+          width: 260px;
+          font-family: 'Orbitron', sans-serif;
+          outline: none;
+          transition: all 0.3s ease;
+        }
+
+        .name-edit {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          position: relative;
+          z-index: 2;
+        }
+
+        .name-edit-input:focus {
+          border-color: #00ff9d;
+          box-shadow: 0 0 10px rgba(0, 255, 157, 0.5);
+        }
+
+        .command-badge {
+          font-size: 11px;
+          text-transform: uppercase;
+          letter-spacing: 1px;
+          padding: 4px 10px;
+          border-radius: 10px;
+          margin-left: auto;
+          margin-right: 12px;
+        }
+
+        .command-badge.pending {
+          background: rgba(255, 200, 0, 0.2);
+          color: #ffd84d;
+          animation: pulseBadge 1s infinite alternate;
+        }
+
+        .command-badge.confirmed {
+          background: rgba(0, 255, 157, 0.2);
+          color: #00ff9d;
+        }
+
+        .command-badge.failed {
+          background: rgba(255, 51, 102, 0.25);
+          color: #ff6f91;
+        }
+
+        .command-badge.queued {
+          background: rgba(123, 104, 238, 0.25);
+          color: #a5b4fc;
+        }
+
+        .device-status {
+          font-size: 24px;
+          transition: transform 0.5s ease;
+        }
+
+        .device-card:hover .device-status {
+          transform: scale(1.4) rotate(10deg);
+        }
+
+        .device-id {
+          font-size: 16px;
+          color: #a5b4fc;
+          margin-bottom: 35px;
+          letter-spacing: 1px;
+          font-weight: 400;
+          text-shadow: 0 0 5px rgba(165, 180, 252, 0.4);
+        }
+
+        .presence-badge {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin: -25px 0 30px;
+          font-size: 13px;
+          text-transform: capitalize;
+          color: #a5b4fc;
+        }
+
+        .presence-dot {
+          width: 10px;
+          height: 10px;
+          border-radius: 50%;
+          background: #818cf8;
+        }
+
+        .presence-badge.online .presence-dot {
+          background: #00ff9d;
+          box-shadow: 0 0 8px #00ff9d;
+        }
+
+        .presence-badge.stale .presence-dot {
+          background: #ffd84d;
+        }
+
+        .presence-badge.offline {
+          color: #ff6f91;
+        }
+
+        .presence-badge.offline .presence-dot {
+          background: #ff3366;
+        }
+
+        .device-card.offline {
+          opacity: 0.6;
+        }
+
+        fieldset.control-section {
+          border: none;
+          min-width: 0;
+        }
+
+        fieldset.control-section:disabled button,
+        fieldset.control-section:disabled input {
+          cursor: not-allowed;
+          opacity: 0.5;
+        }
+
+        .control-section {
+          display: flex;
+          flex-direction: column;
+          gap: 20px;
+          align-items: center;
+        }
+
+        .light-toggle {
+          display: flex;
+          align-items: center;
+          gap: 15px;
+          padding: 16px 35px;
+          border: none;
+          border-radius: 15px;
+          background: rgba(255, 255, 255, 0.05);
+          color: #e0e7ff;
+          font-size: 18px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.5s ease;
+          box-shadow: 0 8px 20px rgba(0, 0, 0, 0.3);
+          position: relative;
+          z-index: 2;
+          overflow: hidden;
+        }
+
+        .light-toggle::after {
+          content: '';
+          position: absolute;
+          top: -50%;
+          left: -50%;
+          width: 200%;
+          height: 200%;
+          background: radial-gradient(circle, rgba(255, 255, 255, 0.2) 0%, transparent 70%);
+          opacity: 0;
+          transition: opacity 0.5s ease;
+        }
+
+        .light-toggle:hover::after {
+          opacity: 1;
+        }
+
+        .light-toggle:hover {
           transform: translateY(-6px);
           box-shadow: 0 12px 25px rgba(0, 0, 0, 0.4);
           background: rgba(255, 255, 255, 0.15);
         }
 
-        .light-toggle.on {
-          background: #00ff9d;
-          color: #1a2749;
-          box-shadow: 0 0 30px rgba(0, 255, 157, 0.9);
-          animation: glowButton 2s infinite;
+        .light-toggle.on {
+          background: #00ff9d;
+          color: #1a2749;
+          box-shadow: 0 0 30px rgba(0, 255, 157, 0.9);
+          animation: glowButton 2s infinite;
+        }
+
+        .light-toggle.off {
+          background: rgba(255, 255, 255, 0.05);
+          color: #e0e7ff;
+        }
+
+        .light-icon {
+          width: 40px;
+          height: 40px;
+          pointer-events: none;
+          transition: transform 0.3s ease;
+        }
+
+        .light-toggle:hover .light-icon {
+          transform: scale(1.1);
+        }
+
+        .rgb-toggle {
+          position: relative;
+          padding: 16px 40px;
+          border: none;
+          border-radius: 15px;
+          background: rgba(255, 255, 255, 0.05);
+          color: #e0e7ff;
+          font-size: 18px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.5s ease;
+          box-shadow: 0 8px 20px rgba(0, 0, 0, 0.3);
+          z-index: 2;
+          overflow: hidden;
+        }
+
+        .rgb-toggle::after {
+          content: '';
+          position: absolute;
+          top: -50%;
+          left: -50%;
+          width: 200%;
+          height: 200%;
+          background: radial-gradient(circle, rgba(255, 255, 255, 0.2) 0%, transparent 70%);
+          opacity: 0;
+          transition: opacity 0.5s ease;
+        }
+
+        .rgb-toggle:hover::after {
+          opacity: 1;
+        }
+
+        .rgb-toggle.active {
+          background: linear-gradient(45deg, #ff6f91, #00ddeb, #7b68ee);
+          color: #fff;
+          box-shadow: 0 0 35px rgba(123, 104, 238, 0.9);
+          animation: rgbPulse 2s infinite;
+        }
+
+        .rgb-toggle:hover {
+          transform: translateY(-6px);
+          box-shadow: 0 12px 25px rgba(0, 0, 0, 0.4);
+          background: rgba(255, 255, 255, 0.15);
+        }
+
+        .rgb-indicator {
+          margin-right: 12px;
+          font-size: 20px;
+          transition: all 0.4s ease;
+        }
+
+        .rgb-toggle.active .rgb-indicator {
+          text-shadow: 0 0 15px rgba(255, 255, 255, 0.9);
+        }
+
+        .rgb-label {
+          font-weight: 600;
+        }
+
+        .brightness-control {
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+          width: 100%;
+          font-size: 14px;
+          color: #a5b4fc;
+          position: relative;
+          z-index: 2;
+        }
+
+        .brightness-control input[type="range"] {
+          width: 100%;
+          accent-color: #00ddeb;
+          cursor: pointer;
+        }
+
+        .color-control {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 12px;
+          position: relative;
+          z-index: 2;
+        }
+
+        .color-wheel {
+          position: relative;
+          border-radius: 50%;
+          background:
+            radial-gradient(circle closest-side, #fff, rgba(255, 255, 255, 0)),
+            conic-gradient(from 90deg, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00);
+          box-shadow: 0 0 20px rgba(123, 104, 238, 0.5);
+          cursor: crosshair;
+          touch-action: none;
+        }
+
+        .color-wheel.disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+
+        .color-wheel-marker {
+          position: absolute;
+          width: 18px;
+          height: 18px;
+          border: 3px solid #fff;
+          border-radius: 50%;
+          transform: translate(-50%, -50%);
+          box-shadow: 0 0 8px rgba(0, 0, 0, 0.6);
+          pointer-events: none;
+        }
+
+        .color-swatch {
+          padding: 6px 14px;
+          border-radius: 10px;
+          font-size: 13px;
+          color: #1a2749;
+          font-weight: 600;
+          text-shadow: 0 0 4px rgba(255, 255, 255, 0.8);
+        }
+
+        .sensor-readings {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(90px, 1fr));
+          gap: 12px;
+          width: 100%;
+          position: relative;
+          z-index: 2;
+        }
+
+        .sensor-reading {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          padding: 10px;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 12px;
+        }
+
+        .sensor-label {
+          font-size: 11px;
+          text-transform: uppercase;
+          color: #a5b4fc;
+        }
+
+        .sensor-value {
+          font-size: 20px;
+          color: #00ddeb;
+        }
+
+        .sensor-empty {
+          font-size: 13px;
+          color: #818cf8;
+          font-style: italic;
+        }
+
+        .relay-array {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 10px;
+          justify-content: center;
+          position: relative;
+          z-index: 2;
+        }
+
+        .relay-toggle {
+          width: 56px;
+          padding: 10px 0;
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 10px;
+          background: rgba(255, 255, 255, 0.05);
+          color: #e0e7ff;
+          font-family: inherit;
+          cursor: pointer;
+          transition: all 0.3s ease;
+        }
+
+        .relay-toggle.on {
+          background: #00ff9d;
+          color: #1a2749;
+          box-shadow: 0 0 15px rgba(0, 255, 157, 0.7);
+        }
+
+        .telemetry-summary {
+          font-size: 14px;
+          color: #00ddeb;
+          margin: -20px 0 25px;
+        }
+
+        .telemetry-button {
+          display: block;
+          width: 100%;
+          margin: 25px 0 15px;
+          padding: 12px 20px;
+          background: rgba(0, 221, 235, 0.1);
+          border: 1px solid rgba(0, 221, 235, 0.4);
+          border-radius: 12px;
+          color: #00ddeb;
+          font-family: inherit;
+          font-size: 15px;
+          cursor: pointer;
+          transition: all 0.4s ease;
+          position: relative;
+          z-index: 2;
+        }
+
+        .telemetry-button:hover {
+          background: rgba(0, 221, 235, 0.2);
+        }
+
+        .history-button {
+          margin-top: 0;
+          background: rgba(123, 104, 238, 0.1);
+          border-color: rgba(123, 104, 238, 0.4);
+          color: #a5b4fc;
+        }
+
+        .history-button:hover {
+          background: rgba(123, 104, 238, 0.2);
+        }
+
+        .telemetry-modal {
+          background: rgba(25, 30, 55, 0.95);
+          padding: 35px;
+          border-radius: 25px;
+          border: 1px solid rgba(0, 221, 235, 0.3);
+          box-shadow: 0 20px 60px rgba(0, 0, 0, 0.7);
+          width: 95%;
+          max-width: 900px;
+          max-height: 90vh;
+          overflow-y: auto;
+          animation: slideUp 0.4s ease;
+        }
+
+        .telemetry-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 15px;
+          margin-bottom: 25px;
+        }
+
+        .telemetry-header h2 {
+          font-size: 24px;
+          color: #00ddeb;
+        }
+
+        .telemetry-windows {
+          display: flex;
+          gap: 8px;
+        }
+
+        .telemetry-windows button {
+          padding: 6px 12px;
+          background: rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 8px;
+          color: #a5b4fc;
+          font-family: inherit;
+          cursor: pointer;
+        }
+
+        .telemetry-windows button.active {
+          background: #00ddeb;
+          color: #1a2749;
+        }
+
+        .telemetry-chart {
+          margin-bottom: 25px;
+        }
+
+        .telemetry-chart h4 {
+          font-size: 16px;
+          color: #a5b4fc;
+          margin-bottom: 10px;
+        }
+
+        .telemetry-chart.empty p {
+          color: #818cf8;
+          font-style: italic;
+        }
+
+        .telemetry-latest {
+          color: #00ff9d;
+          margin-left: 10px;
+        }
+
+        .telemetry-chart svg {
+          width: 100%;
+          height: 200px;
+          background: rgba(255, 255, 255, 0.03);
+          border-radius: 12px;
+        }
+
+        .telemetry-chart .axis {
+          stroke: rgba(165, 180, 252, 0.3);
+          stroke-width: 1;
+        }
+
+        .telemetry-chart .axis-label {
+          fill: #818cf8;
+          font-size: 11px;
+        }
+
+        .telemetry-chart .series {
+          fill: none;
+          stroke: #00ddeb;
+          stroke-width: 2;
+          vector-effect: non-scaling-stroke;
+        }
+
+        .telemetry-chart .series-head {
+          fill: #00ff9d;
+        }
+
+        .delete-button {
+          padding: 16px 40px;
+          background: linear-gradient(45deg, #ff3366, #ff6f91);
+          border: none;
+          border-radius: 15px;
+          color: #fff;
+          font-size: 18px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.4s ease;
+          box-shadow: 0 4px 15px rgba(255, 51, 102, 0.5);
+          position: relative;
+          z-index: 2;
+          overflow: hidden;
+        }
+
+        .delete-button::after {
+          content: '';
+          position: absolute;
+          top: -50%;
+          left: -50%;
+          width: 200%;
+          height: 200%;
+          background: radial-gradient(circle, rgba(255, 255, 255, 0.2) 0%, transparent 70%);
+          opacity: 0;
+          transition: opacity 0.5s ease;
+        }
+
+        .delete-button:hover::after {
+          opacity: 1;
+        }
+
+        .delete-button:hover {
+          transform: translateY(-4px);
+          box-shadow: 0 6px 20px rgba(255, 51, 102, 0.8);
+          background: linear-gradient(45deg, #ff1a4d, #ff4d77);
+        }
+
+        .no-devices {
+          grid-column: 1 / -1;
+          text-align: center;
+          padding: 80px;
+          background: rgba(20, 25, 45, 0.9);
+          border-radius: 25px;
+          box-shadow: 0 15px 40px rgba(0, 0, 0, 0.5);
+          color: #a5b4fc;
+          font-size: 24px;
+          font-weight: 500;
+          backdrop-filter: blur(12px);
+          position: relative;
+          z-index: 1;
+        }
+
+        .no-devices button {
+          margin-top: 30px;
+          padding: 16px 35px;
+          background: linear-gradient(45deg, #7b68ee, #00ddeb);
+          color: white;
+          border: none;
+          border-radius: 15px;
+          cursor: pointer;
+          font-size: 18px;
+          font-weight: 600;
+          transition: all 0.5s ease;
+          box-shadow: 0 8px 20px rgba(0, 0, 0, 0.3);
+        }
+
+        .no-devices button:hover {
+          transform: scale(1.1) rotate(3deg);
+          box-shadow: 0 12px 25px rgba(123, 104, 238, 0.6);
+          background: linear-gradient(45deg, #6b5bd6, #00c4d3);
+        }
+
+        .modal-overlay {
+          position: fixed;
+          top: 0;
+          left: 0;
+          right: 0;
+          bottom: 0;
+          background: rgba(20, 25, 45, 0.9);
+          backdrop-filter: blur(8px);
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          z-index: 1000;
+          animation: fadeIn 0.3s ease;
+        }
+
+        .delete-confirm-modal {
+          background: rgba(25, 30, 55, 0.95);
+          padding: 40px;
+          border-radius: 25px;
+          box-shadow: 0 20px 60px rgba(0, 0, 0, 0.7), 
+                     inset 0 0 15px rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(255, 51, 102, 0.3);
+          width: 90%;
+          max-width: 500px;
+          text-align: center;
+          position: relative;
+          overflow: hidden;
+          animation: slideUp 0.4s ease;
+        }
+
+        .delete-confirm-modal::before {
+          content: '';
+          position: absolute;
+          top: -50%;
+          left: -50%;
+          width: 200%;
+          height: 200%;
+          background: radial-gradient(circle, rgba(255, 51, 102, 0.1) 0%, transparent 70%);
+          animation: rotateGlow 15s infinite linear;
+          pointer-events: none;
+        }
+
+        .delete-confirm-modal h2 {
+          font-size: 28px;
+          font-weight: 700;
+          color: #ff3366;
+          margin-bottom: 25px;
+          text-shadow: 0 0 15px rgba(255, 51, 102, 0.5);
+        }
+
+        .delete-confirm-modal p {
+          font-size: 18px;
+          color: #e0e7ff;
+          margin-bottom: 35px;
+          line-height: 1.5;
+        }
+
+        .settings-modal {
+          background: rgba(25, 30, 55, 0.95);
+          padding: 40px;
+          border-radius: 25px;
+          box-shadow: 0 20px 60px rgba(0, 0, 0, 0.7);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          width: 90%;
+          max-width: 560px;
+          max-height: 90vh;
+          overflow-y: auto;
+          animation: slideUp 0.4s ease;
+        }
+
+        .settings-modal h2 {
+          font-size: 26px;
+          font-weight: 700;
+          color: #00ddeb;
+          margin-bottom: 25px;
+          text-align: center;
+        }
+
+        .settings-field {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          margin-bottom: 18px;
+          font-size: 14px;
+          color: #a5b4fc;
+        }
+
+        .settings-field input,
+        .settings-field select {
+          padding: 10px 14px;
+          background: rgba(255, 255, 255, 0.08);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 10px;
+          color: #e0e7ff;
+          font-family: inherit;
+          font-size: 14px;
+          outline: none;
+        }
+
+        .settings-field select option {
+          background: #1e2749;
+        }
+
+        .settings-field.invalid input {
+          border-color: #ff3366;
+        }
+
+        .settings-error {
+          color: #ff6f91;
+          font-size: 12px;
+        }
+
+        .settings-status {
+          text-align: center;
+          margin-bottom: 20px;
+          color: #e0e7ff;
+        }
+
+        .schedule-modal {
+          background: rgba(25, 30, 55, 0.95);
+          padding: 35px;
+          border-radius: 25px;
+          border: 1px solid rgba(123, 104, 238, 0.3);
+          box-shadow: 0 20px 60px rgba(0, 0, 0, 0.7);
+          width: 95%;
+          max-width: 720px;
+          max-height: 90vh;
+          overflow-y: auto;
+          animation: slideUp 0.4s ease;
+        }
+
+        .schedule-modal h2 {
+          font-size: 26px;
+          color: #7b68ee;
+          margin-bottom: 20px;
+          text-align: center;
+        }
+
+        .schedule-modal h3 {
+          font-size: 18px;
+          color: #a5b4fc;
+          margin: 25px 0 15px;
+        }
+
+        .schedule-list {
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .schedule-item {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 15px;
+          padding: 15px 20px;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 15px;
+        }
+
+        .schedule-item.disabled {
+          opacity: 0.5;
+        }
+
+        .schedule-info {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 13px;
+          color: #a5b4fc;
+        }
+
+        .schedule-info strong {
+          font-size: 16px;
+          color: #e0e7ff;
+        }
+
+        .schedule-actions {
+          display: flex;
+          gap: 8px;
+        }
+
+        .schedule-actions button {
+          padding: 8px 16px;
+          font-size: 13px;
+        }
+
+        .automation-badge {
+          margin-left: 8px;
+          padding: 2px 8px;
+          border-radius: 8px;
+          background: rgba(123, 104, 238, 0.25);
+          color: #a5b4fc;
+          font-size: 11px;
+          font-weight: normal;
+          vertical-align: middle;
+        }
+
+        .automation-badge.running {
+          background: rgba(0, 221, 235, 0.2);
+          color: #00ddeb;
+        }
+
+        .automation-row {
+          display: flex;
+          gap: 8px;
+          flex-wrap: wrap;
+          align-items: center;
+          margin-bottom: 10px;
+          padding: 10px 12px;
+          background: rgba(255, 255, 255, 0.04);
+          border-radius: 12px;
+          font-size: 13px;
+          color: #a5b4fc;
+        }
+
+        .automation-row input,
+        .automation-row select {
+          flex: 1;
+          min-width: 90px;
+          padding: 8px 12px;
+          background: rgba(255, 255, 255, 0.08);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 10px;
+          color: #e0e7ff;
+          font-family: inherit;
+          font-size: 13px;
+        }
+
+        .automation-row select option {
+          background: #1e2749;
+        }
+
+        .automation-row .weekday-picker {
+          margin-bottom: 0;
+        }
+
+        .automation-remove,
+        .automation-add button {
+          padding: 6px 12px;
+          background: rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 8px;
+          color: #a5b4fc;
+          font-family: inherit;
+          cursor: pointer;
+        }
+
+        .automation-remove {
+          margin-left: auto;
+        }
+
+        .automation-add {
+          display: flex;
+          gap: 8px;
+          flex-wrap: wrap;
+          margin-bottom: 10px;
+        }
+
+        .automation-add button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .automation-log {
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          font-size: 13px;
+          color: #e0e7ff;
+        }
+
+        .automation-log li {
+          display: flex;
+          gap: 10px;
+          flex-wrap: wrap;
+        }
+
+        .automation-log time {
+          color: #a5b4fc;
+        }
+
+        .automation-log li.failed span {
+          color: #ff6f91;
+        }
+
+        .queue-button.stalled {
+          border-color: rgba(255, 51, 102, 0.6);
+          color: #ff6f91;
+        }
+
+        .queue-hint {
+          font-size: 14px;
+          color: #a5b4fc;
+          text-align: center;
+          margin-bottom: 20px;
+        }
+
+        .schedule-item.queue-failed {
+          border: 1px solid rgba(255, 51, 102, 0.4);
+        }
+
+        .queue-error {
+          color: #ff6f91;
+        }
+
+        .provision-modes {
+          display: flex;
+          gap: 8px;
+          margin-bottom: 20px;
+        }
+
+        .provision-modes button {
+          flex: 1;
+          padding: 10px;
+          background: rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 10px;
+          color: #a5b4fc;
+          cursor: pointer;
+        }
+
+        .provision-modes button.active {
+          background: rgba(100, 150, 255, 0.2);
+          color: #e0e7ff;
+        }
+
+        .provision-modes button:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+
+        .provision-config {
+          display: flex;
+          gap: 20px;
+          align-items: flex-start;
+          flex-wrap: wrap;
+          margin-bottom: 20px;
+        }
+
+        .provision-config pre {
+          flex: 1;
+          min-width: 240px;
+          max-height: 240px;
+          overflow: auto;
+          margin: 0;
+          padding: 12px;
+          background: rgba(0, 0, 0, 0.3);
+          border-radius: 8px;
+          color: #818cf8;
+          font-size: 12px;
+        }
+
+        .qr-code {
+          flex-shrink: 0;
+          border-radius: 8px;
+        }
+
+        .provision-waiting {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          justify-content: center;
+          margin-bottom: 20px;
+          color: #e0e7ff;
+        }
+
+        .firmware-heading {
+          margin: 10px 0 12px;
+          font-size: 15px;
+          color: #a5b4fc;
+          text-transform: uppercase;
+          letter-spacing: 1px;
+        }
+
+        .firmware-upload {
+          display: flex;
+          gap: 10px;
+          flex-wrap: wrap;
+          align-items: center;
+          margin-bottom: 15px;
+        }
+
+        .firmware-upload input,
+        .firmware-upload select {
+          flex: 1;
+          min-width: 140px;
+          padding: 10px 14px;
+          background: rgba(255, 255, 255, 0.08);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 10px;
+          color: #e0e7ff;
+          font-size: 14px;
+        }
+
+        .firmware-upload select option {
+          background: #1e2749;
+        }
+
+        .firmware-upload .confirm-button {
+          padding: 10px 24px;
+        }
+
+        .firmware-picker {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+          gap: 6px;
+          max-height: 160px;
+          overflow-y: auto;
+          margin-bottom: 15px;
+          font-size: 14px;
+          color: #e0e7ff;
+        }
+
+        .firmware-picker span {
+          color: #a5b4fc;
+        }
+
+        .rollout-item {
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+          padding: 15px 20px;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 15px;
+          border-left: 3px solid #00ddeb;
+        }
+
+        .rollout-item.halted {
+          border-left-color: #ff3366;
+        }
+
+        .rollout-item.completed,
+        .rollout-item.aborted {
+          opacity: 0.7;
+          border-left-color: transparent;
+        }
+
+        .rollout-devices {
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          font-size: 13px;
+          color: #e0e7ff;
+        }
+
+        .rollout-devices li {
+          display: grid;
+          grid-template-columns: 1fr 120px 1fr;
+          gap: 10px;
+          align-items: center;
+        }
+
+        .rollout-devices progress {
+          width: 100%;
+        }
+
+        .rollout-devices .ota-failed {
+          color: #ff6f91;
+        }
+
+        .rollout-devices .ota-done {
+          color: #00ff9d;
+        }
+
+        .undo-toast {
+          position: fixed;
+          bottom: 30px;
+          left: 50%;
+          transform: translateX(-50%);
+          z-index: 1100;
+          display: flex;
+          align-items: center;
+          gap: 15px;
+          padding: 14px 20px;
+          background: rgba(30, 27, 75, 0.95);
+          border: 1px solid rgba(165, 180, 252, 0.3);
+          border-radius: 15px;
+          color: #e0e7ff;
+          box-shadow: 0 10px 30px rgba(0, 0, 0, 0.4);
+        }
+
+        .undo-button {
+          padding: 8px 16px;
+          background: linear-gradient(45deg, #ff3366, #ff6f91);
+          color: #fff;
+          border: none;
+          border-radius: 10px;
+          cursor: pointer;
+        }
+
+        .undo-dismiss {
+          background: none;
+          border: none;
+          color: #a5b4fc;
+          font-size: 20px;
+          cursor: pointer;
+        }
+
+        .user-badge {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          font-size: 13px;
+          color: #a5b4fc;
         }
 
-        .light-toggle.off {
+        .user-badge button {
+          padding: 6px 12px;
+          font-size: 12px;
+          background: transparent;
+          color: #ff6f91;
+          border: 1px solid rgba(255, 51, 102, 0.5);
+          border-radius: 8px;
+          cursor: pointer;
+        }
+
+        .login-card {
+          position: relative;
+          max-width: 420px;
+          margin: 10vh auto 0;
+          padding: 40px;
+          display: flex;
+          flex-direction: column;
+          gap: 15px;
+          background: rgba(25, 30, 55, 0.95);
+          border: 1px solid rgba(123, 104, 238, 0.3);
+          border-radius: 25px;
+          box-shadow: 0 20px 60px rgba(0, 0, 0, 0.7);
+          animation: slideUp 0.4s ease;
+        }
+
+        .login-card h1 {
+          font-size: 24px;
+          color: #7b68ee;
+          text-align: center;
+          margin-bottom: 10px;
+        }
+
+        .activity-modal {
+          max-width: 900px;
+        }
+
+        .activity-filters {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 10px;
+          margin-bottom: 20px;
+        }
+
+        .activity-filters select,
+        .activity-filters input {
+          flex: 1;
+          min-width: 140px;
+          padding: 10px 12px;
+          background: rgba(255, 255, 255, 0.08);
+          border: 1px solid rgba(123, 104, 238, 0.3);
+          border-radius: 10px;
+          color: #e0e7ff;
+          font-family: inherit;
+        }
+
+        .activity-list {
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .activity-item {
+          display: flex;
+          gap: 15px;
+          padding: 12px 16px;
           background: rgba(255, 255, 255, 0.05);
+          border-left: 3px solid #7b68ee;
+          border-radius: 10px;
+          font-size: 13px;
+        }
+
+        .activity-item.state,
+        .activity-item.discovered,
+        .activity-item.restore {
+          border-left-color: #00ddeb;
+        }
+
+        .activity-item.delete,
+        .activity-item.removed,
+        .activity-item.failed {
+          border-left-color: #ff3366;
+        }
+
+        .activity-item time {
+          flex-shrink: 0;
+          width: 170px;
+          color: #818cf8;
+        }
+
+        .activity-body {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          color: #a5b4fc;
+        }
+
+        .activity-body strong {
           color: #e0e7ff;
         }
 
-        .light-icon {
-          width: 40px;
-          height: 40px;
-          pointer-events: none;
-          transition: transform 0.3s ease;
+        .diagnostics-button {
+          border-color: rgba(255, 200, 0, 0.5);
+          color: #ffd84d;
         }
 
-        .light-toggle:hover .light-icon {
-          transform: scale(1.1);
+        .diagnostics-list {
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
         }
 
-        .rgb-toggle {
-          position: relative;
-          padding: 16px 40px;
-          border: none;
-          border-radius: 15px;
+        .diagnostics-item {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          padding: 15px 20px;
           background: rgba(255, 255, 255, 0.05);
+          border-radius: 15px;
+          font-size: 13px;
           color: #e0e7ff;
-          font-size: 18px;
-          font-weight: 600;
-          cursor: pointer;
-          transition: all 0.5s ease;
-          box-shadow: 0 8px 20px rgba(0, 0, 0, 0.3);
-          z-index: 2;
-          overflow: hidden;
         }
 
-        .rgb-toggle::after {
-          content: '';
-          position: absolute;
-          top: -50%;
-          left: -50%;
-          width: 200%;
-          height: 200%;
-          background: radial-gradient(circle, rgba(255, 255, 255, 0.2) 0%, transparent 70%);
-          opacity: 0;
-          transition: opacity 0.5s ease;
+        .diagnostics-meta {
+          display: flex;
+          justify-content: space-between;
+          color: #a5b4fc;
         }
 
-        .rgb-toggle:hover::after {
-          opacity: 1;
+        .diagnostics-source {
+          text-transform: uppercase;
+          letter-spacing: 1px;
         }
 
-        .rgb-toggle.active {
-          background: linear-gradient(45deg, #ff6f91, #00ddeb, #7b68ee);
-          color: #fff;
-          box-shadow: 0 0 35px rgba(123, 104, 238, 0.9);
-          animation: rgbPulse 2s infinite;
+        .diagnostics-item pre {
+          white-space: pre-wrap;
+          word-break: break-all;
+          max-height: 120px;
+          overflow-y: auto;
+          padding: 10px;
+          background: rgba(0, 0, 0, 0.3);
+          border-radius: 8px;
+          color: #818cf8;
         }
 
-        .rgb-toggle:hover {
-          transform: translateY(-6px);
-          box-shadow: 0 12px 25px rgba(0, 0, 0, 0.4);
-          background: rgba(255, 255, 255, 0.15);
+        .scene-result {
+          margin-bottom: 25px;
+          padding: 20px;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 15px;
         }
 
-        .rgb-indicator {
-          margin-right: 12px;
-          font-size: 20px;
-          transition: all 0.4s ease;
+        .scene-result h3 {
+          margin-top: 0;
         }
 
-        .rgb-toggle.active .rgb-indicator {
-          text-shadow: 0 0 15px rgba(255, 255, 255, 0.9);
+        .scene-result ul {
+          list-style: none;
+          margin-bottom: 15px;
         }
 
-        .rgb-label {
-          font-weight: 600;
+        .scene-result-item {
+          display: flex;
+          justify-content: space-between;
+          padding: 6px 0;
+          font-size: 14px;
+          border-bottom: 1px solid rgba(100, 150, 255, 0.1);
         }
 
-        .delete-button {
-          padding: 16px 40px;
-          background: linear-gradient(45deg, #ff3366, #ff6f91);
-          border: none;
-          border-radius: 15px;
-          color: #fff;
-          font-size: 18px;
-          font-weight: 600;
-          cursor: pointer;
-          transition: all 0.4s ease;
-          box-shadow: 0 4px 15px rgba(255, 51, 102, 0.5);
-          position: relative;
-          z-index: 2;
-          overflow: hidden;
+        .scene-result-item.failed {
+          color: #ff6f91;
         }
 
-        .delete-button::after {
-          content: '';
-          position: absolute;
-          top: -50%;
-          left: -50%;
-          width: 200%;
-          height: 200%;
-          background: radial-gradient(circle, rgba(255, 255, 255, 0.2) 0%, transparent 70%);
-          opacity: 0;
-          transition: opacity 0.5s ease;
+        .scene-result-item.reached {
+          color: #00ff9d;
         }
 
-        .delete-button:hover::after {
-          opacity: 1;
+        .scene-table {
+          width: 100%;
+          border-collapse: collapse;
+          margin-bottom: 20px;
+          font-size: 13px;
         }
 
-        .delete-button:hover {
-          transform: translateY(-4px);
-          box-shadow: 0 6px 20px rgba(255, 51, 102, 0.8);
-          background: linear-gradient(45deg, #ff1a4d, #ff4d77);
+        .scene-table th {
+          text-align: left;
+          color: #a5b4fc;
+          padding: 8px;
         }
 
-        .no-devices {
-          grid-column: 1 / -1;
-          text-align: center;
-          padding: 80px;
-          background: rgba(20, 25, 45, 0.9);
-          border-radius: 25px;
-          box-shadow: 0 15px 40px rgba(0, 0, 0, 0.5);
-          color: #a5b4fc;
-          font-size: 24px;
-          font-weight: 500;
-          backdrop-filter: blur(12px);
-          position: relative;
-          z-index: 1;
+        .scene-table td {
+          padding: 6px 8px;
         }
 
-        .no-devices button {
-          margin-top: 30px;
-          padding: 16px 35px;
-          background: linear-gradient(45deg, #7b68ee, #00ddeb);
-          color: white;
-          border: none;
-          border-radius: 15px;
-          cursor: pointer;
-          font-size: 18px;
-          font-weight: 600;
-          transition: all 0.5s ease;
-          box-shadow: 0 8px 20px rgba(0, 0, 0, 0.3);
+        .scene-table tr.excluded {
+          opacity: 0.5;
         }
 
-        .no-devices button:hover {
-          transform: scale(1.1) rotate(3deg);
-          box-shadow: 0 12px 25px rgba(123, 104, 238, 0.6);
-          background: linear-gradient(45deg, #6b5bd6, #00c4d3);
+        .scene-table .checkbox-field {
+          margin-bottom: 0;
         }
 
-        .modal-overlay {
-          position: fixed;
-          top: 0;
-          left: 0;
-          right: 0;
-          bottom: 0;
-          background: rgba(20, 25, 45, 0.9);
-          backdrop-filter: blur(8px);
+        .scene-table select,
+        .scene-table input[type="number"],
+        .scene-name-input {
+          padding: 6px 10px;
+          background: rgba(255, 255, 255, 0.08);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 8px;
+          color: #e0e7ff;
+          font-family: inherit;
+          width: 100%;
+        }
+
+        .scene-capture {
           display: flex;
-          justify-content: center;
-          align-items: center;
-          z-index: 1000;
-          animation: fadeIn 0.3s ease;
+          gap: 12px;
+          margin-bottom: 20px;
         }
 
-        .delete-confirm-modal {
-          background: rgba(25, 30, 55, 0.95);
-          padding: 40px;
-          border-radius: 25px;
-          box-shadow: 0 20px 60px rgba(0, 0, 0, 0.7), 
-                     inset 0 0 15px rgba(255, 255, 255, 0.05);
-          border: 1px solid rgba(255, 51, 102, 0.3);
-          width: 90%;
-          max-width: 500px;
-          text-align: center;
-          position: relative;
-          overflow: hidden;
-          animation: slideUp 0.4s ease;
+        .scene-capture .confirm-button {
+          padding: 10px 24px;
         }
 
-        .delete-confirm-modal::before {
-          content: '';
-          position: absolute;
-          top: -50%;
-          left: -50%;
-          width: 200%;
-          height: 200%;
-          background: radial-gradient(circle, rgba(255, 51, 102, 0.1) 0%, transparent 70%);
-          animation: rotateGlow 15s infinite linear;
-          pointer-events: none;
+        .weekday-picker {
+          display: flex;
+          gap: 6px;
+          margin-bottom: 18px;
+          flex-wrap: wrap;
         }
 
-        .delete-confirm-modal h2 {
-          font-size: 28px;
-          font-weight: 700;
-          color: #ff3366;
-          margin-bottom: 25px;
-          text-shadow: 0 0 15px rgba(255, 51, 102, 0.5);
+        .weekday-picker button {
+          padding: 8px 12px;
+          background: rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(100, 150, 255, 0.3);
+          border-radius: 8px;
+          color: #a5b4fc;
+          font-family: inherit;
+          cursor: pointer;
         }
 
-        .delete-confirm-modal p {
-          font-size: 18px;
-          color: #e0e7ff;
-          margin-bottom: 35px;
-          line-height: 1.5;
+        .weekday-picker button.active {
+          background: #7b68ee;
+          color: #fff;
+        }
+
+        .checkbox-field {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          font-size: 13px;
+          color: #a5b4fc;
+          margin-bottom: 18px;
         }
 
         .modal-buttons {
@@ -713,12 +2728,6 @@ export default function SmartHomeDashboard() {
           100% { box-shadow: 0 0 10px #ff3366; }
         }
 
-        @keyframes glowError {
-          0% { box-shadow: 0 10px 30px rgba(255, 77, 77, 0.5); }
-          50% { box-shadow: 0 10px 40px rgba(255, 77, 77, 0.8); }
-          100% { box-shadow: 0 10px 30px rgba(255, 77, 77, 0.5); }
-        }
-
         @keyframes rotateGlow {
           0% { transform: rotate(0deg); }
           100% { transform: rotate(360deg); }
@@ -736,6 +2745,11 @@ export default function SmartHomeDashboard() {
           100% { box-shadow: 0 0 15px #00ddeb, 0 0 25px #7b68ee; }
         }
 
+        @keyframes pulseBadge {
+          from { opacity: 0.6; }
+          to { opacity: 1; }
+        }
+
         @keyframes fadeIn {
           from { opacity: 0; }
           to { opacity: 1; }
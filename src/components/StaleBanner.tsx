@@ -0,0 +1,18 @@
+import { formatAge } from "../utils/time";
+
+interface StaleBannerProps {
+  snapshotAt: number;
+  now: number;
+  onRetry: () => void;
+}
+
+// Shown while the device list is the service worker's saved copy; the dashboard is read-only meanwhile
+export const StaleBanner = ({ snapshotAt, now, onRetry }: StaleBannerProps) => (
+  <div className="stale-banner" role="status">
+    <span>
+      📴 The server can't be reached. Showing the device list saved {formatAge(now - snapshotAt)} (
+      {new Date(snapshotAt).toLocaleString()}). Controls are disabled until the connection is back.
+    </span>
+    <button onClick={onRetry}>Retry</button>
+  </div>
+);
@@ -0,0 +1,60 @@
+import { formatReading, metricInfo, TelemetryPoint } from "../utils/telemetry";
+
+interface TelemetryChartProps {
+  metric: string;
+  points: TelemetryPoint[];
+  windowMs: number;
+  now: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 30;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+export const TelemetryChart = ({ metric, points, windowMs, now }: TelemetryChartProps) => {
+  const { label } = metricInfo(metric);
+  const start = now - windowMs;
+
+  if (points.length === 0) {
+    return (
+      <div className="telemetry-chart empty">
+        <h4>{label}</h4>
+        <p>No data in this window</p>
+      </div>
+    );
+  }
+
+  const values = points.map((point) => point.v);
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+  if (min === max) {
+    min -= 1;
+    max += 1;
+  }
+
+  const x = (t: number) => PADDING + ((t - start) / windowMs) * (WIDTH - PADDING * 2);
+  const y = (v: number) => HEIGHT - PADDING - ((v - min) / (max - min)) * (HEIGHT - PADDING * 2);
+  const path = points.map((point) => `${x(point.t).toFixed(1)},${y(point.v).toFixed(1)}`).join(" ");
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="telemetry-chart">
+      <h4>
+        {label} <span className="telemetry-latest">{formatReading(metric, latest.v)}</span>
+      </h4>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" role="img" aria-label={`${label} chart`}>
+        <line className="axis" x1={PADDING} y1={HEIGHT - PADDING} x2={WIDTH - PADDING} y2={HEIGHT - PADDING} />
+        <line className="axis" x1={PADDING} y1={PADDING} x2={PADDING} y2={HEIGHT - PADDING} />
+        <text className="axis-label" x={2} y={PADDING + 4}>{formatReading(metric, max)}</text>
+        <text className="axis-label" x={2} y={HEIGHT - PADDING}>{formatReading(metric, min)}</text>
+        <text className="axis-label" x={PADDING} y={HEIGHT - 8}>{formatTime(start)}</text>
+        <text className="axis-label" x={WIDTH - PADDING} y={HEIGHT - 8} textAnchor="end">{formatTime(now)}</text>
+        <polyline className="series" points={path} />
+        <circle className="series-head" cx={x(latest.t)} cy={y(latest.v)} r={4} />
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { EspDevice } from "../types/types";
+import { useTelemetryVersion } from "../hooks/useTelemetry";
+import { getMetrics, getSeries } from "../store/telemetry";
+import { TelemetryChart } from "./TelemetryChart";
+
+interface TelemetryPanelProps {
+  device: EspDevice;
+  onClose: () => void;
+}
+
+const TIME_WINDOWS = [
+  { label: "5 min", ms: 5 * 60 * 1000 },
+  { label: "15 min", ms: 15 * 60 * 1000 },
+  { label: "1 h", ms: 60 * 60 * 1000 },
+  { label: "6 h", ms: 6 * 60 * 60 * 1000 },
+  { label: "24 h", ms: 24 * 60 * 60 * 1000 },
+];
+
+const TICK_MS = 5000;
+
+export const TelemetryPanel = ({ device, onClose }: TelemetryPanelProps) => {
+  const [windowMs, setWindowMs] = useState(TIME_WINDOWS[1].ms);
+  const [now, setNow] = useState(Date.now());
+  const version = useTelemetryVersion();
+
+  // Slide the window even when no new samples arrive
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    setNow(Date.now());
+  }, [version]);
+
+  const metrics = getMetrics(device.deviceId);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="telemetry-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="telemetry-header">
+          <h2>{device.name} Telemetry</h2>
+          <div className="telemetry-windows">
+            {TIME_WINDOWS.map((option) => (
+              <button
+                key={option.ms}
+                className={option.ms === windowMs ? "active" : ""}
+                onClick={() => setWindowMs(option.ms)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {metrics.length > 0 ? (
+          metrics.map((metric) => (
+            <TelemetryChart
+              key={metric}
+              metric={metric}
+              points={getSeries(device.deviceId, metric, windowMs)}
+              windowMs={windowMs}
+              now={now}
+            />
+          ))
+        ) : (
+          <p className="sensor-empty">This device has not reported any telemetry yet</p>
+        )}
+
+        <div className="modal-buttons">
+          <button className="cancel-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import { NotificationToast } from "../types/types";
+import { NOTIFICATION_EVENT_ICONS, NOTIFICATION_EVENT_LABELS } from "../utils/notifications";
+
+interface ToastStackProps {
+  toasts: NotificationToast[];
+  onDismiss: (id: string) => void;
+  onDismissAll: () => void;
+}
+
+export const ToastStack = ({ toasts, onDismiss, onDismissAll }: ToastStackProps) =>
+  toasts.length === 0 ? null : (
+    <div className="toast-stack" role="log" aria-live="polite">
+      {toasts.length > 1 && (
+        <button className="toast-dismiss-all" onClick={onDismissAll}>
+          Dismiss all
+        </button>
+      )}
+      {toasts.map((toast) => (
+        <div key={toast.id} className={`toast ${toast.event}`}>
+          <span className="toast-icon">{NOTIFICATION_EVENT_ICONS[toast.event]}</span>
+          <div className="toast-body">
+            <small>
+              {NOTIFICATION_EVENT_LABELS[toast.event]} · {new Date(toast.createdAt).toLocaleTimeString()}
+              {toast.count > 1 && ` · ×${toast.count}`}
+            </small>
+            <span>{toast.message}</span>
+          </div>
+          <button className="toast-close" onClick={() => onDismiss(toast.id)} aria-label="Dismiss">
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
@@ -0,0 +1,61 @@
+import { TrashedDevice } from "../types/types";
+import { getTransport } from "../api/transport";
+import { formatAge, formatRemaining } from "../utils/time";
+
+interface TrashPanelProps {
+  entries: TrashedDevice[];
+  isConnected: boolean;
+  now: number;
+  onRestore: (deviceId: string) => void;
+  onPurge: (deviceId: string) => void;
+  onClose: () => void;
+}
+
+export const TrashPanel = ({ entries, isConnected, now, onRestore, onPurge, onClose }: TrashPanelProps) => (
+  <div className="modal-overlay">
+    <div className="schedule-modal">
+      <h2>Recently Removed</h2>
+      <p className="queue-hint">
+        {!isConnected
+          ? "Offline. Deletions are sent once the connection is back."
+          : getTransport().kind === "broker"
+          ? "The retained state of each device is cleared from the broker when its countdown ends."
+          : "Devices are deleted from the server when their countdown ends."}
+      </p>
+
+      {entries.length > 0 ? (
+        <ul className="schedule-list">
+          {entries.map(({ device, deletedAt, deletedBy, purgeAt }) => (
+            <li key={device.deviceId} className="schedule-item">
+              <div className="schedule-info">
+                <strong>{device.name}</strong>
+                <span>
+                  Removed {formatAge(now - deletedAt)} by {deletedBy}
+                </span>
+                <span>
+                  {purgeAt > now ? `Deleted permanently in ${formatRemaining(purgeAt - now)}` : "Deleting…"}
+                </span>
+              </div>
+              <div className="schedule-actions">
+                <button className="confirm-button" onClick={() => onRestore(device.deviceId)}>
+                  Restore
+                </button>
+                <button className="cancel-button" onClick={() => onPurge(device.deviceId)} disabled={!isConnected}>
+                  Delete Now
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="sensor-empty">Trash is empty</p>
+      )}
+
+      <div className="modal-buttons">
+        <button className="cancel-button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  </div>
+);
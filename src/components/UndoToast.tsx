@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+
+interface UndoToastProps {
+  message: string;
+  // The toast hides itself at this time
+  expiresAt: number;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export const UndoToast = ({ message, expiresAt, onUndo, onDismiss }: UndoToastProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (now >= expiresAt) {
+      onDismiss();
+      return;
+    }
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(1000, expiresAt - now));
+    return () => clearTimeout(timer);
+  }, [now, expiresAt, onDismiss]);
+
+  return (
+    <div className="undo-toast" role="status">
+      <span>{message}</span>
+      <button className="undo-button" onClick={onUndo}>
+        Undo ({Math.max(0, Math.ceil((expiresAt - now) / 1000))}s)
+      </button>
+      <button className="undo-dismiss" onClick={onDismiss} aria-label="Dismiss">
+        ×
+      </button>
+    </div>
+  );
+};
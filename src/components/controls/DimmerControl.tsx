@@ -0,0 +1,31 @@
+import { CapabilityControlProps } from "../../capabilities/registry";
+import { useDeviceSetting } from "../../hooks/useDeviceSetting";
+import { clampBrightness } from "../../utils/color";
+
+export const DimmerControl = (props: CapabilityControlProps) => {
+  const { device } = props;
+  const { applySetting, endSettingChange } = useDeviceSetting(props);
+
+  const handleBrightnessChange = (value: number) => {
+    const brightness = clampBrightness(value);
+    applySetting({ brightness }, { brightness }, "Failed to set brightness");
+  };
+
+  const brightness = device.brightness ?? 100;
+
+  return (
+    <label className="brightness-control">
+      <span>Brightness {brightness}%</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={brightness}
+        onChange={(e) => handleBrightnessChange(Number(e.target.value))}
+        onPointerUp={endSettingChange}
+        onKeyUp={endSettingChange}
+        onBlur={endSettingChange}
+      />
+    </label>
+  );
+};
@@ -0,0 +1,40 @@
+import { CapabilityControlProps } from "../../capabilities/registry";
+import { dispatchCommand } from "../../utils/deviceCommands";
+
+export const RelayArrayControl = (props: CapabilityControlProps) => {
+  const { device } = props;
+  const relays = device.relays ?? [];
+
+  const handleToggleRelay = (index: number) => {
+    const nextRelays = relays.map((on, i) => (i === index ? !on : on));
+
+    dispatchCommand(props, {
+      device,
+      attribute: `relay:${index}`,
+      label: `Relay ${index + 1} ${nextRelays[index] ? "on" : "off"}`,
+      expected: { relays: nextRelays },
+      previous: { relays },
+      messages: [JSON.stringify({ relay: index, on: nextRelays[index] })],
+      failureMessage: `Failed to toggle relay ${index + 1}`,
+    });
+  };
+
+  if (relays.length === 0) {
+    return <span className="sensor-empty">No relays reported</span>;
+  }
+
+  return (
+    <div className="relay-array">
+      {relays.map((on, index) => (
+        <button
+          key={index}
+          type="button"
+          className={`relay-toggle ${on ? "on" : ""}`}
+          onClick={() => handleToggleRelay(index)}
+        >
+          R{index + 1}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import { RgbColor } from "../../types/types";
+import { CapabilityControlProps } from "../../capabilities/registry";
+import { useDeviceSetting } from "../../hooks/useDeviceSetting";
+import { rgbToHex } from "../../utils/color";
+import { setRgb } from "../../utils/deviceCommands";
+import { ColorWheel } from "../ColorWheel";
+
+const DEFAULT_COLOR: RgbColor = { r: 255, g: 255, b: 255 };
+
+export const RgbControl = (props: CapabilityControlProps) => {
+  const { device } = props;
+  const { applySetting, endSettingChange } = useDeviceSetting(props);
+
+  const handleToggleRGB = () => {
+    setRgb(props, device, !device.rgbMode);
+  };
+
+  const handleColorChange = (color: RgbColor) => {
+    applySetting({ color }, { color }, "Failed to set color");
+  };
+
+  const color = device.color ?? DEFAULT_COLOR;
+
+  return (
+    <>
+      <button
+        type="button"
+        className={`rgb-toggle ${device.rgbMode ? "active" : ""}`}
+        onClick={handleToggleRGB}
+      >
+        <span className="rgb-indicator">{device.rgbMode ? "🌈 On" : "⚫ Off"}</span>
+        <span className="rgb-label">RGB Mode</span>
+      </button>
+      {device.rgbMode && (
+        <div className="color-control">
+          <ColorWheel
+            color={color}
+            disabled={props.disabled}
+            onChange={handleColorChange}
+            onChangeEnd={endSettingChange}
+          />
+          <span className="color-swatch" style={{ background: rgbToHex(color) }}>
+            {rgbToHex(color)}
+          </span>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,21 @@
+import { CapabilityControlProps } from "../../capabilities/registry";
+import { formatReading, metricInfo } from "../../utils/telemetry";
+
+export const SensorControl = ({ device }: CapabilityControlProps) => {
+  const readings = Object.entries(device.readings ?? {});
+
+  return (
+    <div className="sensor-readings">
+      {readings.length > 0 ? (
+        readings.map(([metric, value]) => (
+          <div key={metric} className="sensor-reading">
+            <span className="sensor-label">{metricInfo(metric).label}</span>
+            <span className="sensor-value">{formatReading(metric, value)}</span>
+          </div>
+        ))
+      ) : (
+        <span className="sensor-empty">No readings yet</span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import { CapabilityControlProps } from "../../capabilities/registry";
+import { setLight } from "../../utils/deviceCommands";
+
+export const SwitchControl = (props: CapabilityControlProps) => {
+  const { device } = props;
+
+  const handleToggleLight = () => {
+    setLight(props, device, !device.lightOn);
+  };
+
+  return (
+    <button
+      type="button"
+      className={`light-toggle ${device.lightOn ? "on" : "off"}`}
+      onClick={handleToggleLight}
+    >
+      <img
+        src={device.lightOn ? "/images/light_on.png" : "/images/light_off.png"}
+        alt={`Light ${device.name}`}
+        className="light-icon"
+      />
+      Light {device.lightOn ? "On" : "Off"}
+    </button>
+  );
+};
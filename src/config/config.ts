@@ -0,0 +1,206 @@
+export type TransportKind = "bridge" | "broker";
+
+export interface AppConfig {
+  transport: TransportKind;
+  apiBaseUrl: string;
+  wsUrl: string;
+  brokerUrl: string;
+  brokerUsername?: string;
+  brokerPassword?: string;
+  // MQTT topic filter for device state messages, "+" marks the device id segment
+  stateTopic: string;
+  // Used when a state message does not carry its own commandTopic
+  commandTopicTemplate: string;
+  // How long a command may stay unacknowledged before it is retried or rolled back
+  commandTimeoutMs: number;
+  commandRetries: number;
+  reconnectBaseMs: number;
+  reconnectMaxMs: number;
+  // 0 keeps retrying forever
+  reconnectMaxAttempts: number;
+  // Silence after which a device is shown as stale, then offline
+  presenceStaleMs: number;
+  presenceOfflineMs: number;
+  // How long a deleted device stays in the trash before the server delete is sent
+  deleteGraceMs: number;
+  // Broker address written into the config of newly provisioned devices
+  deviceBrokerUrl: string;
+  // Location for sunrise/sunset in automations; NaN when not set
+  latitude: number;
+  longitude: number;
+  // Base URL of the auth service; empty disables login and grants every visitor full access
+  authUrl: string;
+}
+
+export type ConfigErrors = Partial<Record<keyof AppConfig, string>>;
+
+const STORAGE_KEY = "dashboardConfig";
+
+const env = process.env;
+
+const parseTransport = (value: string | undefined): TransportKind =>
+  value === "broker" ? "broker" : "bridge";
+
+// Unlike parseNumber, empty means "not set" rather than the default (saved overrides store NaN as null)
+const parseCoordinate = (value: unknown): number =>
+  value === undefined || value === null || value === "" ? NaN : Number(value);
+
+const parseNumber = (value: unknown, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// Build-time defaults, overridden by public/config.json and then by the settings screen
+const envConfig: AppConfig = {
+  transport: parseTransport(env.REACT_APP_TRANSPORT),
+  apiBaseUrl: env.REACT_APP_API_BASE_URL || "http://localhost:8080/api/mqtt",
+  wsUrl: env.REACT_APP_WS_URL || "ws://localhost:8080/mqtt",
+  brokerUrl: env.REACT_APP_MQTT_BROKER_URL || "ws://localhost:9001",
+  brokerUsername: env.REACT_APP_MQTT_USERNAME || undefined,
+  brokerPassword: env.REACT_APP_MQTT_PASSWORD || undefined,
+  stateTopic: env.REACT_APP_MQTT_STATE_TOPIC || "esp/+/state",
+  commandTopicTemplate: env.REACT_APP_MQTT_COMMAND_TOPIC || "esp/{deviceId}/command",
+  commandTimeoutMs: parseNumber(env.REACT_APP_COMMAND_TIMEOUT_MS, 5000),
+  commandRetries: parseNumber(env.REACT_APP_COMMAND_RETRIES, 1),
+  reconnectBaseMs: parseNumber(env.REACT_APP_RECONNECT_BASE_MS, 1000),
+  reconnectMaxMs: parseNumber(env.REACT_APP_RECONNECT_MAX_MS, 30000),
+  reconnectMaxAttempts: parseNumber(env.REACT_APP_RECONNECT_MAX_ATTEMPTS, 0),
+  presenceStaleMs: parseNumber(env.REACT_APP_PRESENCE_STALE_MS, 60000),
+  presenceOfflineMs: parseNumber(env.REACT_APP_PRESENCE_OFFLINE_MS, 180000),
+  deleteGraceMs: parseNumber(env.REACT_APP_DELETE_GRACE_MS, 300000),
+  deviceBrokerUrl: env.REACT_APP_DEVICE_BROKER_URL || "mqtt://localhost:1883",
+  latitude: parseCoordinate(env.REACT_APP_LATITUDE),
+  longitude: parseCoordinate(env.REACT_APP_LONGITUDE),
+  authUrl: env.REACT_APP_AUTH_URL || "",
+};
+
+let runtimeConfig: Partial<AppConfig> = {};
+let currentConfig: AppConfig = envConfig;
+
+const readOverrides = (): Partial<AppConfig> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+const rebuild = () => {
+  currentConfig = { ...envConfig, ...runtimeConfig, ...readOverrides() };
+  currentConfig.transport = parseTransport(currentConfig.transport);
+  currentConfig.commandTimeoutMs = parseNumber(currentConfig.commandTimeoutMs, envConfig.commandTimeoutMs);
+  currentConfig.commandRetries = parseNumber(currentConfig.commandRetries, envConfig.commandRetries);
+  currentConfig.reconnectBaseMs = parseNumber(currentConfig.reconnectBaseMs, envConfig.reconnectBaseMs);
+  currentConfig.reconnectMaxMs = parseNumber(currentConfig.reconnectMaxMs, envConfig.reconnectMaxMs);
+  currentConfig.reconnectMaxAttempts = parseNumber(
+    currentConfig.reconnectMaxAttempts,
+    envConfig.reconnectMaxAttempts
+  );
+  currentConfig.presenceStaleMs = parseNumber(currentConfig.presenceStaleMs, envConfig.presenceStaleMs);
+  currentConfig.presenceOfflineMs = parseNumber(currentConfig.presenceOfflineMs, envConfig.presenceOfflineMs);
+  currentConfig.deleteGraceMs = parseNumber(currentConfig.deleteGraceMs, envConfig.deleteGraceMs);
+  currentConfig.latitude = parseCoordinate(currentConfig.latitude);
+  currentConfig.longitude = parseCoordinate(currentConfig.longitude);
+};
+
+rebuild();
+
+export const getConfig = (): AppConfig => currentConfig;
+
+// The config as it would be without any settings-screen overrides
+export const getBaseConfig = (): AppConfig => ({ ...envConfig, ...runtimeConfig });
+
+export const loadConfig = async (): Promise<AppConfig> => {
+  try {
+    const response = await fetch(`${env.PUBLIC_URL}/config.json`, { cache: "no-store" });
+    if (response.ok) {
+      runtimeConfig = await response.json();
+    }
+  } catch (error) {
+    // A missing or malformed config.json just means the build-time values apply
+    console.warn("Runtime config.json not loaded:", error);
+  }
+  rebuild();
+  return currentConfig;
+};
+
+export const saveOverrides = (overrides: Partial<AppConfig>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  rebuild();
+};
+
+export const clearOverrides = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  rebuild();
+};
+
+const checkUrl = (value: string, protocols: string[]): string | undefined => {
+  try {
+    const url = new URL(value);
+    if (!protocols.includes(url.protocol)) {
+      return `Must start with ${protocols.map((p) => `${p}//`).join(" or ")}`;
+    }
+    return undefined;
+  } catch {
+    return "Not a valid URL";
+  }
+};
+
+export const validateConfig = (value: AppConfig): ConfigErrors => {
+  const errors: ConfigErrors = {};
+  const apiError = checkUrl(value.apiBaseUrl, ["http:", "https:"]);
+  if (apiError) errors.apiBaseUrl = apiError;
+  const wsError = checkUrl(value.wsUrl, ["ws:", "wss:"]);
+  if (wsError) errors.wsUrl = wsError;
+  if (!(value.commandTimeoutMs >= 500)) {
+    errors.commandTimeoutMs = "Must be at least 500 ms";
+  }
+  if (!(Number.isInteger(value.commandRetries) && value.commandRetries >= 0)) {
+    errors.commandRetries = "Must be a whole number, 0 or more";
+  }
+  if (!(value.reconnectBaseMs >= 100)) {
+    errors.reconnectBaseMs = "Must be at least 100 ms";
+  }
+  if (!(value.reconnectMaxMs >= value.reconnectBaseMs)) {
+    errors.reconnectMaxMs = "Must not be below the base delay";
+  }
+  if (!(Number.isInteger(value.reconnectMaxAttempts) && value.reconnectMaxAttempts >= 0)) {
+    errors.reconnectMaxAttempts = "Must be a whole number, 0 for unlimited";
+  }
+  if (!(value.presenceStaleMs >= 1000)) {
+    errors.presenceStaleMs = "Must be at least 1000 ms";
+  }
+  if (!(value.presenceOfflineMs > value.presenceStaleMs)) {
+    errors.presenceOfflineMs = "Must be longer than the stale threshold";
+  }
+  if (!(value.deleteGraceMs >= 5000)) {
+    errors.deleteGraceMs = "Must be at least 5000 ms";
+  }
+  if (!Number.isNaN(value.latitude) && !(value.latitude >= -90 && value.latitude <= 90)) {
+    errors.latitude = "Must be between -90 and 90";
+  }
+  if (!Number.isNaN(value.longitude) && !(value.longitude >= -180 && value.longitude <= 180)) {
+    errors.longitude = "Must be between -180 and 180";
+  }
+  if (Number.isNaN(value.latitude) !== Number.isNaN(value.longitude)) {
+    errors[Number.isNaN(value.latitude) ? "latitude" : "longitude"] = "Set both coordinates or neither";
+  }
+  const deviceBrokerError = checkUrl(value.deviceBrokerUrl, ["mqtt:", "mqtts:"]);
+  if (deviceBrokerError) errors.deviceBrokerUrl = deviceBrokerError;
+  if (value.authUrl) {
+    const authError = checkUrl(value.authUrl, ["http:", "https:"]);
+    if (authError) errors.authUrl = authError;
+  }
+  if (value.transport === "broker") {
+    const brokerError = checkUrl(value.brokerUrl, ["ws:", "wss:"]);
+    if (brokerError) errors.brokerUrl = brokerError;
+    if (!value.stateTopic.includes("+")) {
+      errors.stateTopic = "Must contain a + wildcard for the device id";
+    }
+  }
+  return errors;
+};
+
+export const apiUrl = (path: string, baseUrl = currentConfig.apiBaseUrl) =>
+  `${baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
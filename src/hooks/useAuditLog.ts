@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { clearAuditLog, getAuditLog, subscribeAudit } from "../store/auditLog";
+
+export const useAuditLog = () => {
+  const entries = useSyncExternalStore(subscribeAudit, getAuditLog);
+  return { entries, clear: clearAuditLog };
+};
@@ -0,0 +1,24 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { AuthUser, UserRole } from "../types/types";
+import { getSession, isAuthEnabled, login, logout, subscribeAuth } from "../api/auth";
+import { hasPermission, Permission } from "../utils/permissions";
+
+export interface AuthState {
+  enabled: boolean;
+  user: AuthUser | null;
+  // Null until someone logs in; everyone is an admin when login is disabled
+  role: UserRole | null;
+  can: (permission: Permission) => boolean;
+  login: (username: string, password: string) => Promise<unknown>;
+  logout: () => void;
+}
+
+export const useAuth = (): AuthState => {
+  const session = useSyncExternalStore(subscribeAuth, getSession);
+  const enabled = isAuthEnabled();
+  const role = enabled ? session?.user.role ?? null : "admin";
+
+  const can = useCallback((permission: Permission) => role !== null && hasPermission(role, permission), [role]);
+
+  return { enabled, user: enabled ? session?.user ?? null : null, role, can, login, logout };
+};
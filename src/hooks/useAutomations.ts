@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AutomationRule, EspDevice } from "../types/types";
+import { publishMQTTMessage } from "../api/api";
+import { currentActor } from "../api/auth";
+import { recordAudit } from "../store/auditLog";
+import { deviceStore } from "../store/deviceStore";
+import {
+  comparisonStarted,
+  conditionHolds,
+  describeAction,
+  DeviceValue,
+  readValue,
+  reportedValues,
+  sunEventsBetween,
+} from "../utils/automation";
+import { occurrencesBetween } from "../utils/schedule";
+
+const STORAGE_KEY = "dashboardAutomations";
+// Last firing per rule, shared by every open tab so a message seen by all of them fires once
+const CLAIMS_KEY = "dashboardAutomationClaims";
+// Firings of the same rule closer together than this are treated as one event seen by two tabs
+const DUPLICATE_WINDOW_MS = 2000;
+const TICK_MS = 30 * 1000;
+
+const loadRules = (): AutomationRule[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const claimFiring = (ruleId: string, at: number): boolean => {
+  let claims: Record<string, number> = {};
+  try {
+    claims = JSON.parse(localStorage.getItem(CLAIMS_KEY) ?? "{}");
+  } catch {
+    // Start over with a fresh claims map
+  }
+  if (claims[ruleId] !== undefined && Math.abs(claims[ruleId] - at) < DUPLICATE_WINDOW_MS) return false;
+  localStorage.setItem(CLAIMS_KEY, JSON.stringify({ ...claims, [ruleId]: at }));
+  return true;
+};
+
+let ruleCounter = 0;
+const nextRuleId = () => `rule-${Date.now().toString(36)}-${++ruleCounter}`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const logAutomation = (summary: string) =>
+  recordAudit({ kind: "automation", source: "automation", actor: currentActor(), summary });
+
+const deviceName = (deviceId: string) => deviceStore.getDevice(deviceId)?.name ?? deviceId;
+
+export type NewAutomationRule = Omit<AutomationRule, "id" | "createdAt" | "lastFiredAt" | "lastError">;
+
+// Evaluates rules against reported device values and the clock; runs only while `ready`
+export const useAutomations = (ready: boolean, setErrorMessage: (message: string | null) => void) => {
+  const [rules, setRules] = useState<AutomationRule[]>(loadRules);
+  const [running, setRunning] = useState<string[]>([]);
+  const rulesRef = useRef(rules);
+  const readyRef = useRef(ready);
+  const setErrorMessageRef = useRef(setErrorMessage);
+  rulesRef.current = rules;
+  readyRef.current = ready;
+  setErrorMessageRef.current = setErrorMessage;
+  // Last reported value per "deviceId|key", independent of optimistic updates in the store
+  const reportedRef = useRef(new Map<string, DeviceValue>());
+  // A newer firing of the same rule cancels the run in progress, e.g. motion extends a timer
+  const runTokensRef = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  }, [rules]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setRules(loadRules());
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const updateRule = useCallback((id: string, changes: Partial<AutomationRule>) => {
+    setRules((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+  }, []);
+
+  const fire = useCallback(
+    async (rule: AutomationRule, reason: string, at: number) => {
+      if (!rule.enabled || !readyRef.current || !claimFiring(rule.id, at)) return;
+
+      const failed = rule.conditions.find(
+        (condition) => !conditionHolds(condition, deviceStore.getDevice, Date.now())
+      );
+      if (failed) {
+        if (rule.dryRun) logAutomation(`[dry run] Rule "${rule.name}" triggered (${reason}) but its conditions were not met`);
+        return;
+      }
+
+      const steps = rule.actions.map((action) => describeAction(action, deviceName)).join(", then ");
+      if (rule.dryRun) {
+        logAutomation(`[dry run] Rule "${rule.name}" would ${steps} (${reason})`);
+        updateRule(rule.id, { lastFiredAt: at, lastError: undefined });
+        return;
+      }
+
+      logAutomation(`Rule "${rule.name}" fired (${reason})`);
+      updateRule(rule.id, { lastFiredAt: at, lastError: undefined });
+      const token = (runTokensRef.current.get(rule.id) ?? 0) + 1;
+      runTokensRef.current.set(rule.id, token);
+      setRunning((prev) => (prev.includes(rule.id) ? prev : [...prev, rule.id]));
+      // Disabling or deleting the rule, or a newer firing, stops the remaining steps
+      const cancelled = () =>
+        runTokensRef.current.get(rule.id) !== token ||
+        !rulesRef.current.some((r) => r.id === rule.id && r.enabled);
+
+      try {
+        for (const action of rule.actions) {
+          if (cancelled()) return;
+          if (action.kind === "delay") {
+            await sleep(action.seconds * 1000);
+            continue;
+          }
+          const device: EspDevice | undefined = deviceStore.getDevice(action.deviceId);
+          if (!device) throw new Error(`Device ${action.deviceId} no longer exists`);
+          await publishMQTTMessage(action.message, device.commandTopic, {
+            source: "automation",
+            deviceId: device.deviceId,
+            label: `Rule "${rule.name}": ${action.message}`,
+          });
+        }
+      } catch (error) {
+        const message = (error as Error).message;
+        updateRule(rule.id, { lastError: message });
+        setErrorMessageRef.current(`Automation "${rule.name}" failed: ${message}`);
+      } finally {
+        if (runTokensRef.current.get(rule.id) === token) {
+          setRunning((prev) => prev.filter((id) => id !== rule.id));
+        }
+      }
+    },
+    [updateRule]
+  );
+
+  // Called with every reported state or reading, before the store applies it
+  const observe = useCallback(
+    (deviceId: string, values: Record<string, DeviceValue>) => {
+      const reported = reportedRef.current;
+      const now = Date.now();
+      Object.entries(values).forEach(([key, next]) => {
+        const mapKey = `${deviceId}|${key}`;
+        // The first report after loading compares against the last known state
+        const previous = reported.has(mapKey) ? reported.get(mapKey) : readValue(deviceStore.getDevice(deviceId), key);
+        reported.set(mapKey, next);
+
+        rulesRef.current.forEach((rule) => {
+          const trigger = rule.triggers.find(
+            (t) => t.kind === "device" && t.deviceId === deviceId && t.key === key && comparisonStarted(t, previous, next)
+          );
+          if (trigger) fire(rule, `${deviceName(deviceId)} reported ${key.replace(/^reading:/, "")} = ${next}`, now);
+        });
+      });
+    },
+    [fire]
+  );
+
+  const handleState = useCallback(
+    (deviceId: string, state: Partial<EspDevice>) => observe(deviceId, reportedValues(state)),
+    [observe]
+  );
+
+  const handleTelemetry = useCallback(
+    (deviceId: string, readings: Record<string, number>) => observe(deviceId, reportedValues({}, readings)),
+    [observe]
+  );
+
+  // Time-based triggers; missed occurrences while the page was closed are not replayed
+  useEffect(() => {
+    if (!ready) return;
+    let lastTick = Date.now();
+    const interval = setInterval(() => {
+      const now = Date.now();
+      rulesRef.current.forEach((rule) =>
+        rule.triggers.forEach((trigger) => {
+          if (trigger.kind === "device") return;
+          const due =
+            trigger.kind === "sun" ? sunEventsBetween(trigger, lastTick, now) : occurrencesBetween(trigger.rule, lastTick, now);
+          const at = due[due.length - 1];
+          if (at !== undefined) {
+            const label = trigger.kind === "sun" ? trigger.event : "schedule";
+            fire(rule, `${label} at ${new Date(at).toLocaleTimeString()}`, at);
+          }
+        })
+      );
+      lastTick = now;
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [ready, fire]);
+
+  const addRule = useCallback((rule: NewAutomationRule) => {
+    setRules((prev) => [...prev, { ...rule, id: nextRuleId(), createdAt: Date.now() }]);
+  }, []);
+
+  const removeRule = useCallback((id: string) => {
+    setRules((prev) => prev.filter((rule) => rule.id !== id));
+  }, []);
+
+  return { rules, running, addRule, updateRule, removeRule, handleState, handleTelemetry };
+};
@@ -0,0 +1,117 @@
+import { useCallback, useRef, useState } from "react";
+import { BatchAction, BatchItemResult, BatchRun, EspDevice } from "../types/types";
+import { hasCapability } from "../capabilities";
+import { deviceStore } from "../store/deviceStore";
+import { BATCH_CONCURRENCY, runWithConcurrency } from "../utils/batch";
+import { CommandContext, CommandOutcome, setLight, setRgb } from "../utils/deviceCommands";
+
+interface BatchHandlers {
+  moveToTrash: (deviceId: string) => void;
+  assignRoom: (deviceId: string, room: string) => void;
+  isOffline: (deviceId: string) => boolean;
+}
+
+const OUTCOME_RESULTS: Record<CommandOutcome, Pick<BatchItemResult, "status" | "note">> = {
+  confirmed: { status: "done" },
+  pending: { status: "done", note: "Sent, not yet confirmed" },
+  queued: { status: "queued", note: "Sent once the dashboard reconnects" },
+  unchanged: { status: "skipped", note: "Already in that state" },
+  superseded: { status: "skipped", note: "Replaced by a newer command" },
+  failed: { status: "failed" },
+};
+
+// Runs one action over many devices and keeps a per-device result for the summary
+export const useBatch = (commandContext: CommandContext, handlers: BatchHandlers) => {
+  const [run, setRun] = useState<BatchRun | null>(null);
+  const [running, setRunning] = useState(false);
+  const handlersRef = useRef(handlers);
+  const contextRef = useRef(commandContext);
+  handlersRef.current = handlers;
+  contextRef.current = commandContext;
+
+  const setResult = useCallback((deviceId: string, { status, note }: Pick<BatchItemResult, "status" | "note">) => {
+    setRun((prev) =>
+      prev && {
+        ...prev,
+        items: prev.items.map((item) => (item.deviceId === deviceId ? { ...item, status, note } : item)),
+      }
+    );
+  }, []);
+
+  const runItem = useCallback(async (action: BatchAction, deviceId: string) => {
+    const device: EspDevice | undefined = deviceStore.getDevice(deviceId);
+    if (!device) {
+      setResult(deviceId, { status: "failed", note: "Device no longer exists" });
+      return;
+    }
+    if (action.kind === "delete") {
+      handlersRef.current.moveToTrash(deviceId);
+      setResult(deviceId, { status: "done" });
+      return;
+    }
+    if (action.kind === "room") {
+      handlersRef.current.assignRoom(deviceId, action.room);
+      setResult(deviceId, { status: "done" });
+      return;
+    }
+    if (!hasCapability(device, action.kind === "light" ? "switch" : "rgb")) {
+      setResult(deviceId, { status: "skipped", note: "Not supported by this device" });
+      return;
+    }
+    if (handlersRef.current.isOffline(deviceId)) {
+      setResult(deviceId, { status: "skipped", note: "Device is offline" });
+      return;
+    }
+
+    // Failures show up in the summary instead of the error banner, one per device
+    let failure: string | undefined;
+    const context: CommandContext = {
+      ...contextRef.current,
+      source: "batch",
+      setErrorMessage: (message) => {
+        failure = message ?? undefined;
+      },
+    };
+    const outcome = await (action.kind === "light" ? setLight : setRgb)(context, device, action.on);
+    setResult(deviceId, { ...OUTCOME_RESULTS[outcome], ...(outcome === "failed" ? { note: failure } : {}) });
+  }, [setResult]);
+
+  const execute = useCallback(
+    async (action: BatchAction, deviceIds: string[]) => {
+      setRunning(true);
+      await runWithConcurrency(deviceIds, BATCH_CONCURRENCY, (deviceId) => runItem(action, deviceId));
+      setRunning(false);
+    },
+    [runItem]
+  );
+
+  const startBatch = useCallback(
+    (action: BatchAction, deviceIds: string[]) => {
+      setRun({
+        action,
+        startedAt: Date.now(),
+        items: deviceIds.map((deviceId) => ({
+          deviceId,
+          deviceName: deviceStore.getDevice(deviceId)?.name ?? deviceId,
+          status: "pending",
+        })),
+      });
+      return execute(action, deviceIds);
+    },
+    [execute]
+  );
+
+  const retryFailed = useCallback(() => {
+    if (!run || running) return;
+    const failed = run.items.filter((item) => item.status === "failed").map((item) => item.deviceId);
+    setRun({
+      ...run,
+      items: run.items.map((item) => (failed.includes(item.deviceId) ? { ...item, status: "pending", note: undefined } : item)),
+    });
+    return execute(run.action, failed);
+  }, [run, running, execute]);
+
+  const dismiss = useCallback(() => setRun(null), []);
+
+  return { run, running, startBatch, retryFailed, dismiss };
+};
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { QueuedCommand } from "../types/types";
+import { publishMQTTMessage } from "../api/api";
+import { TrackedCommand } from "./useCommandTracker";
+import { addToQueue } from "../utils/commandQueue";
+import { NewQueuedCommand } from "../utils/deviceCommands";
+import { deviceStore } from "../store/deviceStore";
+
+const STORAGE_KEY = "dashboardCommandQueue";
+
+const loadQueue = (): QueuedCommand[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+let queueCounter = 0;
+const nextQueueId = () => `queued-${Date.now().toString(36)}-${++queueCounter}`;
+
+// Restores what the device showed before the commands were queued, newest first so the oldest state wins
+const rollBack = (commands: QueuedCommand[]) =>
+  [...commands]
+    .reverse()
+    .forEach(({ deviceId, previous }) => deviceStore.dispatch({ type: "rollback", deviceId, previous }));
+
+// Holds commands issued while disconnected and replays them in order once the connection is back
+export const useCommandQueue = (isConnected: boolean, trackCommand: (command: TrackedCommand) => string) => {
+  const [queue, setQueue] = useState<QueuedCommand[]>(loadQueue);
+  const [replaying, setReplaying] = useState(false);
+  const queueRef = useRef(queue);
+  const isConnectedRef = useRef(isConnected);
+  isConnectedRef.current = isConnected;
+
+  const updateQueue = useCallback((update: (prev: QueuedCommand[]) => QueuedCommand[]) => {
+    queueRef.current = update(queueRef.current);
+    setQueue(queueRef.current);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  }, [queue]);
+
+  const enqueueCommand = useCallback(
+    (command: NewQueuedCommand): boolean => {
+      if (isConnectedRef.current && navigator.onLine) return false;
+
+      updateQueue((prev) => addToQueue(prev, { ...command, id: nextQueueId(), enqueuedAt: Date.now() }));
+      return true;
+    },
+    [updateQueue]
+  );
+
+  const replayOne = useCallback(
+    (command: QueuedCommand) =>
+      new Promise<boolean>((resolve) => {
+        if (!deviceStore.getDevice(command.deviceId)) {
+          resolve(false);
+          return;
+        }
+        // The store already shows the queued state, so a failed replay rolls back to the state saved when queuing
+        trackCommand({
+          deviceId: command.deviceId,
+          expected: command.expected,
+          previous: command.previous,
+          send: async () => {
+            for (const message of command.messages) {
+              await publishMQTTMessage(message, command.topic, {
+                source: "queue",
+                deviceId: command.deviceId,
+                label: `${command.label} (queued by ${command.source})`,
+              });
+            }
+          },
+          onSettled: (outcome) => resolve(outcome === "confirmed" || outcome === "superseded"),
+        });
+      }),
+    [trackCommand]
+  );
+
+  const replayingRef = useRef(false);
+
+  // Replays from the head of the queue and stops at the first command that isn't delivered,
+  // so later commands don't run against a device in an unexpected state
+  const drain = useCallback(async () => {
+    if (replayingRef.current) return;
+    replayingRef.current = true;
+    setReplaying(true);
+
+    while (isConnectedRef.current && queueRef.current.length > 0) {
+      const [command] = queueRef.current;
+      if (!(await replayOne(command))) {
+        const lastError = deviceStore.getDevice(command.deviceId) ? "Device did not acknowledge" : "Device no longer exists";
+        updateQueue((prev) => prev.map((q) => (q.id === command.id ? { ...q, lastError } : q)));
+        break;
+      }
+      updateQueue((prev) => prev.filter((q) => q.id !== command.id));
+    }
+
+    replayingRef.current = false;
+    setReplaying(false);
+  }, [replayOne, updateQueue]);
+
+  useEffect(() => {
+    if (isConnected) drain();
+  }, [isConnected, drain]);
+
+  const retry = useCallback(() => {
+    updateQueue((prev) => prev.map(({ lastError, ...q }) => q));
+    if (isConnectedRef.current) drain();
+  }, [drain, updateQueue]);
+
+  const cancel = useCallback(
+    (id: string) => {
+      rollBack(queueRef.current.filter((q) => q.id === id));
+      updateQueue((prev) => prev.filter((q) => q.id !== id));
+    },
+    [updateQueue]
+  );
+
+  const clear = useCallback(() => {
+    rollBack(queueRef.current);
+    updateQueue(() => []);
+  }, [updateQueue]);
+
+  return { queue, replaying, enqueueCommand, retry, cancel, clear };
+};
@@ -0,0 +1,153 @@
+import { act, renderHook } from "@testing-library/react";
+import { deviceStore } from "../store/deviceStore";
+import { TrackedCommand, useCommandTracker } from "./useCommandTracker";
+
+// Defaults from config: a 5s acknowledgement timeout and one retry
+const TIMEOUT_MS = 5000;
+
+let dispatch: jest.SpyInstance;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  dispatch = jest.spyOn(deviceStore, "dispatch");
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+const command = (overrides: Partial<TrackedCommand> = {}): TrackedCommand => ({
+  deviceId: "esp-1",
+  expected: { lightOn: true },
+  previous: { lightOn: false },
+  send: jest.fn().mockResolvedValue(undefined),
+  onFailed: jest.fn(),
+  onSettled: jest.fn(),
+  ...overrides,
+});
+
+const track = async (tracker: { current: ReturnType<typeof useCommandTracker> }, tracked: TrackedCommand) => {
+  let commandId = "";
+  await act(async () => {
+    commandId = tracker.current.trackCommand(tracked);
+  });
+  return commandId;
+};
+
+const elapse = async (ms: number) => {
+  await act(async () => {
+    jest.advanceTimersByTime(ms);
+  });
+};
+
+// The retry's timer only starts once the resend has gone out, so each timeout is its own step
+const exhaustRetries = async () => {
+  await elapse(TIMEOUT_MS);
+  await elapse(TIMEOUT_MS);
+};
+
+const actionsOf = (type: string) => dispatch.mock.calls.map(([action]) => action).filter((a) => a.type === type);
+
+describe("useCommandTracker", () => {
+  it("shows the command optimistically and confirms it on a matching report", async () => {
+    const { result } = renderHook(() => useCommandTracker());
+    const tracked = command({ expected: { brightness: 50 }, previous: { brightness: 20 } });
+    const commandId = await track(result, tracked);
+
+    expect(actionsOf("optimisticSet")).toEqual([
+      { type: "optimisticSet", deviceId: "esp-1", commandId, state: { brightness: 50 } },
+    ]);
+    expect(result.current.commandStates["esp-1"]).toEqual({ commandId, status: "pending", attempts: 1 });
+
+    act(() => result.current.confirmState("esp-1", { brightness: 51 }));
+    expect(actionsOf("confirm")).toEqual([{ type: "confirm", deviceId: "esp-1", commandId }]);
+    expect(result.current.commandStates["esp-1"].status).toBe("confirmed");
+    expect(tracked.onSettled).toHaveBeenCalledWith("confirmed");
+
+    // The confirmed badge stays for CONFIRMED_BADGE_MS
+    await elapse(3000);
+    expect(result.current.commandStates["esp-1"]).toBeUndefined();
+  });
+
+  it("matches colors, relays and flags the way the firmware reports them", async () => {
+    const { result } = renderHook(() => useCommandTracker());
+    const tracked = command({
+      expected: { rgbMode: true, color: { r: 255, g: 0, b: 0 }, relays: [true, false] },
+      previous: { rgbMode: false },
+    });
+    await track(result, tracked);
+
+    act(() => result.current.confirmState("esp-1", { rgbMode: true, color: { r: 255, g: 0, b: 0 }, relays: [true] }));
+    expect(actionsOf("confirm")).toHaveLength(0);
+    act(() =>
+      result.current.confirmState("esp-1", {
+        rgbMode: true,
+        color: { r: 255, g: 0, b: 0 },
+        relays: [true, false, true],
+      })
+    );
+    expect(actionsOf("confirm")).toHaveLength(1);
+  });
+
+  it("retries once after the timeout, then rolls back", async () => {
+    const { result } = renderHook(() => useCommandTracker());
+    const tracked = command();
+    const commandId = await track(result, tracked);
+
+    await elapse(TIMEOUT_MS);
+    expect(tracked.send).toHaveBeenCalledTimes(2);
+    expect(result.current.commandStates["esp-1"]).toEqual({ commandId, status: "pending", attempts: 2 });
+    expect(actionsOf("rollback")).toHaveLength(0);
+
+    await elapse(TIMEOUT_MS);
+    expect(actionsOf("rollback")).toEqual([
+      { type: "rollback", deviceId: "esp-1", commandId, previous: { lightOn: false } },
+    ]);
+    expect(result.current.commandStates["esp-1"].status).toBe("failed");
+    expect(tracked.onFailed).toHaveBeenCalledTimes(1);
+    expect(tracked.onSettled).toHaveBeenCalledWith("failed");
+  });
+
+  it("fails at once when the command can't be sent", async () => {
+    const { result } = renderHook(() => useCommandTracker());
+    const tracked = command({ send: jest.fn().mockRejectedValue(new Error("offline")) });
+    await track(result, tracked);
+    expect(actionsOf("rollback")).toHaveLength(1);
+    expect(tracked.onSettled).toHaveBeenCalledWith("failed");
+  });
+
+  it("doesn't roll back over a state the device reported itself", async () => {
+    const { result } = renderHook(() => useCommandTracker());
+    const tracked = command();
+    await track(result, tracked);
+    act(() => result.current.confirmState("esp-1", { lightOn: false }));
+
+    await exhaustRetries();
+    expect(actionsOf("rollback")).toHaveLength(0);
+    expect(tracked.onSettled).toHaveBeenCalledWith("failed");
+  });
+
+  it("settles the older command as superseded when a newer one starts", async () => {
+    const { result } = renderHook(() => useCommandTracker());
+    const older = command();
+    const newer = command({ expected: { lightOn: false }, previous: { lightOn: true } });
+    await track(result, older);
+    const newerId = await track(result, newer);
+
+    expect(older.onSettled).toHaveBeenCalledTimes(1);
+    expect(older.onSettled).toHaveBeenCalledWith("superseded");
+
+    await exhaustRetries();
+    expect(older.onFailed).not.toHaveBeenCalled();
+    expect(actionsOf("rollback").map((action) => action.commandId)).toEqual([newerId]);
+  });
+
+  it("ignores reports for devices without a pending command", () => {
+    const { result } = renderHook(() => useCommandTracker());
+    act(() => result.current.confirmState("esp-1", { lightOn: true }));
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+});
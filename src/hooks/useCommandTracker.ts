@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CommandState, CommandStatus, EspDevice } from "../types/types";
+import { getConfig } from "../config/config";
+import { colorsMatch } from "../utils/color";
+import { deviceStore } from "../store/deviceStore";
+
+export type DeviceState = Partial<Pick<EspDevice, "lightOn" | "rgbMode" | "brightness" | "color" | "relays">>;
+
+export interface TrackedCommand {
+  deviceId: string;
+  // Fields the device must report before the command counts as acknowledged
+  expected: DeviceState;
+  // Values to restore if the device never acknowledges
+  previous: DeviceState;
+  // State to show until then; defaults to expected
+  optimistic?: DeviceState;
+  send: () => Promise<void>;
+  onFailed?: () => void;
+  // Called exactly once, including when a newer command for the device takes over
+  onSettled?: (outcome: CommandStatus | "superseded") => void;
+}
+
+interface PendingCommand extends TrackedCommand {
+  commandId: string;
+  attempts: number;
+  // Set once the device reports a state that disagrees, so a rollback won't overwrite it
+  stateReceived: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const CONFIRMED_BADGE_MS = 3000;
+
+let commandCounter = 0;
+const nextCommandId = () => `cmd-${Date.now().toString(36)}-${++commandCounter}`;
+
+const matches = (expected: DeviceState, state: DeviceState) =>
+  (Object.keys(expected) as (keyof DeviceState)[]).every((key) => {
+    switch (key) {
+      case "brightness":
+        return state.brightness !== undefined && Math.abs(state.brightness - (expected.brightness ?? 0)) <= 1;
+      case "color":
+        return colorsMatch(state.color, expected.color);
+      case "relays":
+        return !!state.relays && expected.relays?.every((on, i) => state.relays?.[i] === on) === true;
+      default:
+        return Boolean(state[key]) === Boolean(expected[key]);
+    }
+  });
+
+export const useCommandTracker = () => {
+  const [commandStates, setCommandStates] = useState<Record<string, CommandState>>({});
+  const pendingRef = useRef<Map<string, PendingCommand>>(new Map());
+  const clearTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+
+  const setStatus = useCallback((command: PendingCommand, status: CommandState["status"]) => {
+    const { deviceId, commandId, attempts } = command;
+    setCommandStates((prev) => ({ ...prev, [deviceId]: { commandId, status, attempts } }));
+
+    const clearTimer = clearTimersRef.current.get(deviceId);
+    if (clearTimer) clearTimeout(clearTimer);
+    clearTimersRef.current.delete(deviceId);
+
+    if (status === "confirmed") {
+      clearTimersRef.current.set(
+        deviceId,
+        setTimeout(() => {
+          setCommandStates((prev) => {
+            if (prev[deviceId]?.commandId !== commandId) return prev;
+            const { [deviceId]: _removed, ...rest } = prev;
+            return rest;
+          });
+        }, CONFIRMED_BADGE_MS)
+      );
+    }
+  }, []);
+
+  const fail = useCallback(
+    (command: PendingCommand) => {
+      if (pendingRef.current.get(command.deviceId) !== command) return;
+      pendingRef.current.delete(command.deviceId);
+      if (command.timer) clearTimeout(command.timer);
+
+      if (!command.stateReceived) {
+        deviceStore.dispatch({
+          type: "rollback",
+          deviceId: command.deviceId,
+          commandId: command.commandId,
+          previous: command.previous,
+        });
+      }
+      setStatus(command, "failed");
+      command.onFailed?.();
+      command.onSettled?.("failed");
+    },
+    [setStatus]
+  );
+
+  const attempt = useCallback(
+    async (command: PendingCommand) => {
+      command.attempts += 1;
+      setStatus(command, "pending");
+
+      try {
+        await command.send();
+      } catch (error) {
+        console.error(`Command ${command.commandId} could not be sent:`, error);
+        fail(command);
+        return;
+      }
+
+      if (pendingRef.current.get(command.deviceId) !== command) return;
+      const { commandTimeoutMs, commandRetries } = getConfig();
+      command.timer = setTimeout(() => {
+        if (pendingRef.current.get(command.deviceId) !== command) return;
+        if (command.attempts <= commandRetries) {
+          console.warn(`Command ${command.commandId} not acknowledged, retrying`);
+          attempt(command);
+        } else {
+          console.warn(`Command ${command.commandId} not acknowledged, rolling back`);
+          fail(command);
+        }
+      }, commandTimeoutMs);
+    },
+    [fail, setStatus]
+  );
+
+  // Starts a command; a newer command for the same device supersedes the older one
+  const trackCommand = useCallback(
+    (command: TrackedCommand): string => {
+      const existing = pendingRef.current.get(command.deviceId);
+      if (existing) {
+        if (existing.timer) clearTimeout(existing.timer);
+        existing.onSettled?.("superseded");
+      }
+
+      const pending: PendingCommand = {
+        ...command,
+        commandId: nextCommandId(),
+        attempts: 0,
+        stateReceived: false,
+      };
+      pendingRef.current.set(command.deviceId, pending);
+      deviceStore.dispatch({
+        type: "optimisticSet",
+        deviceId: command.deviceId,
+        commandId: pending.commandId,
+        state: command.optimistic ?? command.expected,
+      });
+      attempt(pending);
+      return pending.commandId;
+    },
+    [attempt]
+  );
+
+  // Fed with every device state update received from the transport
+  const confirmState = useCallback(
+    (deviceId: string, state: DeviceState) => {
+      const pending = pendingRef.current.get(deviceId);
+      if (!pending) return;
+
+      if (matches(pending.expected, state)) {
+        pendingRef.current.delete(deviceId);
+        if (pending.timer) clearTimeout(pending.timer);
+        deviceStore.dispatch({ type: "confirm", deviceId, commandId: pending.commandId });
+        setStatus(pending, "confirmed");
+        pending.onSettled?.("confirmed");
+      } else {
+        pending.stateReceived = true;
+      }
+    },
+    [setStatus]
+  );
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    const clearTimers = clearTimersRef.current;
+    return () => {
+      pending.forEach((command) => command.timer && clearTimeout(command.timer));
+      clearTimers.forEach((timer) => clearTimeout(timer));
+    };
+  }, []);
+
+  return { commandStates, trackCommand, confirmState };
+};
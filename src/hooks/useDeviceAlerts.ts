@@ -0,0 +1,51 @@
+import { useEffect, useRef } from "react";
+import { EspDevice, PresenceStatus } from "../types/types";
+import { getNotificationPreferences, notify } from "../store/notifications";
+import { DevicePresence } from "./usePresence";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Raises notifications for devices that go offline or whose light stays on too long. Presence is
+// only trusted while `watching`, i.e. while the dashboard itself is connected.
+export const useDeviceAlerts = (
+  devices: EspDevice[],
+  presenceOf: (deviceId: string) => DevicePresence,
+  watching: boolean
+) => {
+  const statusRef = useRef(new Map<string, PresenceStatus>());
+  // Counted from when this dashboard first saw the light on
+  const onSinceRef = useRef(new Map<string, number>());
+  const alertedRef = useRef(new Set<string>());
+
+  // presenceOf changes on every presence tick, so this also re-checks the light timers
+  useEffect(() => {
+    const now = Date.now();
+    const { lightOnHours } = getNotificationPreferences();
+
+    devices.forEach((device) => {
+      const { deviceId, name } = device;
+      const status = presenceOf(deviceId).status;
+      const previous = statusRef.current.get(deviceId);
+      statusRef.current.set(deviceId, status);
+      if (watching && status === "offline" && (previous === "online" || previous === "stale")) {
+        notify({ event: "offline", deviceId, message: `${name} went offline` });
+      }
+
+      if (!device.lightOn) {
+        onSinceRef.current.delete(deviceId);
+        alertedRef.current.delete(deviceId);
+        return;
+      }
+      const onSince = onSinceRef.current.get(deviceId) ?? now;
+      onSinceRef.current.set(deviceId, onSince);
+      if (lightOnHours > 0 && !alertedRef.current.has(deviceId) && now - onSince >= lightOnHours * HOUR_MS) {
+        alertedRef.current.add(deviceId);
+        notify({
+          event: "lightOnTooLong",
+          deviceId,
+          message: `${name} has been on for more than ${lightOnHours} h`,
+        });
+      }
+    });
+  }, [devices, presenceOf, watching]);
+};
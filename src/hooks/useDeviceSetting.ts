@@ -0,0 +1,51 @@
+import { useRef } from "react";
+import { EspDevice } from "../types/types";
+import { DeviceState } from "./useCommandTracker";
+import { useThrottle } from "./useThrottle";
+import { CommandContext, dispatchCommand } from "../utils/deviceCommands";
+import { deviceStore } from "../store/deviceStore";
+
+const SLIDER_THROTTLE_MS = 250;
+
+interface DeviceSettingOptions extends CommandContext {
+  device: EspDevice;
+}
+
+// Continuous controls (sliders, wheels): optimistic local updates with throttled JSON publishes
+export const useDeviceSetting = (options: DeviceSettingOptions) => {
+  const { device } = options;
+  // Value to roll back to if a drag never gets acknowledged; captured when the drag starts
+  const rollbackRef = useRef<DeviceState | null>(null);
+
+  // The rollback is passed in rather than read from the ref, since the trailing call can run after the drag ended
+  const publishSetting = useThrottle(
+    (state: DeviceState, previous: DeviceState, payload: object, failureMessage: string) => {
+      const attribute = Object.keys(state).join(",");
+      dispatchCommand(options, {
+        device,
+        attribute,
+        label: `Set ${attribute} to ${JSON.stringify(Object.values(payload)[0])}`,
+        expected: state,
+        previous,
+        messages: [JSON.stringify(payload)],
+        failureMessage,
+      });
+    },
+    SLIDER_THROTTLE_MS
+  );
+
+  const applySetting = (state: DeviceState, payload: object, failureMessage: string) => {
+    const previous =
+      rollbackRef.current ??
+      (Object.keys(state) as (keyof DeviceState)[]).reduce<DeviceState>((acc, key) => ({ ...acc, [key]: device[key] }), {});
+    rollbackRef.current = previous;
+    deviceStore.dispatch({ type: "optimisticSet", deviceId: device.deviceId, state });
+    publishSetting(state, previous, payload, failureMessage);
+  };
+
+  const endSettingChange = () => {
+    rollbackRef.current = null;
+  };
+
+  return { applySetting, endSettingChange };
+};
@@ -0,0 +1,15 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { EspDevice } from "../types/types";
+import { deviceStore } from "../store/deviceStore";
+
+// Re-renders on any device change; prefer useDevice in per-device UI
+export const useDevices = () => useSyncExternalStore(deviceStore.subscribe, deviceStore.getDevices);
+
+// Re-renders only when this device changes
+export const useDevice = (deviceId: string): EspDevice | undefined => {
+  const subscribe = useCallback(
+    (listener: () => void) => deviceStore.subscribeDevice(deviceId, listener),
+    [deviceId]
+  );
+  return useSyncExternalStore(subscribe, () => deviceStore.getDevice(deviceId));
+};
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from "react";
+import { DeviceView } from "../types/types";
+import { viewFromSearch, viewToSearch } from "../utils/deviceView";
+
+// Search, filters, sort and layout of the device grid, mirrored in the URL so views can be bookmarked
+export const useDeviceView = () => {
+  const [view, setView] = useState<DeviceView>(() => viewFromSearch(window.location.search));
+
+  useEffect(() => {
+    const search = viewToSearch(view, window.location.search);
+    if (search !== window.location.search) {
+      // Replaced rather than pushed so typing a search doesn't fill the back button history
+      window.history.replaceState(window.history.state, "", `${window.location.pathname}${search}${window.location.hash}`);
+    }
+  }, [view]);
+
+  useEffect(() => {
+    const handlePopState = () => setView(viewFromSearch(window.location.search));
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const updateView = useCallback((changes: Partial<DeviceView>) => setView((prev) => ({ ...prev, ...changes })), []);
+
+  return { view, updateView };
+};
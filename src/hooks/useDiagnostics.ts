@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { clearDiagnostics, getDiagnostics, subscribeDiagnostics } from "../api/diagnostics";
+
+export const useDiagnostics = () => {
+  const entries = useSyncExternalStore(subscribeDiagnostics, getDiagnostics);
+  return { entries, clear: clearDiagnostics };
+};
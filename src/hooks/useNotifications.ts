@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from "react";
+import {
+  dismissAllToasts,
+  dismissToast,
+  getNotificationPreferences,
+  getToasts,
+  setNotificationPreferences,
+  subscribeNotifications,
+} from "../store/notifications";
+
+export const useNotifications = () => {
+  const toasts = useSyncExternalStore(subscribeNotifications, getToasts);
+  const preferences = useSyncExternalStore(subscribeNotifications, getNotificationPreferences);
+  return {
+    toasts,
+    preferences,
+    dismiss: dismissToast,
+    dismissAll: dismissAllToasts,
+    setPreferences: setNotificationPreferences,
+  };
+};
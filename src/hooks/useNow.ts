@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Current time, refreshed every tickMs; keep it in the smallest component that shows a relative time
+export const useNow = (tickMs: number) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), tickMs);
+    return () => clearInterval(interval);
+  }, [tickMs]);
+
+  return now;
+};
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+import { PresenceStatus } from "../types/types";
+import { getConfig } from "../config/config";
+
+const TICK_MS = 5000;
+
+interface PresenceEntry {
+  lastSeen: number;
+  // Set by an explicit "offline" report (e.g. the broker's last-will message)
+  reportedOffline: boolean;
+}
+
+export interface DevicePresence {
+  status: PresenceStatus;
+  lastSeen?: number;
+}
+
+export const usePresence = () => {
+  const [entries, setEntries] = useState<Record<string, PresenceEntry>>({});
+  const [now, setNow] = useState(Date.now());
+
+  // Re-evaluate thresholds even when nothing arrives
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const markSeen = useCallback((deviceId: string, timestamp = Date.now(), online = true) => {
+    setEntries((prev) => {
+      const existing = prev[deviceId];
+      // Seeds from the device list must not move a newer timestamp backwards, and an
+      // offline report says nothing about when the device itself last spoke
+      const lastSeen = online
+        ? Math.max(existing?.lastSeen ?? 0, timestamp)
+        : existing?.lastSeen ?? timestamp;
+      return { ...prev, [deviceId]: { lastSeen, reportedOffline: !online } };
+    });
+  }, []);
+
+  const forgetDevice = useCallback((deviceId: string) => {
+    setEntries(({ [deviceId]: _removed, ...rest }) => rest);
+  }, []);
+
+  const presenceOf = useCallback(
+    (deviceId: string): DevicePresence => {
+      const entry = entries[deviceId];
+      if (!entry) return { status: "unknown" };
+      if (entry.reportedOffline) return { status: "offline", lastSeen: entry.lastSeen };
+
+      const { presenceStaleMs, presenceOfflineMs } = getConfig();
+      const age = now - entry.lastSeen;
+      const status = age >= presenceOfflineMs ? "offline" : age >= presenceStaleMs ? "stale" : "online";
+      return { status, lastSeen: entry.lastSeen };
+    },
+    [entries, now]
+  );
+
+  return { presenceOf, markSeen, forgetDevice, now };
+};
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { FirmwareImage, FirmwareRollout } from "../types/types";
+import { startOta } from "../api/api";
+import { currentActor } from "../api/auth";
+import { deviceStore } from "../store/deviceStore";
+import { createRollout, getRollouts, setDeviceOta, subscribeRollouts, updateRollout } from "../store/rollouts";
+import { isOtaFinished, stageTargets } from "../utils/rollout";
+
+// A device that reports nothing for this long after the request is counted as failed
+const OTA_TIMEOUT_MS = 10 * 60 * 1000;
+const TIMEOUT_CHECK_MS = 30000;
+
+// Sends the update to every device of the current stage that has not had it yet
+const runStage = (rollout: FirmwareRollout) => {
+  stageTargets(rollout)
+    .filter((deviceId) => !rollout.devices[deviceId])
+    .forEach((deviceId) => {
+      const device = deviceStore.getDevice(deviceId);
+      if (!device) {
+        setDeviceOta(rollout.id, deviceId, { status: "failed", error: "Device no longer exists" });
+        return;
+      }
+      const fromVersion = device.firmwareVersion;
+      if (fromVersion === rollout.firmware.version) {
+        setDeviceOta(rollout.id, deviceId, { status: "done", progress: 100, fromVersion });
+        return;
+      }
+      setDeviceOta(rollout.id, deviceId, { status: "requested", fromVersion });
+      startOta(device, rollout.firmware).catch((error) =>
+        setDeviceOta(rollout.id, deviceId, { status: "failed", error: (error as Error).message })
+      );
+    });
+};
+
+const runCurrentStage = (id: string) => {
+  const rollout = getRollouts().find((r) => r.id === id);
+  if (rollout) runStage(rollout);
+};
+
+export const useRollouts = () => {
+  const rollouts = useSyncExternalStore(subscribeRollouts, getRollouts);
+
+  const startRollout = useCallback((firmware: FirmwareImage, deviceIds: string[], stages: number[]) => {
+    runStage(createRollout(firmware, deviceIds, stages, currentActor()));
+  }, []);
+
+  // Approves the next stage once the current one has finished
+  const continueRollout = useCallback((id: string) => {
+    updateRollout(id, (rollout) =>
+      rollout.status === "awaiting"
+        ? { ...rollout, currentStage: rollout.currentStage + 1, status: "running" }
+        : rollout
+    );
+    runCurrentStage(id);
+  }, []);
+
+  // Sends the update again to the devices of a halted stage that failed
+  const retryFailed = useCallback((id: string) => {
+    updateRollout(id, (rollout) => ({
+      ...rollout,
+      status: "running",
+      devices: Object.fromEntries(
+        Object.entries(rollout.devices).filter(([, state]) => state.status !== "failed")
+      ),
+    }));
+    runCurrentStage(id);
+  }, []);
+
+  const abortRollout = useCallback((id: string) => {
+    updateRollout(id, (rollout) => ({ ...rollout, status: "aborted" }));
+  }, []);
+
+  const hasRunning = rollouts.some((rollout) => rollout.status === "running");
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    const interval = setInterval(() => {
+      const cutoff = Date.now() - OTA_TIMEOUT_MS;
+      getRollouts()
+        .filter((rollout) => rollout.status === "running")
+        .forEach((rollout) =>
+          Object.entries(rollout.devices).forEach(([deviceId, state]) => {
+            if (!isOtaFinished(state) && state.updatedAt < cutoff) {
+              setDeviceOta(rollout.id, deviceId, { status: "failed", error: "No progress reported" });
+            }
+          })
+        );
+    }, TIMEOUT_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [hasRunning]);
+
+  return { rollouts, startRollout, continueRollout, retryFailed, abortRollout };
+};
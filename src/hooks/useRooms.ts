@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { EspDevice } from "../types/types";
+
+const ASSIGNMENTS_KEY = "dashboardRooms";
+const COLLAPSED_KEY = "dashboardCollapsedRooms";
+
+export const UNASSIGNED_ROOM = "";
+
+const readJson = <T,>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export interface RoomGroup {
+  room: string;
+  devices: EspDevice[];
+}
+
+export const useRooms = (devices: EspDevice[]) => {
+  const [assignments, setAssignments] = useState<Record<string, string>>(() =>
+    readJson(ASSIGNMENTS_KEY, {})
+  );
+  const [collapsed, setCollapsed] = useState<string[]>(() => readJson(COLLAPSED_KEY, []));
+
+  useEffect(() => {
+    localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(assignments));
+  }, [assignments]);
+
+  useEffect(() => {
+    localStorage.setItem(COLLAPSED_KEY, JSON.stringify(collapsed));
+  }, [collapsed]);
+
+  const roomOf = useCallback(
+    (device: EspDevice) => assignments[device.deviceId] ?? device.room ?? UNASSIGNED_ROOM,
+    [assignments]
+  );
+
+  const assignRoom = useCallback((deviceId: string, room: string) => {
+    setAssignments((prev) => ({ ...prev, [deviceId]: room.trim() }));
+  }, []);
+
+  const toggleCollapsed = useCallback((room: string) => {
+    setCollapsed((prev) => (prev.includes(room) ? prev.filter((r) => r !== room) : [...prev, room]));
+  }, []);
+
+  // Named rooms alphabetically, unassigned devices last
+  const groups = useMemo<RoomGroup[]>(() => {
+    const byRoom = new Map<string, EspDevice[]>();
+    devices.forEach((device) => {
+      const room = roomOf(device);
+      byRoom.set(room, [...(byRoom.get(room) ?? []), device]);
+    });
+    return Array.from(byRoom.entries())
+      .sort(([a], [b]) => (a === UNASSIGNED_ROOM ? 1 : b === UNASSIGNED_ROOM ? -1 : a.localeCompare(b)))
+      .map(([room, members]) => ({ room, devices: members }));
+  }, [devices, roomOf]);
+
+  // Keyed on the names so the list keeps its identity while only device state changes
+  const roomKey = groups.map((group) => group.room).join("\n");
+  const rooms = useMemo(
+    () => roomKey.split("\n").filter((room) => room !== UNASSIGNED_ROOM),
+    [roomKey]
+  );
+
+  return { groups, rooms, roomOf, assignRoom, collapsed, toggleCollapsed };
+};
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { EspDevice, Scene, SceneResultStatus, SceneTarget } from "../types/types";
+import { captureTarget, planSceneCommands } from "../utils/scene";
+import { CommandContext, CommandOutcome, dispatchCommand } from "../utils/deviceCommands";
+
+const STORAGE_KEY = "dashboardScenes";
+
+const loadScenes = (): Scene[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+let sceneCounter = 0;
+const nextSceneId = () => `scene-${Date.now().toString(36)}-${++sceneCounter}`;
+
+const OUTCOME_STATUS: Record<CommandOutcome, SceneResultStatus> = {
+  pending: "pending",
+  confirmed: "reached",
+  failed: "failed",
+  unchanged: "unchanged",
+  queued: "queued",
+  superseded: "superseded",
+};
+
+export interface SceneApplyResult {
+  sceneId: string;
+  statuses: Record<string, SceneResultStatus>;
+}
+
+export const useScenes = (devices: EspDevice[], commandContext: CommandContext) => {
+  const [scenes, setScenes] = useState<Scene[]>(loadScenes);
+  const [applyResult, setApplyResult] = useState<SceneApplyResult | null>(null);
+  const devicesRef = useRef(devices);
+  devicesRef.current = devices;
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenes));
+  }, [scenes]);
+
+  const captureScene = useCallback((name: string, deviceIds?: string[]) => {
+    const targets = devicesRef.current
+      .filter((device) => !deviceIds || deviceIds.includes(device.deviceId))
+      .map(captureTarget);
+    setScenes((prev) => [...prev, { id: nextSceneId(), name, targets, createdAt: Date.now() }]);
+  }, []);
+
+  const updateScene = useCallback((id: string, changes: { name?: string; targets?: SceneTarget[] }) => {
+    setScenes((prev) => prev.map((scene) => (scene.id === id ? { ...scene, ...changes } : scene)));
+  }, []);
+
+  const removeScene = useCallback((id: string) => {
+    setScenes((prev) => prev.filter((scene) => scene.id !== id));
+  }, []);
+
+  const applyScene = useCallback(
+    (scene: Scene) => {
+      const setResult = (deviceId: string, status: SceneResultStatus) =>
+        setApplyResult((prev) =>
+          prev?.sceneId === scene.id
+            ? { ...prev, statuses: { ...prev.statuses, [deviceId]: status } }
+            : prev
+        );
+
+      const statuses: Record<string, SceneResultStatus> = {};
+      const plans = scene.targets.map((target) => {
+        const device = devicesRef.current.find((d) => d.deviceId === target.deviceId);
+        const plan = device ? planSceneCommands(device, target) : null;
+        statuses[target.deviceId] = !device ? "missing" : plan!.messages.length === 0 ? "unchanged" : "pending";
+        return { device, plan };
+      });
+      setApplyResult({ sceneId: scene.id, statuses });
+
+      plans.forEach(({ device, plan }) => {
+        if (!device || !plan || plan.messages.length === 0) return;
+
+        dispatchCommand({ ...commandContext, source: "scene" }, {
+          device,
+          attribute: `scene:${scene.id}`,
+          label: `Scene "${scene.name}"`,
+          expected: plan.expected,
+          previous: (Object.keys(plan.expected) as (keyof typeof plan.expected)[]).reduce(
+            (acc, key) => ({ ...acc, [key]: device[key] }),
+            {}
+          ),
+          messages: plan.messages,
+          failureMessage: `Scene "${scene.name}" did not reach ${device.name}`,
+        }).then((outcome) => setResult(device.deviceId, OUTCOME_STATUS[outcome]));
+      });
+    },
+    [commandContext]
+  );
+
+  return {
+    scenes,
+    applyResult,
+    captureScene,
+    updateScene,
+    removeScene,
+    applyScene,
+    clearApplyResult: () => setApplyResult(null),
+  };
+};
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { EspDevice, Schedule } from "../types/types";
+import { publishMQTTMessage } from "../api/api";
+import { dueRuns } from "../utils/schedule";
+
+const STORAGE_KEY = "dashboardSchedules";
+// Last moment the runner has handled, shared by every open tab so a run fires once
+const CURSOR_KEY = "dashboardScheduleCursor";
+const TICK_MS = 30 * 1000;
+// Anything missed for longer than this is dropped rather than replayed
+const MAX_CATCH_UP_MS = 7 * 24 * 60 * 60 * 1000;
+
+const loadSchedules = (): Schedule[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+let scheduleCounter = 0;
+const nextScheduleId = () => `sch-${Date.now().toString(36)}-${++scheduleCounter}`;
+
+export type NewSchedule = Omit<Schedule, "id" | "createdAt" | "lastRunAt" | "lastError">;
+
+export const useSchedules = (
+  devices: EspDevice[],
+  ready: boolean,
+  setErrorMessage: (message: string | null) => void
+) => {
+  const [schedules, setSchedules] = useState<Schedule[]>(loadSchedules);
+  const schedulesRef = useRef(schedules);
+  const devicesRef = useRef(devices);
+  const setErrorMessageRef = useRef(setErrorMessage);
+  schedulesRef.current = schedules;
+  devicesRef.current = devices;
+  setErrorMessageRef.current = setErrorMessage;
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(schedules));
+  }, [schedules]);
+
+  // Keep tabs in sync when another one edits the schedules
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setSchedules(loadSchedules());
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const fireDueRuns = useCallback(async () => {
+    const now = Date.now();
+    const cursor = Number(localStorage.getItem(CURSOR_KEY)) || now;
+    const from = Math.max(cursor, now - MAX_CATCH_UP_MS);
+    // Claim the window before publishing so a second tab doesn't fire the same runs
+    localStorage.setItem(CURSOR_KEY, String(now));
+    let firstFailedAt: number | undefined;
+
+    for (const { schedule, at } of dueRuns(schedulesRef.current, from, now)) {
+      const device = devicesRef.current.find((d) => d.deviceId === schedule.deviceId);
+      const topic = device?.commandTopic ?? schedule.commandTopic;
+      let lastError: string | undefined;
+
+      try {
+        await publishMQTTMessage(schedule.action, topic, {
+          source: "schedule",
+          deviceId: schedule.deviceId,
+          label: `Schedule "${schedule.name}": ${schedule.action}`,
+        });
+      } catch (error) {
+        lastError = (error as Error).message;
+        firstFailedAt = Math.min(firstFailedAt ?? at, at);
+        setErrorMessageRef.current(`Schedule "${schedule.name}" failed: ${lastError}`);
+      }
+
+      setSchedules((prev) =>
+        prev.map((s) =>
+          s.id === schedule.id ? { ...s, lastRunAt: lastError ? s.lastRunAt : at, lastError } : s
+        )
+      );
+    }
+
+    // Hand the failed runs back to the next tick; the ones that went out keep their lastRunAt and don't repeat
+    if (firstFailedAt !== undefined) {
+      const claimed = Number(localStorage.getItem(CURSOR_KEY)) || now;
+      localStorage.setItem(CURSOR_KEY, String(Math.min(claimed, firstFailedAt - 1)));
+    }
+  }, []);
+
+  // A publish can outlast a tick; an overlapping run would read the same cursor and fire the same runs twice
+  const runningRef = useRef(false);
+  const runDue = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    try {
+      await fireDueRuns();
+    } finally {
+      runningRef.current = false;
+    }
+  }, [fireDueRuns]);
+
+  useEffect(() => {
+    if (!ready) return;
+    runDue();
+    const interval = setInterval(runDue, TICK_MS);
+    return () => clearInterval(interval);
+  }, [ready, runDue]);
+
+  const addSchedule = useCallback((schedule: NewSchedule) => {
+    setSchedules((prev) => [...prev, { ...schedule, id: nextScheduleId(), createdAt: Date.now() }]);
+  }, []);
+
+  const updateSchedule = useCallback((id: string, changes: Partial<Schedule>) => {
+    setSchedules((prev) => prev.map((s) => (s.id === id ? { ...s, ...changes } : s)));
+  }, []);
+
+  const removeSchedule = useCallback((id: string) => {
+    setSchedules((prev) => prev.filter((s) => s.id !== id));
+  }, []);
+
+  return { schedules, addSchedule, updateSchedule, removeSchedule };
+};
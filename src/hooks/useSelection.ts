@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+// Checkbox selection over the devices in display order; shift-click selects the range from the last click
+export const useSelection = (orderedIds: string[], existingIds: string[]) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const anchorRef = useRef<string | null>(null);
+  const orderRef = useRef(orderedIds);
+  orderRef.current = orderedIds;
+
+  // Deleted devices drop out so they don't come back selected after a restore
+  const existingKey = existingIds.join("\n");
+  useEffect(() => {
+    const existing = new Set(existingKey.split("\n"));
+    setSelected((prev) => (prev.every((id) => existing.has(id)) ? prev : prev.filter((id) => existing.has(id))));
+  }, [existingKey]);
+
+  const toggle = useCallback((deviceId: string, extendRange: boolean) => {
+    const order = orderRef.current;
+    const anchor = anchorRef.current;
+    anchorRef.current = deviceId;
+    if (extendRange && anchor && anchor !== deviceId && order.includes(anchor) && order.includes(deviceId)) {
+      const [from, to] = [order.indexOf(anchor), order.indexOf(deviceId)].sort((a, b) => a - b);
+      const range = order.slice(from, to + 1);
+      setSelected((prev) => [...prev, ...range.filter((id) => !prev.includes(id))]);
+      return;
+    }
+    setSelected((prev) => (prev.includes(deviceId) ? prev.filter((id) => id !== deviceId) : [...prev, deviceId]));
+  }, []);
+
+  const selectAll = useCallback(() => setSelected([...orderRef.current]), []);
+
+  const clear = useCallback(() => {
+    setSelected([]);
+    anchorRef.current = null;
+  }, []);
+
+  const selectedSet = useMemo(() => new Set(selected), [selected]);
+
+  return { selected, selectedSet, toggle, selectAll, clear };
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { getSnapshotTime, subscribeSnapshot } from "../store/snapshot";
+
+// Time the cached device list was saved while the backend is unreachable, otherwise null
+export const useSnapshot = () => useSyncExternalStore(subscribeSnapshot, getSnapshotTime);
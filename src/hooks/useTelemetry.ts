@@ -0,0 +1,11 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { getMetrics, getTelemetryVersion, subscribeTelemetry } from "../store/telemetry";
+
+// Re-renders on every recorded reading; for views that chart the buffers
+export const useTelemetryVersion = () => useSyncExternalStore(subscribeTelemetry, getTelemetryVersion);
+
+// Re-renders only when the device gets its first reading
+export const useHasTelemetry = (deviceId: string) => {
+  const hasTelemetry = useCallback(() => getMetrics(deviceId).length > 0, [deviceId]);
+  return useSyncExternalStore(subscribeTelemetry, hasTelemetry);
+};
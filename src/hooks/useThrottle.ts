@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useRef } from "react";
+
+// Leading + trailing throttle; always invokes the latest fn so callers needn't memoize it
+export const useThrottle = <T extends unknown[]>(fn: (...args: T) => void, waitMs: number) => {
+  const fnRef = useRef(fn);
+  const lastRunRef = useRef(0);
+  const pendingArgsRef = useRef<T | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  fnRef.current = fn;
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+  }, []);
+
+  return useCallback(
+    (...args: T) => {
+      const elapsed = Date.now() - lastRunRef.current;
+
+      if (elapsed >= waitMs && !timerRef.current) {
+        lastRunRef.current = Date.now();
+        fnRef.current(...args);
+        return;
+      }
+
+      pendingArgsRef.current = args;
+      if (timerRef.current) return;
+
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null;
+        lastRunRef.current = Date.now();
+        const pendingArgs = pendingArgsRef.current;
+        pendingArgsRef.current = null;
+        if (pendingArgs) fnRef.current(...pendingArgs);
+      }, Math.max(0, waitMs - elapsed));
+    },
+    [waitMs]
+  );
+};
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { getConfig } from "../config/config";
+import { currentActor } from "../api/auth";
+import { recordAudit } from "../store/auditLog";
+import { deviceStore } from "../store/deviceStore";
+import { addToTrash, getTrash, removeFromTrash, subscribeTrash } from "../store/trash";
+
+// Soft delete: devices wait in the trash and the server delete is only sent once their grace period ends
+export const useTrash = (
+  deleteDevice: (deviceId: string, deviceName?: string) => boolean,
+  // Purges wait while disconnected or while the signed-in user may not delete
+  canPurge: boolean
+) => {
+  const entries = useSyncExternalStore(subscribeTrash, getTrash);
+
+  const moveToTrash = useCallback((deviceId: string) => {
+    const device = deviceStore.getDevice(deviceId);
+    if (!device) return;
+    addToTrash(device, currentActor(), getConfig().deleteGraceMs);
+    recordAudit({
+      kind: "delete",
+      source: "user",
+      actor: currentActor(),
+      deviceId,
+      deviceName: device.name,
+      summary: "Moved to trash",
+    });
+  }, []);
+
+  const restore = useCallback((deviceId: string) => {
+    const entry = removeFromTrash(deviceId);
+    if (!entry) return;
+    deviceStore.dispatch({ type: "restore", device: entry.device });
+    recordAudit({
+      kind: "restore",
+      source: "user",
+      actor: currentActor(),
+      deviceId,
+      deviceName: entry.device.name,
+      summary: "Restored from trash",
+    });
+  }, []);
+
+  const purge = useCallback(
+    (deviceId: string) => {
+      const entry = getTrash().find((e) => e.device.deviceId === deviceId);
+      if (!entry || !deleteDevice(deviceId, entry.device.name)) return;
+      removeFromTrash(deviceId);
+      deviceStore.dispatch({ type: "delete", deviceId });
+    },
+    [deleteDevice]
+  );
+
+  useEffect(() => {
+    if (!canPurge || entries.length === 0) return;
+    const nextPurgeAt = Math.min(...entries.map((entry) => entry.purgeAt));
+    const timer = setTimeout(() => {
+      getTrash()
+        .filter((entry) => entry.purgeAt <= Date.now())
+        .forEach((entry) => purge(entry.device.deviceId));
+    }, Math.max(0, nextPurgeAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [entries, canPurge, purge]);
+
+  return { entries, moveToTrash, restore, purge };
+};
@@ -1,105 +1,295 @@
-import { useEffect, useRef, useState } from "react";
-import { EspDevice } from "../types/types";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AuditEntry, DeviceErrorMessage } from "../types/types";
+import { fetchDevices } from "../api/api";
+import { getTransport, TransportConnection } from "../api/transport";
+import { getConfig } from "../config/config";
+import { DeviceState } from "./useCommandTracker";
+import { decodeMessage } from "../api/protocol";
+import { recordInvalidMessage } from "../api/diagnostics";
+import { backoffDelay } from "../utils/backoff";
+import { deviceStore } from "../store/deviceStore";
+import { recordAudit } from "../store/auditLog";
+import { removeFromTrash } from "../store/trash";
+import { noteFirmwareVersion, recordOtaProgress } from "../store/rollouts";
+import { currentActor } from "../api/auth";
+import { describeStateChanges } from "../utils/audit";
 
-export const useWebSocket = (setDevices: React.Dispatch<React.SetStateAction<EspDevice[]>>) => {
+export interface WebSocketHandlers {
+  onDeviceState?: (deviceId: string, state: DeviceState) => void;
+  onTelemetry?: (deviceId: string, metrics: Record<string, number>, timestamp: number) => void;
+  // Any sign of life from a device; online is false for explicit offline reports
+  onSeen?: (deviceId: string, timestamp: number, online: boolean) => void;
+  onDeviceError?: (message: DeviceErrorMessage) => void;
+}
+
+export const useWebSocket = (handlers: WebSocketHandlers = {}) => {
   const [isConnected, setIsConnected] = useState(false);
   const [reconnectAttempts, setReconnectAttempts] = useState(0);
+  const [nextRetryAt, setNextRetryAt] = useState<number | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
-  const MAX_RECONNECT_ATTEMPTS = 5;
+  const wsRef = useRef<TransportConnection | null>(null);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  // Events from a connection we have already replaced or closed are ignored
+  const connectionIdRef = useRef(0);
+  const attemptsRef = useRef(0);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const hasConnectedRef = useRef(false);
+  const isConnectedRef = useRef(false);
+  const { reconnectMaxAttempts } = getConfig();
+
+  // Changes reported over the connection; "device" when the device itself spoke, "remote" for other clients
+  const auditReported = (
+    entry: Pick<AuditEntry, "kind" | "source" | "summary"> & { deviceId: string; detail?: string }
+  ) =>
+    recordAudit({
+      ...entry,
+      actor: entry.source === "device" ? entry.deviceId : getTransport().kind,
+      deviceName: deviceStore.getDevice(entry.deviceId)?.name,
+    });
 
-  const connectWebSocket = () => {
-    if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
-      setErrorMessage("Maximum reconnection attempts reached");
+  const handleMessage = (rawData: string) => {
+    const source = getTransport().kind === "broker" ? "mqtt" : "websocket";
+    const decoded = decodeMessage(rawData);
+    if (!decoded.ok) {
+      recordInvalidMessage(source, rawData, decoded.error);
       return;
     }
+    const message = decoded.value;
 
-    const websocket = new WebSocket("ws://localhost:8080/mqtt");
-    wsRef.current = websocket;
+    if (message.type === "error") {
+      handlersRef.current.onDeviceError?.(message);
+      return;
+    }
+    // Reports from trashed devices stay hidden until the device is restored
+    if (message.type !== "delete" && deviceStore.getState().trashed.includes(message.deviceId)) return;
+    if (message.type !== "delete") {
+      const online = message.type === "heartbeat" || message.type === "update" ? message.online : true;
+      handlersRef.current.onSeen?.(message.deviceId, Date.now(), online);
+    }
 
-    websocket.onopen = () => {
-      setIsConnected(true);
-      setReconnectAttempts(0);
-      setErrorMessage(null);
-      console.log("WebSocket connected");
-    };
+    switch (message.type) {
+      // Heartbeats and presence reports only feed last-seen tracking
+      case "heartbeat":
+        return;
 
-    websocket.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        if (data.type === "heartbeat") return;
-
-        if (data.type === "delete") {
-          // Handle device deletion
-          setDevices((prevDevices) =>
-            prevDevices.filter((device) => device.deviceId !== data.deviceId)
-          );
-          console.log(`Device ${data.deviceId} deleted`);
-          return;
+      case "delete": {
+        // A trashed device deleted elsewhere (or our own purge echoed back) has nothing left to restore
+        const trashed = removeFromTrash(message.deviceId);
+        if (deviceStore.getDevice(message.deviceId)) {
+          auditReported({ kind: "removed", source: "remote", deviceId: message.deviceId, summary: "Device removed" });
+        } else if (trashed) {
+          recordAudit({
+            kind: "removed",
+            source: "remote",
+            actor: getTransport().kind,
+            deviceId: message.deviceId,
+            deviceName: trashed.device.name,
+            summary: "Removed from trash by the server",
+          });
+        }
+        deviceStore.dispatch({ type: "delete", deviceId: message.deviceId });
+        console.log(`Device ${message.deviceId} deleted`);
+        return;
+      }
+
+      case "rename":
+        // Another client renamed the device
+        if (deviceStore.getDevice(message.deviceId)?.name !== message.name) {
+          auditReported({
+            kind: "rename",
+            source: "remote",
+            deviceId: message.deviceId,
+            summary: `Renamed to "${message.name}"`,
+          });
+        }
+        deviceStore.dispatch({ type: "upsert", device: { deviceId: message.deviceId, name: message.name } });
+        return;
+
+      case "telemetry":
+        handlersRef.current.onTelemetry?.(message.deviceId, message.readings, message.timestamp);
+        // Telemetry-only messages carry no light state, so only the latest readings are merged
+        if (deviceStore.getDevice(message.deviceId)) {
+          deviceStore.dispatch({ type: "upsert", device: { deviceId: message.deviceId, readings: message.readings } });
         }
+        return;
 
-        // Handle device update or addition
-        const { deviceId, lightOn, rgbmode, commandTopic } = data;
-        setDevices((prevDevices) => {
-          const deviceExists = prevDevices.some((d) => d.deviceId === deviceId);
-          if (deviceExists) {
-            return prevDevices.map((device) =>
-              device.deviceId === deviceId
-                ? { ...device, lightOn, rgbMode: rgbmode }
-                : device
-            );
-          }
-          return [
-            ...prevDevices,
-            {
-              deviceId,
-              name: data.name || `ESP_${deviceId}`,
-              lightOn,
-              rgbMode: rgbmode,
-              commandTopic,
-            },
-          ];
+      case "ota":
+        recordOtaProgress(message.deviceId, {
+          status: message.status,
+          progress: message.progress,
+          error: message.error,
         });
-      } catch (error) {
-        setErrorMessage("Error processing WebSocket message");
-        console.error("WebSocket message error:", error);
-      }
-    };
+        if (message.firmwareVersion) {
+          deviceStore.dispatch({
+            type: "upsert",
+            device: { deviceId: message.deviceId, firmwareVersion: message.firmwareVersion },
+          });
+        }
+        return;
 
-    websocket.onerror = () => {
-      setIsConnected(false);
-      setErrorMessage("WebSocket connection failed");
-    };
+      case "update": {
+        const { type, version, online, timestamp, readings, commandTopic, deviceId, ...state } = message;
+        if (Object.keys(readings).length > 0) {
+          handlersRef.current.onTelemetry?.(deviceId, readings, timestamp);
+        }
 
-    websocket.onclose = () => {
-      setIsConnected(false);
-      setTimeout(() => {
-        if (!isConnected && reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
-          setReconnectAttempts((prev) => prev + 1);
-          connectWebSocket();
+        const existing = deviceStore.getDevice(deviceId);
+        if (!existing && !commandTopic) {
+          recordInvalidMessage(source, rawData, "New device announced without a commandTopic");
+          return;
         }
-      }, 5000);
-    };
+        handlersRef.current.onDeviceState?.(deviceId, state);
+        // Confirmations of our own optimistic updates show no difference and aren't logged twice
+        const changes = existing ? describeStateChanges(existing, state) : [];
+        if (!existing || changes.length > 0) {
+          auditReported({
+            kind: existing ? "state" : "discovered",
+            source: "device",
+            deviceId,
+            summary: existing ? changes.join(", ") : "Device appeared",
+            detail: rawData,
+          });
+        }
+        deviceStore.dispatch({
+          type: "upsert",
+          device: { ...state, deviceId, readings, ...(commandTopic ? { commandTopic } : {}) },
+        });
+        if (state.firmwareVersion) noteFirmwareVersion(deviceId, state.firmwareVersion);
+      }
+    }
   };
+  const handleMessageRef = useRef(handleMessage);
+  handleMessageRef.current = handleMessage;
 
-  const deleteDevice = (deviceId: string) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type: "delete", deviceId }));
+  // Pulls the full device list after a reconnect so updates missed while offline are not lost
+  const resync = useCallback(async () => {
+    if (getTransport().kind === "broker") return; // retained messages are redelivered on subscribe
+    try {
+      const remote = await fetchDevices();
+      deviceStore.dispatch({ type: "sync", devices: remote });
+      remote.forEach((device) => {
+        handlersRef.current.onDeviceState?.(device.deviceId, device);
+        if (device.lastSeen) handlersRef.current.onSeen?.(device.deviceId, device.lastSeen, true);
+      });
+    } catch (error) {
+      console.error("Resync after reconnect failed:", error);
+      setErrorMessage("Reconnected, but refreshing devices failed");
+    }
+  }, []);
+
+  const connect = useCallback(() => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+    setNextRetryAt(null);
+    const connectionId = ++connectionIdRef.current;
+    wsRef.current?.close();
+
+    const isCurrent = () => connectionIdRef.current === connectionId;
+
+    const scheduleReconnect = () => {
+      const { reconnectBaseMs, reconnectMaxMs, reconnectMaxAttempts: maxAttempts } = getConfig();
+      if (maxAttempts > 0 && attemptsRef.current >= maxAttempts) {
+        setErrorMessage("Maximum reconnection attempts reached");
+        return;
+      }
+      attemptsRef.current += 1;
+      setReconnectAttempts(attemptsRef.current);
+      const delay = backoffDelay(attemptsRef.current, reconnectBaseMs, reconnectMaxMs);
+      setNextRetryAt(Date.now() + delay);
+      retryTimerRef.current = setTimeout(() => connectRef.current(), delay);
+    };
+
+    wsRef.current = getTransport().connect({
+      onOpen: () => {
+        if (!isCurrent()) return;
+        const isReconnect = hasConnectedRef.current;
+        hasConnectedRef.current = true;
+        isConnectedRef.current = true;
+        attemptsRef.current = 0;
+        setIsConnected(true);
+        setReconnectAttempts(0);
+        setErrorMessage(null);
+        console.log("WebSocket connected");
+        if (isReconnect) resync();
+      },
+
+      onMessage: (rawData) => {
+        if (isCurrent()) handleMessageRef.current(rawData);
+      },
+
+      onError: () => {
+        if (!isCurrent()) return;
+        setErrorMessage(`Connection to ${getTransport().endpoint()} failed`);
+      },
+
+      onClose: () => {
+        if (!isCurrent()) return;
+        // A close without a preceding open (e.g. refused handshake) still counts as an attempt
+        connectionIdRef.current += 1;
+        isConnectedRef.current = false;
+        setIsConnected(false);
+        scheduleReconnect();
+      },
+    });
+  }, [resync]);
+  const connectRef = useRef(connect);
+  connectRef.current = connect;
+
+  // Skips the remaining backoff and starts over with a fresh attempt budget
+  const reconnectNow = useCallback(() => {
+    attemptsRef.current = 0;
+    setReconnectAttempts(0);
+    connectRef.current();
+  }, []);
+
+  // Sends the permanent delete; the device may already be gone from the store if it was trashed first
+  const deleteDevice = useCallback((deviceId: string, deviceName = deviceStore.getDevice(deviceId)?.name): boolean => {
+    if (wsRef.current?.isOpen()) {
+      wsRef.current.send({ type: "delete", deviceId });
+      recordAudit({
+        kind: "delete",
+        source: "user",
+        actor: currentActor(),
+        deviceId,
+        deviceName,
+        summary: "Delete requested",
+      });
       console.log(`Sent delete command for device ${deviceId}`);
-    } else {
-      setErrorMessage("WebSocket is not connected");
-      console.error("Cannot send delete command: WebSocket is not connected");
+      return true;
     }
-  };
+    setErrorMessage("WebSocket is not connected");
+    console.error("Cannot send delete command: WebSocket is not connected");
+    return false;
+  }, []);
 
   useEffect(() => {
-    connectWebSocket();
-    return () => {
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
-        wsRef.current.close();
+    connectRef.current();
+
+    const resumeIfDisconnected = () => {
+      if (!isConnectedRef.current && document.visibilityState === "visible") {
+        reconnectNow();
       }
     };
-  }, []);
+    window.addEventListener("online", resumeIfDisconnected);
+    document.addEventListener("visibilitychange", resumeIfDisconnected);
 
-  return { isConnected, reconnectAttempts, errorMessage, MAX_RECONNECT_ATTEMPTS, deleteDevice };
-};
\ No newline at end of file
+    return () => {
+      window.removeEventListener("online", resumeIfDisconnected);
+      document.removeEventListener("visibilitychange", resumeIfDisconnected);
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+      connectionIdRef.current += 1;
+      wsRef.current?.close();
+    };
+  }, [reconnectNow]);
+
+  return {
+    isConnected,
+    reconnectAttempts,
+    maxReconnectAttempts: reconnectMaxAttempts,
+    nextRetryAt,
+    errorMessage,
+    reconnectNow,
+    deleteDevice,
+  };
+};
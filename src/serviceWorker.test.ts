@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from "fs";
+import { join } from "path";
+
+const SCOPE = "https://dashboard.test/";
+const source = readFileSync(join(__dirname, "../public/service-worker.js"), "utf8");
+
+type Listener = (event: Record<string, unknown>) => void;
+
+// The parts of a fetch Response the worker reads
+interface FakeResponse {
+  ok: boolean;
+  status: number;
+  json: () => Promise<unknown>;
+  clone: () => FakeResponse;
+}
+
+const reply = (body: unknown = ""): FakeResponse => ({
+  ok: true,
+  status: 200,
+  json: async () => body,
+  clone: () => reply(body),
+});
+
+// Just enough of CacheStorage for the worker: caches keyed by URL
+const createCaches = () => {
+  const stores = new Map<string, Map<string, FakeResponse>>();
+  const urlOf = (key: string | { url: string }) => new URL(typeof key === "string" ? key : key.url, SCOPE).toString();
+  const open = async (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    const store = stores.get(name)!;
+    return {
+      keys: async () => Array.from(store.keys(), (url) => ({ url })),
+      match: async (key: string | { url: string }) => store.get(urlOf(key)),
+      put: async (key: string | { url: string }, response: FakeResponse) => void store.set(urlOf(key), response),
+      add: async (url: string) => void store.set(urlOf(url), reply()),
+      delete: async (key: string | { url: string }) => store.delete(urlOf(key)),
+    };
+  };
+  return {
+    stores,
+    api: {
+      open,
+      keys: async () => Array.from(stores.keys()),
+      delete: async (name: string) => stores.delete(name),
+    },
+  };
+};
+
+const manifest = {
+  files: { "main.js": "/static/js/main.new.js", "chunk.js": "/static/js/42.new.chunk.js" },
+  entrypoints: ["static/js/main.new.js"],
+};
+
+const startWorker = (fetchImpl: (input: unknown) => Promise<FakeResponse>) => {
+  const listeners: Record<string, Listener> = {};
+  const caches = createCaches();
+  const self = {
+    registration: { scope: SCOPE },
+    clients: { claim: async () => undefined },
+    skipWaiting: async () => undefined,
+    addEventListener: (type: string, listener: Listener) => (listeners[type] = listener),
+  };
+  // eslint-disable-next-line no-new-func
+  new Function("self", "caches", "fetch", source)(self, caches.api, fetchImpl);
+
+  const dispatch = async (type: string, event: Record<string, unknown> = {}) => {
+    const pending: Promise<unknown>[] = [];
+    const waitUntil = (promise: Promise<unknown>) => pending.push(promise);
+    listeners[type]({ ...event, waitUntil, respondWith: waitUntil });
+    await Promise.all(pending);
+  };
+  return { caches, dispatch };
+};
+
+const serveManifest = async (input: unknown) => {
+  const url = String(input instanceof Object && "url" in input ? (input as { url: string }).url : input);
+  if (url.endsWith("asset-manifest.json")) return reply(manifest);
+  return reply("<html></html>");
+};
+
+const seedShell = (caches: ReturnType<typeof createCaches>) => {
+  caches.stores.set(
+    "dashboard-shell-v1",
+    new Map(
+      ["index.html", "static/js/main.old.js", "static/js/main.new.js", "static/js/42.new.chunk.js"].map((path) => [
+        new URL(path, SCOPE).toString(),
+        reply(),
+      ])
+    )
+  );
+};
+
+const cachedPaths = (caches: ReturnType<typeof createCaches>) =>
+  Array.from(caches.stores.get("dashboard-shell-v1")!.keys(), (url) => url.replace(SCOPE, "")).sort();
+
+describe("service worker shell pruning", () => {
+  it("drops bundles the current build no longer lists when it activates", async () => {
+    const { caches, dispatch } = startWorker(serveManifest);
+    seedShell(caches);
+    await dispatch("activate");
+    expect(cachedPaths(caches)).toEqual(["index.html", "static/js/42.new.chunk.js", "static/js/main.new.js"]);
+  });
+
+  it("prunes again on navigation, since a redeploy doesn't reinstall the worker", async () => {
+    const { caches, dispatch } = startWorker(serveManifest);
+    seedShell(caches);
+    await dispatch("fetch", { request: { method: "GET", url: SCOPE, mode: "navigate" } });
+    expect(cachedPaths(caches)).not.toContain("static/js/main.old.js");
+    expect(cachedPaths(caches)).toContain("static/js/main.new.js");
+  });
+
+  it("keeps everything when the manifest can't be fetched", async () => {
+    const { caches, dispatch } = startWorker(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    seedShell(caches);
+    await dispatch("activate");
+    expect(cachedPaths(caches)).toContain("static/js/main.old.js");
+  });
+});
@@ -0,0 +1,19 @@
+// Registers public/service-worker.js, which caches the app shell and the last device list.
+// Only production builds use it; in development it would serve stale bundles.
+export const register = () => {
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .catch((error) => console.error("Service worker registration failed:", error));
+  });
+};
+
+// Drops the device list the service worker saved for offline use, e.g. once the user logs out
+export const clearDeviceSnapshot = () => {
+  if (!("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((registration) => registration.active?.postMessage({ type: "clearDeviceSnapshot" }))
+    .catch(() => undefined);
+};
@@ -0,0 +1,68 @@
+import { AuditEntry } from "../types/types";
+
+const STORAGE_KEY = "dashboardAuditLog";
+const MAX_ENTRIES = 5000;
+// Writes are batched so a burst of state messages doesn't serialize the whole log each time
+const PERSIST_DELAY_MS = 1000;
+
+const loadEntries = (): AuditEntry[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Newest first
+let entries: AuditEntry[] = loadEntries();
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+let auditCounter = 0;
+const nextAuditId = () => `audit-${Date.now().toString(36)}-${++auditCounter}`;
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const persist = () => {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    // Storage full: keep halving to the newer entries until the write fits rather than losing everything
+    for (;;) {
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+        return;
+      } catch (error) {
+        if (entries.length === 0) return;
+        entries = entries.slice(0, Math.floor(entries.length / 2));
+        console.warn("Audit log trimmed after a storage error:", error);
+        notify();
+      }
+    }
+  }, PERSIST_DELAY_MS);
+};
+
+export const recordAudit = (entry: Omit<AuditEntry, "id" | "timestamp"> & { timestamp?: number }) => {
+  entries = [{ ...entry, id: nextAuditId(), timestamp: entry.timestamp ?? Date.now() }, ...entries].slice(
+    0,
+    MAX_ENTRIES
+  );
+  persist();
+  notify();
+};
+
+export const getAuditLog = (): AuditEntry[] => entries;
+
+export const clearAuditLog = () => {
+  entries = [];
+  persist();
+  notify();
+};
+
+export const subscribeAudit = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
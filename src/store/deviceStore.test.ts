@@ -0,0 +1,121 @@
+import { EspDevice } from "../types/types";
+import { createDeviceStore, devicesReducer, DeviceStoreState } from "./deviceStore";
+
+const device = (deviceId: string, overrides: Partial<EspDevice> = {}): EspDevice => ({
+  deviceId,
+  name: deviceId,
+  lightOn: false,
+  commandTopic: `${deviceId}/cmd`,
+  ...overrides,
+});
+
+const stateWith = (...devices: EspDevice[]): DeviceStoreState => ({ devices, pending: {}, trashed: [] });
+
+describe("devicesReducer", () => {
+  it("merges a sync into known devices and drops the ones the server no longer lists", () => {
+    const state = stateWith(device("a", { room: "Kitchen" }), device("b"));
+    const next = devicesReducer(
+      { ...state, pending: { b: "cmd-1" } },
+      { type: "sync", devices: [device("a", { lightOn: true })] }
+    );
+    expect(next.devices).toEqual([device("a", { room: "Kitchen", lightOn: true })]);
+    expect(next.pending).toEqual({});
+  });
+
+  it("keeps trashed devices out of a sync", () => {
+    const next = devicesReducer({ ...stateWith(), trashed: ["a"] }, { type: "sync", devices: [device("a")] });
+    expect(next.devices).toEqual([]);
+  });
+
+  it("merges readings on upsert", () => {
+    const state = stateWith(device("a", { readings: { temperature: 20, humidity: 40 } }));
+    const next = devicesReducer(state, { type: "upsert", device: { deviceId: "a", readings: { temperature: 21 } } });
+    expect(next.devices[0].readings).toEqual({ temperature: 21, humidity: 40 });
+  });
+
+  it("only adds unknown devices once they report a command topic and light state", () => {
+    const state = stateWith();
+    expect(devicesReducer(state, { type: "upsert", device: { deviceId: "new", lightOn: true } })).toBe(state);
+    const next = devicesReducer(state, {
+      type: "upsert",
+      device: { deviceId: "new", lightOn: true, commandTopic: "new/cmd" },
+    });
+    expect(next.devices).toEqual([{ deviceId: "new", name: "ESP_new", lightOn: true, commandTopic: "new/cmd" }]);
+  });
+
+  it("ignores reports from trashed devices until they are restored", () => {
+    const trashed = devicesReducer(stateWith(device("a")), { type: "trash", deviceIds: ["a"] });
+    expect(trashed.devices).toEqual([]);
+    expect(devicesReducer(trashed, { type: "upsert", device: device("a", { lightOn: true }) })).toBe(trashed);
+    const restored = devicesReducer(trashed, { type: "restore", device: device("a") });
+    expect(restored.devices).toEqual([device("a")]);
+    expect(restored.trashed).toEqual([]);
+  });
+
+  it("rolls back only the command the device is still showing", () => {
+    const optimistic = devicesReducer(stateWith(device("a")), {
+      type: "optimisticSet",
+      deviceId: "a",
+      commandId: "cmd-2",
+      state: { lightOn: true },
+    });
+    expect(optimistic.pending).toEqual({ a: "cmd-2" });
+    const stale = devicesReducer(optimistic, {
+      type: "rollback",
+      deviceId: "a",
+      commandId: "cmd-1",
+      previous: { lightOn: false },
+    });
+    expect(stale).toBe(optimistic);
+    const rolledBack = devicesReducer(optimistic, {
+      type: "rollback",
+      deviceId: "a",
+      commandId: "cmd-2",
+      previous: { lightOn: false },
+    });
+    expect(rolledBack.devices[0].lightOn).toBe(false);
+    expect(rolledBack.pending).toEqual({});
+  });
+
+  it("rolls back unconditionally without a command id", () => {
+    const state = { ...stateWith(device("a", { lightOn: true })), pending: { a: "cmd-1" } };
+    const next = devicesReducer(state, { type: "rollback", deviceId: "a", previous: { lightOn: false } });
+    expect(next.devices[0].lightOn).toBe(false);
+    expect(next.pending).toEqual({ a: "cmd-1" });
+  });
+
+  it("clears the pending command on confirm without touching devices", () => {
+    const state = { ...stateWith(device("a")), pending: { a: "cmd-1" } };
+    const next = devicesReducer(state, { type: "confirm", deviceId: "a", commandId: "cmd-1" });
+    expect(next.pending).toEqual({});
+    expect(next.devices).toBe(state.devices);
+  });
+});
+
+describe("createDeviceStore", () => {
+  it("notifies only the subscribers of the device that changed", () => {
+    const store = createDeviceStore([device("a"), device("b")]);
+    const onA = jest.fn();
+    const onB = jest.fn();
+    const onAny = jest.fn();
+    store.subscribeDevice("a", onA);
+    store.subscribeDevice("b", onB);
+    store.subscribe(onAny);
+
+    store.dispatch({ type: "upsert", device: { deviceId: "a", lightOn: true } });
+    expect(onA).toHaveBeenCalledTimes(1);
+    expect(onB).not.toHaveBeenCalled();
+    expect(onAny).toHaveBeenCalledTimes(1);
+    expect(store.getDevice("a")?.lightOn).toBe(true);
+  });
+
+  it("stays quiet when a confirmation only changes bookkeeping", () => {
+    const store = createDeviceStore([device("a")]);
+    store.dispatch({ type: "optimisticSet", deviceId: "a", commandId: "cmd-1", state: { lightOn: true } });
+    const onAny = jest.fn();
+    store.subscribe(onAny);
+    store.dispatch({ type: "confirm", deviceId: "a", commandId: "cmd-1" });
+    expect(onAny).not.toHaveBeenCalled();
+    expect(store.getState().pending).toEqual({});
+  });
+});
@@ -0,0 +1,179 @@
+import { EspDevice } from "../types/types";
+import { DeviceState } from "../hooks/useCommandTracker";
+import { defaultDeviceName, reconcileDevices } from "../utils/devices";
+
+export type DevicePatch = Partial<EspDevice> & { deviceId: string };
+
+export type DeviceAction =
+  // Authoritative device list, e.g. the initial fetch or a resync after reconnecting
+  | { type: "sync"; devices: EspDevice[] }
+  // State reported by a device; unknown devices are only added once they have a command topic
+  | { type: "upsert"; device: DevicePatch }
+  | { type: "delete"; deviceId: string }
+  // Soft delete: the device disappears and its reports are ignored until it is restored or deleted
+  | { type: "trash"; deviceIds: string[] }
+  | { type: "restore"; device: EspDevice }
+  // Shows a command's effect before the device acknowledges it
+  | { type: "optimisticSet"; deviceId: string; state: DeviceState; commandId?: string }
+  | { type: "confirm"; deviceId: string; commandId: string }
+  // Without a command id, e.g. for a cancelled queued command, the previous state is restored unconditionally
+  | { type: "rollback"; deviceId: string; commandId?: string; previous: DeviceState };
+
+export interface DeviceStoreState {
+  devices: EspDevice[];
+  // Command whose optimistic state each device currently shows; confirm/rollback from any other command is ignored
+  pending: Record<string, string>;
+  trashed: string[];
+}
+
+const updateDevice = (
+  devices: EspDevice[],
+  deviceId: string,
+  update: (device: EspDevice) => EspDevice
+): EspDevice[] => devices.map((device) => (device.deviceId === deviceId ? update(device) : device));
+
+const withoutKey = (record: Record<string, string>, key: string) => {
+  const { [key]: _removed, ...rest } = record;
+  return rest;
+};
+
+export const devicesReducer = (state: DeviceStoreState, action: DeviceAction): DeviceStoreState => {
+  switch (action.type) {
+    case "sync": {
+      const devices = reconcileDevices(
+        state.devices,
+        action.devices.filter((device) => !state.trashed.includes(device.deviceId))
+      );
+      const pending = Object.fromEntries(
+        Object.entries(state.pending).filter(([deviceId]) => devices.some((d) => d.deviceId === deviceId))
+      );
+      return { ...state, devices, pending };
+    }
+
+    case "upsert": {
+      const patch = action.device;
+      if (state.trashed.includes(patch.deviceId)) return state;
+      const existing = state.devices.find((d) => d.deviceId === patch.deviceId);
+      if (existing) {
+        const readings = patch.readings ? { ...existing.readings, ...patch.readings } : existing.readings;
+        return {
+          ...state,
+          devices: updateDevice(state.devices, patch.deviceId, (device) => ({ ...device, ...patch, readings })),
+        };
+      }
+      if (!patch.commandTopic || patch.lightOn === undefined) return state;
+      const device: EspDevice = {
+        ...patch,
+        name: patch.name || defaultDeviceName(patch.deviceId),
+        lightOn: patch.lightOn,
+        commandTopic: patch.commandTopic,
+      };
+      return { ...state, devices: [...state.devices, device] };
+    }
+
+    case "delete":
+      return {
+        devices: state.devices.filter((device) => device.deviceId !== action.deviceId),
+        pending: withoutKey(state.pending, action.deviceId),
+        trashed: state.trashed.filter((deviceId) => deviceId !== action.deviceId),
+      };
+
+    case "trash": {
+      const added = action.deviceIds.filter((deviceId) => !state.trashed.includes(deviceId));
+      if (added.length === 0) return state;
+      return {
+        devices: state.devices.filter((device) => !added.includes(device.deviceId)),
+        pending: Object.fromEntries(Object.entries(state.pending).filter(([deviceId]) => !added.includes(deviceId))),
+        trashed: [...state.trashed, ...added],
+      };
+    }
+
+    case "restore": {
+      const { deviceId } = action.device;
+      return {
+        ...state,
+        devices: [...state.devices.filter((device) => device.deviceId !== deviceId), action.device],
+        trashed: state.trashed.filter((id) => id !== deviceId),
+      };
+    }
+
+    case "optimisticSet":
+      return {
+        ...state,
+        devices: updateDevice(state.devices, action.deviceId, (device) => ({ ...device, ...action.state })),
+        pending: action.commandId ? { ...state.pending, [action.deviceId]: action.commandId } : state.pending,
+      };
+
+    case "confirm":
+      if (state.pending[action.deviceId] !== action.commandId) return state;
+      return { ...state, pending: withoutKey(state.pending, action.deviceId) };
+
+    case "rollback":
+      if (action.commandId === undefined) {
+        return {
+          ...state,
+          devices: updateDevice(state.devices, action.deviceId, (device) => ({ ...device, ...action.previous })),
+        };
+      }
+      if (state.pending[action.deviceId] !== action.commandId) return state;
+      return {
+        ...state,
+        devices: updateDevice(state.devices, action.deviceId, (device) => ({ ...device, ...action.previous })),
+        pending: withoutKey(state.pending, action.deviceId),
+      };
+  }
+};
+
+export const createDeviceStore = (initial: EspDevice[] = []) => {
+  let state: DeviceStoreState = { devices: initial, pending: {}, trashed: [] };
+  let byId = new Map(initial.map((device) => [device.deviceId, device]));
+  const listeners = new Set<() => void>();
+  const deviceListeners = new Map<string, Set<() => void>>();
+
+  const dispatch = (action: DeviceAction) => {
+    const next = devicesReducer(state, action);
+    if (next === state) return;
+    const previous = state;
+    const previousById = byId;
+    state = next;
+    // Confirmations only change bookkeeping, which nothing renders
+    if (next.devices === previous.devices) return;
+    byId = new Map(next.devices.map((device) => [device.deviceId, device]));
+
+    // Unchanged devices keep their object identity, so only their own subscribers are skipped
+    deviceListeners.forEach((callbacks, deviceId) => {
+      if (previousById.get(deviceId) !== byId.get(deviceId)) callbacks.forEach((callback) => callback());
+    });
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const subscribeDevice = (deviceId: string, listener: () => void) => {
+    const callbacks = deviceListeners.get(deviceId) ?? new Set();
+    callbacks.add(listener);
+    deviceListeners.set(deviceId, callbacks);
+    return () => {
+      callbacks.delete(listener);
+      if (callbacks.size === 0) deviceListeners.delete(deviceId);
+    };
+  };
+
+  return {
+    dispatch,
+    subscribe,
+    subscribeDevice,
+    getState: () => state,
+    getDevices: () => state.devices,
+    getDevice: (deviceId: string): EspDevice | undefined => byId.get(deviceId),
+  };
+};
+
+export type DeviceStore = ReturnType<typeof createDeviceStore>;
+
+export const deviceStore = createDeviceStore();
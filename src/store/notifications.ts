@@ -0,0 +1,87 @@
+import { NotificationEvent, NotificationPreferences, NotificationToast } from "../types/types";
+import { NOTIFICATION_EVENT_LABELS, showBrowserNotification } from "../utils/notifications";
+
+const PREFERENCES_KEY = "dashboardNotificationPrefs";
+// Older toasts are dropped beyond this
+const MAX_TOASTS = 5;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  events: {
+    offline: { toast: true, browser: true },
+    lightOnTooLong: { toast: true, browser: true },
+    commandFailed: { toast: true, browser: false },
+    deviceError: { toast: true, browser: false },
+    system: { toast: true, browser: false },
+  },
+  lightOnHours: 4,
+};
+
+// Stored preferences are merged over the defaults so newly added event types get a setting
+const loadPreferences = (): NotificationPreferences => {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_KEY);
+    if (!stored) return DEFAULT_NOTIFICATION_PREFERENCES;
+    const parsed: Partial<NotificationPreferences> = JSON.parse(stored);
+    return {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...parsed,
+      events: { ...DEFAULT_NOTIFICATION_PREFERENCES.events, ...parsed.events },
+    };
+  } catch {
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+};
+
+let preferences = loadPreferences();
+// Newest first
+let toasts: NotificationToast[] = [];
+const listeners = new Set<() => void>();
+
+let toastCounter = 0;
+const nextToastId = () => `toast-${Date.now().toString(36)}-${++toastCounter}`;
+
+const emit = () => listeners.forEach((listener) => listener());
+
+export const notify = ({ event, message, deviceId }: { event: NotificationEvent; message: string; deviceId?: string }) => {
+  const channels = preferences.events[event];
+
+  if (channels.toast) {
+    const existing = toasts.find((toast) => toast.event === event && toast.message === message);
+    toasts = existing
+      ? [{ ...existing, createdAt: Date.now(), count: existing.count + 1 }, ...toasts.filter((t) => t !== existing)]
+      : [{ id: nextToastId(), event, message, deviceId, createdAt: Date.now(), count: 1 }, ...toasts].slice(0, MAX_TOASTS);
+    emit();
+  }
+
+  if (channels.browser) {
+    // The tag makes a repeat replace the previous notification instead of piling up
+    showBrowserNotification(NOTIFICATION_EVENT_LABELS[event], message, `${event}:${deviceId ?? message}`);
+  }
+};
+
+export const dismissToast = (id: string) => {
+  toasts = toasts.filter((toast) => toast.id !== id);
+  emit();
+};
+
+export const dismissAllToasts = () => {
+  toasts = [];
+  emit();
+};
+
+export const getToasts = () => toasts;
+
+export const getNotificationPreferences = () => preferences;
+
+export const setNotificationPreferences = (next: NotificationPreferences) => {
+  preferences = next;
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(next));
+  emit();
+};
+
+export const subscribeNotifications = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,112 @@
+import { DeviceOtaState, FirmwareImage, FirmwareRollout } from "../types/types";
+import { evaluateRollout, isOtaFinished } from "../utils/rollout";
+import { recordAudit } from "./auditLog";
+import { deviceStore } from "./deviceStore";
+
+const STORAGE_KEY = "dashboardRollouts";
+// Older rollouts beyond this are dropped
+const MAX_ROLLOUTS = 20;
+
+const loadRollouts = (): FirmwareRollout[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Newest first
+let rollouts: FirmwareRollout[] = loadRollouts();
+const listeners = new Set<() => void>();
+
+let rolloutCounter = 0;
+const nextRolloutId = () => `rollout-${Date.now().toString(36)}-${++rolloutCounter}`;
+
+const save = (next: FirmwareRollout[]) => {
+  rollouts = next.slice(0, MAX_ROLLOUTS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rollouts));
+  listeners.forEach((listener) => listener());
+};
+
+export const createRollout = (
+  firmware: FirmwareImage,
+  deviceIds: string[],
+  stages: number[],
+  createdBy: string
+): FirmwareRollout => {
+  const rollout: FirmwareRollout = {
+    id: nextRolloutId(),
+    firmware,
+    deviceIds,
+    stages,
+    currentStage: 0,
+    status: "running",
+    devices: {},
+    createdAt: Date.now(),
+    createdBy,
+  };
+  save([rollout, ...rollouts]);
+  return rollout;
+};
+
+// The status is re-derived after every change so stage transitions happen in one place
+export const updateRollout = (id: string, update: (rollout: FirmwareRollout) => FirmwareRollout) => {
+  save(
+    rollouts.map((rollout) => {
+      if (rollout.id !== id) return rollout;
+      const next = update(rollout);
+      return { ...next, status: evaluateRollout(next) };
+    })
+  );
+};
+
+export const setDeviceOta = (id: string, deviceId: string, state: Omit<DeviceOtaState, "updatedAt">) =>
+  updateRollout(id, (rollout) => ({
+    ...rollout,
+    devices: { ...rollout.devices, [deviceId]: { ...rollout.devices[deviceId], ...state, updatedAt: Date.now() } },
+  }));
+
+// The rollout currently waiting on this device, if any
+const activeRolloutFor = (deviceId: string) =>
+  rollouts.find(
+    (rollout) =>
+      rollout.status !== "aborted" && rollout.devices[deviceId] && !isOtaFinished(rollout.devices[deviceId])
+  );
+
+export const recordOtaProgress = (deviceId: string, state: Omit<DeviceOtaState, "updatedAt" | "fromVersion">) => {
+  const rollout = activeRolloutFor(deviceId);
+  if (!rollout) return;
+  setDeviceOta(rollout.id, deviceId, state);
+  if (isOtaFinished(state)) {
+    recordAudit({
+      kind: "firmware",
+      source: "device",
+      actor: deviceId,
+      deviceId,
+      deviceName: deviceStore.getDevice(deviceId)?.name,
+      summary:
+        state.status === "done"
+          ? `Firmware updated to ${rollout.firmware.version}`
+          : `Firmware update to ${rollout.firmware.version} failed`,
+      error: state.error,
+    });
+  }
+};
+
+// Firmware that reboots without sending a final "done", or any progress at all, still reports its new version
+export const noteFirmwareVersion = (deviceId: string, version: string) => {
+  const rollout = activeRolloutFor(deviceId);
+  if (rollout && rollout.firmware.version === version) {
+    recordOtaProgress(deviceId, { status: "done", progress: 100 });
+  }
+};
+
+export const getRollouts = (): FirmwareRollout[] => rollouts;
+
+export const subscribeRollouts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,21 @@
+// When the device list came from the service worker's cache instead of the backend, the time
+// it was saved; null while the data is live
+let snapshotAt: number | null = null;
+const listeners = new Set<() => void>();
+
+export const SNAPSHOT_HEADER = "x-dashboard-snapshot";
+
+export const setSnapshotTime = (time: number | null) => {
+  if (time === snapshotAt) return;
+  snapshotAt = time;
+  listeners.forEach((listener) => listener());
+};
+
+export const getSnapshotTime = () => snapshotAt;
+
+export const subscribeSnapshot = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
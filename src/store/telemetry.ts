@@ -0,0 +1,67 @@
+import { TelemetryPoint } from "../utils/telemetry";
+
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_POINTS_PER_SERIES = 5000;
+
+type DeviceSeries = Map<string, TelemetryPoint[]>;
+
+// Rolling per-device, per-metric time series fed from incoming messages. Kept outside React so a
+// reading only re-renders the views that read the buffers, not the whole dashboard.
+const buffers = new Map<string, DeviceSeries>();
+// Bumped on every write so views reading the buffers re-render
+let version = 0;
+const listeners = new Set<() => void>();
+
+const emit = () => {
+  version += 1;
+  listeners.forEach((listener) => listener());
+};
+
+export const recordTelemetry = (deviceId: string, metrics: Record<string, number>, timestamp = Date.now()) => {
+  const entries = Object.entries(metrics);
+  if (entries.length === 0) return;
+
+  let deviceSeries = buffers.get(deviceId);
+  if (!deviceSeries) {
+    deviceSeries = new Map();
+    buffers.set(deviceId, deviceSeries);
+  }
+
+  const cutoff = Date.now() - MAX_AGE_MS;
+  entries.forEach(([metric, value]) => {
+    const series = deviceSeries!.get(metric) ?? [];
+    series.push({ t: timestamp, v: value });
+    // Out-of-order messages are rare; keep the buffer sorted when they happen
+    if (series.length > 1 && series[series.length - 2].t > timestamp) {
+      series.sort((a, b) => a.t - b.t);
+    }
+    const firstKept = series.findIndex((point) => point.t >= cutoff);
+    const trimmed = series.slice(
+      Math.max(firstKept < 0 ? series.length : firstKept, series.length - MAX_POINTS_PER_SERIES)
+    );
+    deviceSeries!.set(metric, trimmed);
+  });
+
+  emit();
+};
+
+export const getMetrics = (deviceId: string) => Array.from(buffers.get(deviceId)?.keys() ?? []);
+
+export const getSeries = (deviceId: string, metric: string, windowMs: number) => {
+  const series = buffers.get(deviceId)?.get(metric) ?? [];
+  const since = Date.now() - windowMs;
+  return series.filter((point) => point.t >= since);
+};
+
+export const clearTelemetry = (deviceId: string) => {
+  if (buffers.delete(deviceId)) emit();
+};
+
+export const getTelemetryVersion = () => version;
+
+export const subscribeTelemetry = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,53 @@
+import { EspDevice, TrashedDevice } from "../types/types";
+import { deviceStore } from "./deviceStore";
+
+const STORAGE_KEY = "dashboardTrash";
+
+const loadTrash = (): TrashedDevice[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Newest first
+let entries: TrashedDevice[] = loadTrash();
+const listeners = new Set<() => void>();
+
+// Devices deleted before a reload stay hidden when the first device list arrives
+if (entries.length > 0) {
+  deviceStore.dispatch({ type: "trash", deviceIds: entries.map((entry) => entry.device.deviceId) });
+}
+
+const update = (next: TrashedDevice[]) => {
+  entries = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  listeners.forEach((listener) => listener());
+};
+
+export const addToTrash = (device: EspDevice, deletedBy: string, graceMs: number) => {
+  const deletedAt = Date.now();
+  update([
+    { device, deletedAt, deletedBy, purgeAt: deletedAt + graceMs },
+    ...entries.filter((entry) => entry.device.deviceId !== device.deviceId),
+  ]);
+  deviceStore.dispatch({ type: "trash", deviceIds: [device.deviceId] });
+};
+
+// Drops the entry without touching the device store, e.g. once the server delete went out
+export const removeFromTrash = (deviceId: string): TrashedDevice | undefined => {
+  const entry = entries.find((e) => e.device.deviceId === deviceId);
+  if (entry) update(entries.filter((e) => e !== entry));
+  return entry;
+};
+
+export const getTrash = (): TrashedDevice[] => entries;
+
+export const subscribeTrash = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
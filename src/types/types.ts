@@ -1,7 +1,408 @@
+export interface RgbColor {
+    r: number;
+    g: number;
+    b: number;
+  }
+
+export interface HsvColor {
+    h: number;
+    s: number;
+    v: number;
+  }
+
+export type DeviceCapability = "switch" | "dimmer" | "rgb" | "sensor" | "relay-array";
+
 export interface EspDevice {
     deviceId: string;
     name: string;
     lightOn: boolean;
     rgbMode?: boolean;
+    // 0-100
+    brightness?: number;
+    color?: RgbColor;
+    // Unknown capability names are kept so newly registered controls can pick them up
+    capabilities?: string[];
+    relays?: boolean[];
+    readings?: Record<string, number>;
+    // Room reported by the backend; a local assignment takes precedence
+    room?: string;
+    // Epoch ms of the last message the backend saw from the device, if it tracks that
+    lastSeen?: number;
+    firmwareVersion?: string;
     commandTopic: string;
-  }
\ No newline at end of file
+  }
+
+export type PresenceStatus = "online" | "stale" | "offline" | "unknown";
+
+export type CommandStatus = "pending" | "confirmed" | "failed";
+
+export interface QueuedCommand {
+    id: string;
+    deviceId: string;
+    deviceName: string;
+    // Only the latest queued command per device and attribute is kept
+    attribute: string;
+    label: string;
+    topic: string;
+    messages: string[];
+    expected: Partial<Pick<EspDevice, "lightOn" | "rgbMode" | "brightness" | "color" | "relays">>;
+    // Device state from before the command was queued, restored if it is cancelled or fails on replay
+    previous: Partial<Pick<EspDevice, "lightOn" | "rgbMode" | "brightness" | "color" | "relays">>;
+    // Who asked for the command, kept for the audit log when it is replayed
+    source: AuditSource;
+    enqueuedAt: number;
+    lastError?: string;
+  }
+
+export interface CommandState {
+    commandId: string;
+    status: CommandStatus;
+    attempts: number;
+  }
+
+export type ScheduleAction = "on" | "off" | "onRGB" | "offRGB";
+
+export type ScheduleRule =
+  | { kind: "weekly"; days: number[]; time: string }
+  | { kind: "cron"; expression: string };
+
+export interface Schedule {
+    id: string;
+    name: string;
+    deviceId: string;
+    // Remembered so the schedule still fires before the device list has loaded
+    commandTopic: string;
+    action: ScheduleAction;
+    rule: ScheduleRule;
+    enabled: boolean;
+    // Fire the latest occurrence missed while the page was closed
+    catchUp: boolean;
+    createdAt: number;
+    lastRunAt?: number;
+    lastError?: string;
+  }
+
+export interface SceneTarget {
+    deviceId: string;
+    // Omitted attributes are left as they are when the scene is applied
+    lightOn?: boolean;
+    rgbMode?: boolean;
+    brightness?: number;
+    color?: RgbColor;
+  }
+
+export interface Scene {
+    id: string;
+    name: string;
+    targets: SceneTarget[];
+    createdAt: number;
+  }
+
+export type SceneResultStatus =
+  | "pending"
+  | "reached"
+  | "failed"
+  | "unchanged"
+  | "missing"
+  | "queued"
+  // A newer command for the device took over before this one was acknowledged
+  | "superseded";
+
+// Device protocol, version 1. Messages without a version are treated as version 1.
+interface MessageBase {
+    version: number;
+    deviceId: string;
+  }
+
+export interface DeviceUpdateMessage extends MessageBase {
+    type: "update";
+    lightOn: boolean;
+    rgbMode?: boolean;
+    commandTopic?: string;
+    name?: string;
+    brightness?: number;
+    color?: RgbColor;
+    capabilities?: string[];
+    relays?: boolean[];
+    room?: string;
+    firmwareVersion?: string;
+    readings: Record<string, number>;
+    online: boolean;
+    timestamp: number;
+  }
+
+export interface DeviceDeleteMessage extends MessageBase {
+    type: "delete";
+  }
+
+export interface DeviceRenameMessage extends MessageBase {
+    type: "rename";
+    name: string;
+  }
+
+export interface HeartbeatMessage extends MessageBase {
+    type: "heartbeat";
+    online: boolean;
+    timestamp: number;
+  }
+
+export interface TelemetryMessage extends MessageBase {
+    type: "telemetry";
+    readings: Record<string, number>;
+    timestamp: number;
+  }
+
+export type OtaStatus = "requested" | "downloading" | "flashing" | "rebooting" | "done" | "failed";
+
+// Progress a device reports while applying a firmware update
+export interface OtaProgressMessage extends MessageBase {
+    type: "ota";
+    status: Exclude<OtaStatus, "requested">;
+    // 0-100, for the download and flash phases
+    progress?: number;
+    firmwareVersion?: string;
+    error?: string;
+  }
+
+export interface DeviceErrorMessage {
+    type: "error";
+    version: number;
+    // Errors from the bridge itself carry no device
+    deviceId?: string;
+    code?: string;
+    message: string;
+  }
+
+export type DeviceMessage =
+  | DeviceUpdateMessage
+  | DeviceDeleteMessage
+  | DeviceRenameMessage
+  | HeartbeatMessage
+  | TelemetryMessage
+  | OtaProgressMessage
+  | DeviceErrorMessage;
+
+export type DiagnosticSource = "websocket" | "mqtt" | "rest";
+
+export interface DiagnosticEntry {
+    id: string;
+    source: DiagnosticSource;
+    receivedAt: number;
+    error: string;
+    raw: string;
+  }
+
+export type UserRole = "viewer" | "operator" | "admin";
+
+export interface AuthUser {
+    username: string;
+    role: UserRole;
+  }
+
+export interface AuthSession {
+    accessToken: string;
+    refreshToken: string;
+    // Epoch ms after which the access token is rejected
+    expiresAt: number;
+    user: AuthUser;
+  }
+
+// Where an audited action came from; "device" and "remote" are changes reported over the connection
+export type AuditSource =
+  | "user"
+  | "room"
+  | "batch"
+  | "scene"
+  | "schedule"
+  | "automation"
+  | "queue"
+  | "rollout"
+  | "device"
+  | "remote";
+
+export type AuditKind =
+  | "command"
+  | "rename"
+  | "delete"
+  | "restore"
+  | "provision"
+  | "firmware"
+  | "automation"
+  | "state"
+  | "discovered"
+  | "removed";
+
+export interface AuditEntry {
+    id: string;
+    timestamp: number;
+    kind: AuditKind;
+    source: AuditSource;
+    // Logged-in user for commands, the device id for reported changes
+    actor: string;
+    deviceId?: string;
+    deviceName?: string;
+    summary: string;
+    // Raw payload and topic, if any
+    detail?: string;
+    error?: string;
+  }
+
+export interface TrashedDevice {
+    // Snapshot taken when the device was deleted, used to restore it
+    device: EspDevice;
+    deletedAt: number;
+    deletedBy: string;
+    // When the server delete is sent
+    purgeAt: number;
+  }
+
+// What the wizard registers for a new device; the firmware gets the same values in its config snippet
+export interface DeviceRegistration {
+    deviceId: string;
+    name: string;
+    stateTopic: string;
+    commandTopic: string;
+    username: string;
+    password: string;
+  }
+
+export interface FirmwareImage {
+    id: string;
+    version: string;
+    // Where devices download the binary from
+    url: string;
+    size: number;
+    sha256?: string;
+    uploadedAt: number;
+  }
+
+export interface DeviceOtaState {
+    status: OtaStatus;
+    progress?: number;
+    error?: string;
+    // Version the device ran before the update
+    fromVersion?: string;
+    updatedAt: number;
+  }
+
+export type RolloutStatus = "running" | "awaiting" | "halted" | "completed" | "aborted";
+
+export interface FirmwareRollout {
+    id: string;
+    firmware: FirmwareImage;
+    // Update order; stage n covers the first stages[n] percent of this list
+    deviceIds: string[];
+    stages: number[];
+    currentStage: number;
+    status: RolloutStatus;
+    // Only devices that have been sent the update appear here
+    devices: Record<string, DeviceOtaState>;
+    createdAt: number;
+    createdBy: string;
+  }
+
+export type ComparisonOperator = "changes" | "==" | "!=" | ">" | ">=" | "<" | "<=";
+
+// "lightOn", "rgbMode", "brightness", "relay:<index>" or "reading:<metric>"
+export type DeviceValueKey = string;
+
+export interface DeviceComparison {
+    deviceId: string;
+    key: DeviceValueKey;
+    operator: ComparisonOperator;
+    value?: number | boolean;
+  }
+
+export type TimeOfDay =
+  | { kind: "clock"; time: string }
+  | { kind: "sunrise" | "sunset"; offsetMinutes: number };
+
+export type AutomationTrigger =
+  // Fires when a reported value starts to satisfy the comparison
+  | ({ kind: "device" } & DeviceComparison)
+  | { kind: "schedule"; rule: ScheduleRule }
+  | { kind: "sun"; event: "sunrise" | "sunset"; offsetMinutes: number };
+
+export type AutomationCondition =
+  | ({ kind: "device" } & DeviceComparison)
+  // The window may wrap past midnight, e.g. sunset to 06:00
+  | { kind: "time"; after: TimeOfDay; before: TimeOfDay };
+
+export type AutomationAction =
+  | { kind: "publish"; deviceId: string; message: string }
+  | { kind: "delay"; seconds: number };
+
+export interface AutomationRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    // Logs what would be sent instead of sending it
+    dryRun: boolean;
+    // Any trigger starts the rule; every condition must hold at that moment
+    triggers: AutomationTrigger[];
+    conditions: AutomationCondition[];
+    actions: AutomationAction[];
+    createdAt: number;
+    lastFiredAt?: number;
+    lastError?: string;
+  }
+
+export type DeviceFilter = "on" | "off" | "rgb" | "offline";
+
+export type DeviceSort = "room" | "name" | "activity";
+
+export type DeviceLayout = "list" | "table";
+
+export interface DeviceView {
+    // Fuzzy-matched against name, device id and command topic
+    query: string;
+    filters: DeviceFilter[];
+    sort: DeviceSort;
+    layout: DeviceLayout;
+  }
+
+export type BatchAction =
+  | { kind: "light"; on: boolean }
+  | { kind: "rgb"; on: boolean }
+  | { kind: "room"; room: string }
+  | { kind: "delete" };
+
+export type BatchItemStatus = "pending" | "done" | "queued" | "skipped" | "failed";
+
+export interface BatchItemResult {
+    deviceId: string;
+    deviceName: string;
+    status: BatchItemStatus;
+    // Why the device was skipped or failed
+    note?: string;
+  }
+
+export interface BatchRun {
+    action: BatchAction;
+    items: BatchItemResult[];
+    startedAt: number;
+  }
+
+export type NotificationEvent = "offline" | "lightOnTooLong" | "commandFailed" | "deviceError" | "system";
+
+export interface NotificationChannels {
+    toast: boolean;
+    // Only delivered once the user has granted the browser permission
+    browser: boolean;
+  }
+
+export interface NotificationPreferences {
+    events: Record<NotificationEvent, NotificationChannels>;
+    // 0 turns the "light left on" alert off
+    lightOnHours: number;
+  }
+
+export interface NotificationToast {
+    id: string;
+    event: NotificationEvent;
+    message: string;
+    deviceId?: string;
+    createdAt: number;
+    // Repeats of the same message are folded into one toast
+    count: number;
+  }
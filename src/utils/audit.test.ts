@@ -0,0 +1,79 @@
+import { AuditEntry, EspDevice } from "../types/types";
+import { auditToCsv, describeStateChanges } from "./audit";
+
+const device: EspDevice = {
+  deviceId: "esp-1",
+  name: "Porch",
+  lightOn: false,
+  brightness: 40,
+  color: { r: 255, g: 0, b: 0 },
+  relays: [false, true],
+  firmwareVersion: "1.0.0",
+  commandTopic: "esp/esp-1/command",
+};
+
+const entry = (overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+  id: "a-1",
+  timestamp: Date.UTC(2024, 0, 15, 12, 30),
+  kind: "command",
+  source: "user",
+  actor: "admin",
+  summary: "Light on",
+  ...overrides,
+});
+
+describe("describeStateChanges", () => {
+  it("describes each field that changed", () => {
+    expect(
+      describeStateChanges(device, {
+        lightOn: true,
+        rgbMode: true,
+        brightness: 80,
+        color: { r: 0, g: 0, b: 255 },
+        relays: [true, true],
+        firmwareVersion: "1.1.0",
+        name: "Front door",
+      })
+    ).toEqual([
+      "light on",
+      "RGB on",
+      "brightness 40 → 80",
+      "color #ff0000 → #0000ff",
+      "relay 1 on",
+      "firmware 1.0.0 → 1.1.0",
+      'renamed to "Front door"',
+    ]);
+  });
+
+  it("ignores fields that are absent or unchanged", () => {
+    const same = { lightOn: false, rgbMode: false, brightness: 40, relays: [false] };
+    expect(describeStateChanges(device, same)).toEqual([]);
+  });
+
+  it("marks values the dashboard never knew", () => {
+    const bare = { deviceId: "esp-2", name: "Hall", lightOn: false, commandTopic: "t" };
+    expect(describeStateChanges(bare, { brightness: 10 })).toEqual(["brightness ? → 10"]);
+  });
+});
+
+describe("auditToCsv", () => {
+  it("writes a header and one row per entry with ISO timestamps", () => {
+    expect(auditToCsv([entry({ deviceId: "esp-1" })]).split("\n")).toEqual([
+      "timestamp,kind,source,actor,deviceId,deviceName,summary,detail,error",
+      "2024-01-15T12:30:00.000Z,command,user,admin,esp-1,,Light on,,",
+    ]);
+  });
+
+  it("quotes commas, quotes and line breaks", () => {
+    const row = auditToCsv([entry({ summary: 'Renamed to "Hall, upstairs"' })]).split("\n")[1];
+    expect(row).toContain('"Renamed to ""Hall, upstairs"""');
+    expect(auditToCsv([entry({ detail: "a\nb" })])).toContain('"a\nb"');
+  });
+
+  it("neutralises cells a spreadsheet would read as formulas", () => {
+    const cells = ["=1+1", "+1", "-1", "@SUM(A1)", "\tcmd", "\rcmd"].map((deviceName) =>
+      auditToCsv([entry({ deviceName })]).split("\n")[1].split(",")[5]
+    );
+    expect(cells).toEqual(["'=1+1", "'+1", "'-1", "'@SUM(A1)", "'\tcmd", "\"'\rcmd\""]);
+  });
+});
@@ -0,0 +1,70 @@
+import { AuditEntry, EspDevice } from "../types/types";
+import { colorsMatch, rgbToHex } from "./color";
+
+const onOff = (value: boolean | undefined) => (value ? "on" : "off");
+
+// One phrase per field that differs, e.g. ["light on", "brightness 40 → 80"]
+export const describeStateChanges = (before: EspDevice, after: Partial<EspDevice>): string[] => {
+  const changes: string[] = [];
+  if (after.lightOn !== undefined && after.lightOn !== before.lightOn) {
+    changes.push(`light ${onOff(after.lightOn)}`);
+  }
+  if (after.rgbMode !== undefined && after.rgbMode !== Boolean(before.rgbMode)) {
+    changes.push(`RGB ${onOff(after.rgbMode)}`);
+  }
+  if (after.brightness !== undefined && after.brightness !== before.brightness) {
+    changes.push(`brightness ${before.brightness ?? "?"} → ${after.brightness}`);
+  }
+  if (after.color && !colorsMatch(after.color, before.color, 0)) {
+    changes.push(`color ${before.color ? rgbToHex(before.color) : "?"} → ${rgbToHex(after.color)}`);
+  }
+  after.relays?.forEach((on, index) => {
+    if (before.relays?.[index] !== on) changes.push(`relay ${index + 1} ${onOff(on)}`);
+  });
+  if (after.firmwareVersion !== undefined && after.firmwareVersion !== before.firmwareVersion) {
+    changes.push(`firmware ${before.firmwareVersion ?? "?"} → ${after.firmwareVersion}`);
+  }
+  if (after.name !== undefined && after.name !== before.name) {
+    changes.push(`renamed to "${after.name}"`);
+  }
+  return changes;
+};
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  "timestamp",
+  "kind",
+  "source",
+  "actor",
+  "deviceId",
+  "deviceName",
+  "summary",
+  "detail",
+  "error",
+];
+
+// Names and payloads come from devices; a leading =, +, -, @, tab or carriage return would make spreadsheets
+// run them as formulas
+const csvCell = (value: unknown) => {
+  const raw = value === undefined ? "" : String(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditToCsv = (entries: AuditEntry[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...entries.map((entry) =>
+      CSV_COLUMNS.map((column) =>
+        csvCell(column === "timestamp" ? new Date(entry.timestamp).toISOString() : entry[column])
+      ).join(",")
+    ),
+  ].join("\n");
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,94 @@
+import { clearOverrides, saveOverrides } from "../config/config";
+import { DeviceComparison } from "../types/types";
+import { compare, comparisonStarted, inTimeWindow, readValue, reportedValues } from "./automation";
+
+const comparison = (operator: DeviceComparison["operator"], value?: number | boolean): DeviceComparison => ({
+  deviceId: "esp-1",
+  key: "reading:temperature",
+  operator,
+  value,
+});
+
+const at = (hours: number, minutes = 0) => new Date(2024, 0, 15, hours, minutes).getTime();
+
+describe("compare", () => {
+  it("treats booleans as 0 and 1", () => {
+    expect(compare(true, ">", 0)).toBe(true);
+    expect(compare(false, "==", 0)).toBe(true);
+  });
+
+  it("never holds for a missing value", () => {
+    expect(compare(undefined, "!=", 5)).toBe(false);
+  });
+});
+
+describe("comparisonStarted", () => {
+  it("fires only on the report that makes the comparison true", () => {
+    const above = comparison(">", 25);
+    expect(comparisonStarted(above, 24, 26)).toBe(true);
+    expect(comparisonStarted(above, 26, 27)).toBe(false);
+    expect(comparisonStarted(above, 26, 24)).toBe(false);
+  });
+
+  it("fires on the first report when nothing was known before", () => {
+    expect(comparisonStarted(comparison(">", 25), undefined, 26)).toBe(true);
+  });
+
+  it("fires on any change, but not on the first report", () => {
+    const changes = comparison("changes");
+    expect(comparisonStarted(changes, 20, 21)).toBe(true);
+    expect(comparisonStarted(changes, 21, 21)).toBe(false);
+    expect(comparisonStarted(changes, undefined, 21)).toBe(false);
+  });
+});
+
+describe("readValue and reportedValues", () => {
+  it("reads state, relays and readings by key", () => {
+    const device = { lightOn: true, relays: [false, true], readings: { lux: 300 } };
+    expect(readValue(device, "lightOn")).toBe(true);
+    expect(readValue(device, "relay:1")).toBe(true);
+    expect(readValue(device, "reading:lux")).toBe(300);
+    expect(readValue(device, "reading:co2")).toBeUndefined();
+  });
+
+  it("flattens only what was reported", () => {
+    expect(reportedValues({ brightness: 40, relays: [true] }, { lux: 12 })).toEqual({
+      brightness: 40,
+      "relay:0": true,
+      "reading:lux": 12,
+    });
+  });
+});
+
+describe("inTimeWindow", () => {
+  const clock = (time: string) => ({ kind: "clock" as const, time });
+
+  it("holds from the start up to, but not including, the end", () => {
+    expect(inTimeWindow(at(9), clock("09:00"), clock("17:00"))).toBe(true);
+    expect(inTimeWindow(at(16, 59), clock("09:00"), clock("17:00"))).toBe(true);
+    expect(inTimeWindow(at(17), clock("09:00"), clock("17:00"))).toBe(false);
+    expect(inTimeWindow(at(8), clock("09:00"), clock("17:00"))).toBe(false);
+  });
+
+  it("handles windows that wrap past midnight", () => {
+    expect(inTimeWindow(at(23), clock("22:00"), clock("06:00"))).toBe(true);
+    expect(inTimeWindow(at(5), clock("22:00"), clock("06:00"))).toBe(true);
+    expect(inTimeWindow(at(12), clock("22:00"), clock("06:00"))).toBe(false);
+  });
+
+  describe("with sun times", () => {
+    afterEach(clearOverrides);
+
+    const sunset = { kind: "sunset" as const, offsetMinutes: 0 };
+
+    it("never holds without a configured location", () => {
+      expect(inTimeWindow(at(23), sunset, clock("23:59"))).toBe(false);
+    });
+
+    it("resolves sunrise and sunset for the configured location", () => {
+      saveOverrides({ latitude: 51.5074, longitude: -0.1278 });
+      expect(inTimeWindow(at(23), sunset, clock("23:59"))).toBe(true);
+      expect(inTimeWindow(at(12), sunset, clock("23:59"))).toBe(false);
+    });
+  });
+});
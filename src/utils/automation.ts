@@ -0,0 +1,201 @@
+import {
+  AutomationAction,
+  AutomationCondition,
+  AutomationRule,
+  AutomationTrigger,
+  ComparisonOperator,
+  DeviceComparison,
+  DeviceValueKey,
+  EspDevice,
+  TimeOfDay,
+} from "../types/types";
+import { getConfig } from "../config/config";
+import { describeRule, validateRule } from "./schedule";
+import { sunTimes } from "./sun";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const OPERATOR_LABELS: Record<ComparisonOperator, string> = {
+  changes: "changes",
+  "==": "is",
+  "!=": "is not",
+  ">": "above",
+  ">=": "at least",
+  "<": "below",
+  "<=": "at most",
+};
+
+export const STATE_KEYS: Record<string, string> = {
+  lightOn: "Light",
+  rgbMode: "RGB mode",
+  brightness: "Brightness",
+};
+
+export type DeviceValue = number | boolean | undefined;
+
+export const isBooleanKey = (key: DeviceValueKey) =>
+  key === "lightOn" || key === "rgbMode" || key.startsWith("relay:");
+
+// Values a rule can refer to for this device, as [key, label] pairs
+export const deviceValueKeys = (device: EspDevice | undefined): [DeviceValueKey, string][] => {
+  const keys: [DeviceValueKey, string][] = Object.entries(STATE_KEYS);
+  device?.relays?.forEach((_, index) => keys.push([`relay:${index}`, `Relay ${index + 1}`]));
+  Object.keys(device?.readings ?? {}).forEach((metric) => keys.push([`reading:${metric}`, metric]));
+  return keys;
+};
+
+export const readValue = (device: Partial<EspDevice> | undefined, key: DeviceValueKey): DeviceValue => {
+  if (!device) return undefined;
+  if (key.startsWith("reading:")) return device.readings?.[key.slice("reading:".length)];
+  if (key.startsWith("relay:")) return device.relays?.[Number(key.slice("relay:".length))];
+  if (key === "lightOn" || key === "rgbMode" || key === "brightness") return device[key];
+  return undefined;
+};
+
+// Flattens a reported state and/or readings into key/value pairs
+export const reportedValues = (
+  state: Partial<EspDevice>,
+  readings: Record<string, number> = {}
+): Record<DeviceValueKey, DeviceValue> => {
+  const values: Record<DeviceValueKey, DeviceValue> = {};
+  Object.keys(STATE_KEYS).forEach((key) => {
+    const value = readValue(state, key);
+    if (value !== undefined) values[key] = value;
+  });
+  state.relays?.forEach((on, index) => (values[`relay:${index}`] = on));
+  Object.entries(readings).forEach(([metric, value]) => (values[`reading:${metric}`] = value));
+  return values;
+};
+
+export const compare = (actual: DeviceValue, operator: ComparisonOperator, expected: DeviceValue): boolean => {
+  if (actual === undefined || operator === "changes") return false;
+  // Booleans compare as 0/1 so "motion above 0" works for sensors that report true/false
+  const a = Number(actual);
+  const b = Number(expected);
+  switch (operator) {
+    case "==":
+      return a === b;
+    case "!=":
+      return a !== b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+  }
+};
+
+// Edge-triggered: only the report that makes the comparison true fires
+export const comparisonStarted = (comparison: DeviceComparison, previous: DeviceValue, next: DeviceValue) =>
+  comparison.operator === "changes"
+    ? previous !== undefined && next !== undefined && previous !== next
+    : compare(next, comparison.operator, comparison.value) && !compare(previous, comparison.operator, comparison.value);
+
+const hasLocation = () => !Number.isNaN(getConfig().latitude) && !Number.isNaN(getConfig().longitude);
+
+// The moment a time of day falls on the calendar day of `day`; null when the sun doesn't rise or set
+export const resolveTimeOfDay = (time: TimeOfDay, day: Date): number | null => {
+  if (time.kind === "clock") {
+    const [hours, minutes] = time.time.split(":").map(Number);
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes).getTime();
+  }
+  if (!hasLocation()) return null;
+  const sun = sunTimes(day, getConfig().latitude, getConfig().longitude);
+  return sun ? sun[time.kind] + time.offsetMinutes * MINUTE_MS : null;
+};
+
+export const inTimeWindow = (now: number, after: TimeOfDay, before: TimeOfDay): boolean => {
+  const today = new Date(now);
+  const start = resolveTimeOfDay(after, today);
+  const end = resolveTimeOfDay(before, today);
+  if (start === null || end === null) return false;
+  // A window that wraps midnight holds either late today or early today
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+// Sunrise/sunset occurrences in (from, to], checking the days that range touches
+export const sunEventsBetween = (
+  trigger: Extract<AutomationTrigger, { kind: "sun" }>,
+  from: number,
+  to: number
+): number[] => {
+  const result: number[] = [];
+  for (let day = from - DAY_MS; day <= to + DAY_MS; day += DAY_MS) {
+    const at = resolveTimeOfDay({ kind: trigger.event, offsetMinutes: trigger.offsetMinutes }, new Date(day));
+    if (at !== null && at > from && at <= to && !result.includes(at)) result.push(at);
+  }
+  return result;
+};
+
+export const conditionHolds = (
+  condition: AutomationCondition,
+  getDevice: (deviceId: string) => EspDevice | undefined,
+  now: number
+): boolean =>
+  condition.kind === "time"
+    ? inTimeWindow(now, condition.after, condition.before)
+    : compare(readValue(getDevice(condition.deviceId), condition.key), condition.operator, condition.value);
+
+const describeTime = (time: TimeOfDay) =>
+  time.kind === "clock"
+    ? time.time
+    : `${time.kind}${time.offsetMinutes ? ` ${time.offsetMinutes > 0 ? "+" : "−"}${Math.abs(time.offsetMinutes)} min` : ""}`;
+
+const keyLabel = (key: DeviceValueKey) =>
+  STATE_KEYS[key] ??
+  (key.startsWith("relay:") ? `Relay ${Number(key.slice(6)) + 1}` : key.replace(/^reading:/, ""));
+
+const formatValue = (key: DeviceValueKey, value: DeviceValue) =>
+  isBooleanKey(key) ? (value ? "on" : "off") : String(value);
+
+const describeComparison = (comparison: DeviceComparison, deviceName: (id: string) => string) =>
+  `${deviceName(comparison.deviceId)} ${keyLabel(comparison.key).toLowerCase()} ${OPERATOR_LABELS[comparison.operator]}${
+    comparison.operator === "changes" ? "" : ` ${formatValue(comparison.key, comparison.value)}`
+  }`;
+
+export const describeTrigger = (trigger: AutomationTrigger, deviceName: (id: string) => string) => {
+  if (trigger.kind === "device") return `When ${describeComparison(trigger, deviceName)}`;
+  if (trigger.kind === "sun") return `At ${describeTime({ kind: trigger.event, offsetMinutes: trigger.offsetMinutes })}`;
+  return describeRule(trigger.rule);
+};
+
+export const describeCondition = (condition: AutomationCondition, deviceName: (id: string) => string) =>
+  condition.kind === "time"
+    ? `between ${describeTime(condition.after)} and ${describeTime(condition.before)}`
+    : describeComparison(condition, deviceName);
+
+export const describeAction = (action: AutomationAction, deviceName: (id: string) => string) =>
+  action.kind === "delay" ? `wait ${action.seconds}s` : `send "${action.message}" to ${deviceName(action.deviceId)}`;
+
+const usesSun = (time: TimeOfDay) => time.kind !== "clock";
+
+export const validateAutomation = (rule: Pick<AutomationRule, "triggers" | "conditions" | "actions">): string | null => {
+  if (rule.triggers.length === 0) return "Add at least one trigger";
+  if (rule.actions.length === 0) return "Add at least one action";
+  if (rule.actions.every((action) => action.kind === "delay")) return "Add an action that sends a command";
+
+  for (const trigger of rule.triggers) {
+    if (trigger.kind === "schedule") {
+      const error = validateRule(trigger.rule);
+      if (error) return error;
+    }
+    if (trigger.kind === "device" && !trigger.deviceId) return "Pick a device for every trigger";
+  }
+
+  const needsSun =
+    rule.triggers.some((trigger) => trigger.kind === "sun") ||
+    rule.conditions.some((condition) => condition.kind === "time" && (usesSun(condition.after) || usesSun(condition.before)));
+  if (needsSun && !hasLocation()) return "Set a latitude and longitude in Settings to use sunrise or sunset";
+
+  for (const action of rule.actions) {
+    if (action.kind === "delay" && !(action.seconds > 0)) return "Delays must be longer than 0 seconds";
+    if (action.kind === "publish" && (!action.deviceId || !action.message.trim())) {
+      return "Every command needs a device and a message";
+    }
+  }
+  return null;
+};
@@ -0,0 +1,29 @@
+import { backoffDelay } from "./backoff";
+
+describe("backoffDelay", () => {
+  const lowest = () => 0;
+  const highest = () => 1;
+
+  it("doubles the ceiling with each attempt", () => {
+    expect(backoffDelay(1, 1000, 30000, highest)).toBe(1000);
+    expect(backoffDelay(2, 1000, 30000, highest)).toBe(2000);
+    expect(backoffDelay(4, 1000, 30000, highest)).toBe(8000);
+  });
+
+  it("caps the ceiling at maxMs", () => {
+    expect(backoffDelay(20, 1000, 30000, highest)).toBe(30000);
+  });
+
+  it("never goes below half the base delay", () => {
+    expect(backoffDelay(1, 1000, 30000, lowest)).toBe(500);
+    expect(backoffDelay(10, 1000, 30000, lowest)).toBe(500);
+  });
+
+  it("spreads delays between the floor and the ceiling", () => {
+    expect(backoffDelay(3, 1000, 30000, () => 0.5)).toBe(2250);
+  });
+
+  it("treats attempt 0 like the first attempt", () => {
+    expect(backoffDelay(0, 1000, 30000, highest)).toBe(1000);
+  });
+});
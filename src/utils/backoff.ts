@@ -0,0 +1,7 @@
+// Exponential backoff with jitter: a random delay between half the base delay and the capped
+// exponential step, so a fleet of dashboards reconnecting after a server restart does not stampede it.
+// The floor keeps even the first retry from firing immediately.
+export const backoffDelay = (attempt: number, baseMs: number, maxMs: number, random = Math.random) => {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(baseMs / 2 + random() * Math.max(0, ceiling - baseMs / 2));
+};
@@ -0,0 +1,49 @@
+import { BatchItemResult, BatchItemStatus } from "../types/types";
+import { countByStatus, describeBatchAction, runWithConcurrency } from "./batch";
+
+describe("runWithConcurrency", () => {
+  it("runs every item once with no more than the limit in flight", async () => {
+    const items = Array.from({ length: 10 }, (_, i) => i);
+    const seen: number[] = [];
+    let inFlight = 0;
+    let peak = 0;
+    await runWithConcurrency(items, 4, async (item) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, item % 3));
+      seen.push(item);
+      inFlight--;
+    });
+    expect([...seen].sort((a, b) => a - b)).toEqual(items);
+    expect(peak).toBe(4);
+  });
+
+  it("starts items in order and copes with fewer items than lanes", async () => {
+    const started: string[] = [];
+    await runWithConcurrency(["a", "b"], 4, async (item) => {
+      started.push(item);
+    });
+    expect(started).toEqual(["a", "b"]);
+  });
+
+  it("resolves immediately for an empty list", async () => {
+    const worker = jest.fn();
+    await runWithConcurrency([], 4, worker);
+    expect(worker).not.toHaveBeenCalled();
+  });
+});
+
+describe("countByStatus", () => {
+  it("counts only the statuses that occur", () => {
+    const item = (status: BatchItemStatus): BatchItemResult => ({ deviceId: "esp", deviceName: "ESP", status });
+    expect(countByStatus([item("done"), item("failed"), item("done")])).toEqual({ done: 2, failed: 1 });
+    expect(countByStatus([])).toEqual({});
+  });
+});
+
+describe("describeBatchAction", () => {
+  it("describes moving out of a room", () => {
+    expect(describeBatchAction({ kind: "room", room: "" })).toBe("Remove from room");
+    expect(describeBatchAction({ kind: "room", room: "Kitchen" })).toBe("Move to Kitchen");
+  });
+});
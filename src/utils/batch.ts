@@ -0,0 +1,34 @@
+import { BatchAction, BatchItemResult, BatchItemStatus } from "../types/types";
+
+// Devices handled at the same time, so a large selection doesn't flood the broker
+export const BATCH_CONCURRENCY = 4;
+
+export const describeBatchAction = (action: BatchAction): string => {
+  switch (action.kind) {
+    case "light":
+      return action.on ? "Turn on" : "Turn off";
+    case "rgb":
+      return action.on ? "RGB on" : "RGB off";
+    case "room":
+      return action.room ? `Move to ${action.room}` : "Remove from room";
+    case "delete":
+      return "Move to trash";
+  }
+};
+
+// Runs the worker over every item with at most `limit` in flight; failures are the worker's to report
+export const runWithConcurrency = async <T,>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+};
+
+export const countByStatus = (items: BatchItemResult[]) =>
+  items.reduce<Partial<Record<BatchItemStatus, number>>>(
+    (counts, item) => ({ ...counts, [item.status]: (counts[item.status] ?? 0) + 1 }),
+    {}
+  );
@@ -0,0 +1,70 @@
+import { clampBrightness, colorsMatch, hsvToRgb, parseColor, rgbToHex, rgbToHsv } from "./color";
+
+describe("hsvToRgb / rgbToHsv", () => {
+  it("converts the primary colors", () => {
+    expect(hsvToRgb({ h: 0, s: 1, v: 1 })).toEqual({ r: 255, g: 0, b: 0 });
+    expect(hsvToRgb({ h: 120, s: 1, v: 1 })).toEqual({ r: 0, g: 255, b: 0 });
+    expect(hsvToRgb({ h: 240, s: 1, v: 1 })).toEqual({ r: 0, g: 0, b: 255 });
+  });
+
+  it("wraps hues outside 0-360", () => {
+    expect(hsvToRgb({ h: 480, s: 1, v: 1 })).toEqual(hsvToRgb({ h: 120, s: 1, v: 1 }));
+    expect(hsvToRgb({ h: -120, s: 1, v: 1 })).toEqual(hsvToRgb({ h: 240, s: 1, v: 1 }));
+  });
+
+  it("round-trips within rounding error", () => {
+    const color = { r: 200, g: 120, b: 40 };
+    expect(colorsMatch(hsvToRgb(rgbToHsv(color)), color, 1)).toBe(true);
+  });
+
+  it("reports black as zero saturation", () => {
+    expect(rgbToHsv({ r: 0, g: 0, b: 0 })).toEqual({ h: 0, s: 0, v: 0 });
+  });
+});
+
+describe("rgbToHex", () => {
+  it("pads each channel to two digits", () => {
+    expect(rgbToHex({ r: 1, g: 171, b: 255 })).toBe("#01abff");
+  });
+});
+
+describe("parseColor", () => {
+  it("accepts hex strings with or without #", () => {
+    expect(parseColor("#ff8000")).toEqual({ r: 255, g: 128, b: 0 });
+    expect(parseColor(" FF8000 ")).toEqual({ r: 255, g: 128, b: 0 });
+  });
+
+  it("clamps and rounds rgb objects", () => {
+    expect(parseColor({ r: 300, g: -5, b: 12.6 })).toEqual({ r: 255, g: 0, b: 13 });
+  });
+
+  it("accepts hsv with saturation and value as 0-1 or 0-100", () => {
+    expect(parseColor({ h: 0, s: 100, v: 100 })).toEqual({ r: 255, g: 0, b: 0 });
+    expect(parseColor({ h: 0, s: 1, v: 1 })).toEqual({ r: 255, g: 0, b: 0 });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseColor("red")).toBeUndefined();
+    expect(parseColor(null)).toBeUndefined();
+    expect(parseColor({ r: 1, g: 2 })).toBeUndefined();
+  });
+});
+
+describe("colorsMatch", () => {
+  it("allows a small tolerance per channel", () => {
+    expect(colorsMatch({ r: 10, g: 10, b: 10 }, { r: 12, g: 8, b: 10 })).toBe(true);
+    expect(colorsMatch({ r: 10, g: 10, b: 10 }, { r: 13, g: 10, b: 10 })).toBe(false);
+  });
+
+  it("never matches a missing color", () => {
+    expect(colorsMatch(undefined, { r: 0, g: 0, b: 0 })).toBe(false);
+  });
+});
+
+describe("clampBrightness", () => {
+  it("rounds into 0-100", () => {
+    expect(clampBrightness(-3)).toBe(0);
+    expect(clampBrightness(42.4)).toBe(42);
+    expect(clampBrightness(150)).toBe(100);
+  });
+});
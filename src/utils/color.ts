@@ -0,0 +1,83 @@
+import { HsvColor, RgbColor } from "../types/types";
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clampBrightness = (value: number) => Math.round(clamp(value, 0, 100));
+
+// h in degrees 0-360, s and v in 0-1
+export const hsvToRgb = ({ h, s, v }: HsvColor): RgbColor => {
+  const c = v * s;
+  const hp = ((h % 360) + 360) % 360 / 60;
+  const x = c * (1 - Math.abs((hp % 2) - 1));
+  const [r1, g1, b1] =
+    hp < 1 ? [c, x, 0] :
+    hp < 2 ? [x, c, 0] :
+    hp < 3 ? [0, c, x] :
+    hp < 4 ? [0, x, c] :
+    hp < 5 ? [x, 0, c] :
+    [c, 0, x];
+  const m = v - c;
+  return {
+    r: Math.round((r1 + m) * 255),
+    g: Math.round((g1 + m) * 255),
+    b: Math.round((b1 + m) * 255),
+  };
+};
+
+export const rgbToHsv = ({ r, g, b }: RgbColor): HsvColor => {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const delta = max - Math.min(rn, gn, bn);
+
+  let h = 0;
+  if (delta > 0) {
+    if (max === rn) h = 60 * (((gn - bn) / delta) % 6);
+    else if (max === gn) h = 60 * ((bn - rn) / delta + 2);
+    else h = 60 * ((rn - gn) / delta + 4);
+  }
+
+  return { h: (h + 360) % 360, s: max === 0 ? 0 : delta / max, v: max };
+};
+
+export const rgbToHex = ({ r, g, b }: RgbColor) =>
+  `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, "0")).join("")}`;
+
+// Accepts {r,g,b}, {h,s,v} (s/v as 0-1 or 0-100) or "#rrggbb" as sent by the firmware
+export const parseColor = (value: unknown): RgbColor | undefined => {
+  if (typeof value === "string") {
+    const match = /^#?([0-9a-f]{6})$/i.exec(value.trim());
+    if (!match) return undefined;
+    const hex = parseInt(match[1], 16);
+    return { r: (hex >> 16) & 255, g: (hex >> 8) & 255, b: hex & 255 };
+  }
+
+  if (typeof value !== "object" || value === null) return undefined;
+  const color = value as Record<string, unknown>;
+
+  if (["r", "g", "b"].every((key) => typeof color[key] === "number")) {
+    return {
+      r: Math.round(clamp(color.r as number, 0, 255)),
+      g: Math.round(clamp(color.g as number, 0, 255)),
+      b: Math.round(clamp(color.b as number, 0, 255)),
+    };
+  }
+
+  if (["h", "s", "v"].every((key) => typeof color[key] === "number")) {
+    const scale = (n: number) => (n > 1 ? n / 100 : n);
+    return hsvToRgb({
+      h: color.h as number,
+      s: clamp(scale(color.s as number), 0, 1),
+      v: clamp(scale(color.v as number), 0, 1),
+    });
+  }
+
+  return undefined;
+};
+
+export const colorsMatch = (a: RgbColor | undefined, b: RgbColor | undefined, tolerance = 2) =>
+  !!a && !!b &&
+  Math.abs(a.r - b.r) <= tolerance &&
+  Math.abs(a.g - b.g) <= tolerance &&
+  Math.abs(a.b - b.b) <= tolerance;
@@ -0,0 +1,47 @@
+import { QueuedCommand } from "../types/types";
+import { addToQueue } from "./commandQueue";
+
+const command = (overrides: Partial<QueuedCommand>): QueuedCommand => ({
+  id: "queued-1",
+  deviceId: "esp-1",
+  deviceName: "Desk",
+  attribute: "light",
+  label: "Light on",
+  topic: "esp-1/cmd",
+  messages: ["on"],
+  expected: { lightOn: true },
+  previous: { lightOn: false },
+  source: "user",
+  enqueuedAt: 1000,
+  ...overrides,
+});
+
+describe("addToQueue", () => {
+  it("appends commands in order", () => {
+    const first = command({ id: "a" });
+    const second = command({ id: "b", deviceId: "esp-2" });
+    expect(addToQueue(addToQueue([], first), second)).toEqual([first, second]);
+  });
+
+  it("replaces an older command for the same device and attribute", () => {
+    const on = command({ id: "a", expected: { lightOn: true }, previous: { lightOn: false } });
+    const other = command({ id: "b", deviceId: "esp-2" });
+    const off = command({ id: "c", expected: { lightOn: false }, previous: { lightOn: true } });
+    const queue = addToQueue([on, other], off);
+    expect(queue.map((q) => q.id)).toEqual(["b", "c"]);
+    expect(queue[1].expected).toEqual({ lightOn: false });
+  });
+
+  it("keeps the state from before the replaced command was queued", () => {
+    const on = command({ id: "a", previous: { lightOn: false, rgbMode: true } });
+    // Captured from the store, which already showed the first command's optimistic state
+    const off = command({ id: "b", expected: { lightOn: false }, previous: { lightOn: true, brightness: 40 } });
+    expect(addToQueue([on], off)[0].previous).toEqual({ lightOn: false, rgbMode: true, brightness: 40 });
+  });
+
+  it("keeps commands for other attributes of the same device", () => {
+    const light = command({ id: "a" });
+    const rgb = command({ id: "b", attribute: "rgb", expected: { rgbMode: true }, previous: { rgbMode: false } });
+    expect(addToQueue([light], rgb)).toEqual([light, rgb]);
+  });
+});
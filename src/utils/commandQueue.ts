@@ -0,0 +1,10 @@
+import { QueuedCommand } from "../types/types";
+
+// A newer command for the same device and attribute makes the older one pointless,
+// but the older one still knows the state from before either was queued
+export const addToQueue = (queue: QueuedCommand[], command: QueuedCommand): QueuedCommand[] => {
+  const same = (q: QueuedCommand) => q.deviceId === command.deviceId && q.attribute === command.attribute;
+  const replaced = queue.find(same);
+  const previous = replaced ? { ...command.previous, ...replaced.previous } : command.previous;
+  return [...queue.filter((q) => !same(q)), { ...command, previous }];
+};
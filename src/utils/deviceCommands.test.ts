@@ -0,0 +1,75 @@
+import { EspDevice } from "../types/types";
+import { renameDevice } from "../api/api";
+import { deviceStore } from "../store/deviceStore";
+import { applyRename, MAX_NAME_LENGTH, validateDeviceName } from "./deviceCommands";
+
+jest.mock("../api/api");
+
+const device = (deviceId: string, name: string): EspDevice => ({
+  deviceId,
+  name,
+  lightOn: false,
+  commandTopic: `esp/${deviceId}/command`,
+});
+
+const porch = device("esp-1", "Porch");
+const nameInStore = () => deviceStore.getDevice("esp-1")?.name;
+
+describe("validateDeviceName", () => {
+  const devices = [porch, device("esp-2", "Hall")];
+
+  it("accepts a trimmed, unique name", () => {
+    expect(validateDeviceName("  Front door ", porch, devices)).toBeNull();
+    expect(validateDeviceName("porch", porch, devices)).toBeNull();
+  });
+
+  it("rejects empty, overlong and control-character names", () => {
+    expect(validateDeviceName("   ", porch, devices)).toBe("Name cannot be empty");
+    expect(validateDeviceName("x".repeat(MAX_NAME_LENGTH), porch, devices)).toBeNull();
+    expect(validateDeviceName("x".repeat(MAX_NAME_LENGTH + 1), porch, devices)).toMatch(/characters or fewer/);
+    expect(validateDeviceName("Porch\u0007", porch, devices)).toBe("Name contains invalid characters");
+  });
+
+  it("rejects names another device already uses, ignoring case", () => {
+    expect(validateDeviceName("HALL", porch, devices)).toBe("Another device already has this name");
+  });
+});
+
+describe("applyRename", () => {
+  const setErrorMessage = jest.fn();
+
+  beforeEach(() => {
+    deviceStore.dispatch({ type: "sync", devices: [porch] });
+  });
+
+  it("shows the new name at once and keeps it when the backend accepts", async () => {
+    let resolve = () => {};
+    (renameDevice as jest.Mock).mockReturnValue(new Promise<void>((r) => (resolve = r)));
+    const renamed = applyRename({ setErrorMessage }, porch, " Front door ");
+    expect(nameInStore()).toBe("Front door");
+    resolve();
+    expect(await renamed).toBe(true);
+    expect(renameDevice).toHaveBeenCalledWith(porch, "Front door");
+  });
+
+  it("skips unchanged names", async () => {
+    expect(await applyRename({ setErrorMessage }, porch, "Porch ")).toBe(true);
+    expect(renameDevice).not.toHaveBeenCalled();
+  });
+
+  it("restores the old name when the backend rejects the rename", async () => {
+    (renameDevice as jest.Mock).mockRejectedValue(new Error("Name taken"));
+    expect(await applyRename({ setErrorMessage }, porch, "Front door")).toBe(false);
+    expect(nameInStore()).toBe("Porch");
+    expect(setErrorMessage).toHaveBeenCalledWith("Failed to rename Porch: Name taken");
+  });
+
+  it("keeps a rename from another client that arrived while waiting", async () => {
+    (renameDevice as jest.Mock).mockImplementation(async () => {
+      deviceStore.dispatch({ type: "upsert", device: { deviceId: "esp-1", name: "Garden" } });
+      throw new Error("Conflict");
+    });
+    expect(await applyRename({ setErrorMessage }, porch, "Front door")).toBe(false);
+    expect(nameInStore()).toBe("Garden");
+  });
+});
@@ -0,0 +1,148 @@
+import { AuditSource, CommandStatus, EspDevice, QueuedCommand } from "../types/types";
+import { publishMQTTMessage, renameDevice } from "../api/api";
+import { errorReason } from "../api/http";
+import { DeviceState, TrackedCommand } from "../hooks/useCommandTracker";
+import { deviceStore } from "../store/deviceStore";
+
+export type NewQueuedCommand = Omit<QueuedCommand, "id" | "enqueuedAt">;
+
+export interface CommandContext {
+  setErrorMessage: (message: string | null) => void;
+  trackCommand: (command: TrackedCommand) => string;
+  // Returns true when the command was queued for later instead of being sent now
+  enqueueCommand?: (command: NewQueuedCommand) => boolean;
+  // Recorded in the audit log; defaults to "user"
+  source?: AuditSource;
+}
+
+export type CommandOutcome = CommandStatus | "superseded" | "unchanged" | "queued";
+
+export interface DeviceCommand {
+  device: EspDevice;
+  attribute: string;
+  label: string;
+  expected: DeviceState;
+  previous: DeviceState;
+  // State to show right away; defaults to expected
+  optimistic?: DeviceState;
+  messages: string[];
+  // Wait before publishing, e.g. to let a CSS transition play
+  delayMs?: number;
+  failureMessage: string;
+}
+
+// Shows the command's effect right away and sends it, or queues it while disconnected
+export const dispatchCommand = (
+  { setErrorMessage, trackCommand, enqueueCommand, source = "user" }: CommandContext,
+  { device, attribute, label, expected, previous, optimistic, messages, delayMs, failureMessage }: DeviceCommand
+): Promise<CommandOutcome> => {
+  const queued = enqueueCommand?.({
+    deviceId: device.deviceId,
+    deviceName: device.name,
+    attribute,
+    label,
+    topic: device.commandTopic,
+    messages,
+    expected,
+    previous,
+    source,
+  });
+  if (queued) {
+    deviceStore.dispatch({ type: "optimisticSet", deviceId: device.deviceId, state: optimistic ?? expected });
+    return Promise.resolve("queued");
+  }
+
+  return new Promise((resolve) => {
+    trackCommand({
+      deviceId: device.deviceId,
+      expected,
+      previous,
+      optimistic,
+      send: async () => {
+        if (delayMs) await new Promise(resolve => setTimeout(resolve, delayMs));
+        for (const message of messages) {
+          await publishMQTTMessage(message, device.commandTopic, { source, deviceId: device.deviceId, label });
+        }
+      },
+      onFailed: () => setErrorMessage(failureMessage),
+      onSettled: resolve,
+    });
+  });
+};
+
+// Optimistically switches the light and resolves once the device acknowledges or the command fails
+export const setLight = (context: CommandContext, device: EspDevice, on: boolean): Promise<CommandOutcome> => {
+  if (device.lightOn === on) return Promise.resolve("unchanged");
+
+  return dispatchCommand(context, {
+    device,
+    attribute: "light",
+    label: on ? "Light on" : "Light off",
+    expected: { lightOn: on },
+    previous: { lightOn: device.lightOn, rgbMode: device.rgbMode },
+    optimistic: { lightOn: on, rgbMode: device.lightOn ? device.rgbMode : false },
+    messages: on && device.rgbMode ? ["on", "offRGB"] : [on ? "on" : "off"],
+    failureMessage: `Failed to toggle light on ${device.name}`,
+  });
+};
+
+export const setRgb = (context: CommandContext, device: EspDevice, on: boolean): Promise<CommandOutcome> => {
+  if (Boolean(device.rgbMode) === on) return Promise.resolve("unchanged");
+
+  return dispatchCommand(context, {
+    device,
+    attribute: "rgb",
+    label: on ? "RGB on" : "RGB off",
+    expected: { rgbMode: on },
+    previous: { lightOn: device.lightOn, rgbMode: device.rgbMode },
+    optimistic: { rgbMode: on, lightOn: device.rgbMode ? device.lightOn : false },
+    messages: on && device.lightOn ? ["onRGB", "off"] : [on ? "onRGB" : "offRGB"],
+    delayMs: 100, // Small delay for transition
+    failureMessage: `Failed to toggle RGB mode on ${device.name}`,
+  });
+};
+
+export const MAX_NAME_LENGTH = 32;
+
+export const validateDeviceName = (
+  name: string,
+  device: Pick<EspDevice, "deviceId">,
+  devices: EspDevice[]
+): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return "Name cannot be empty";
+  if (trimmed.length > MAX_NAME_LENGTH) return `Name must be ${MAX_NAME_LENGTH} characters or fewer`;
+  // eslint-disable-next-line no-control-regex
+  if (/[\u0000-\u001f\u007f]/.test(trimmed)) return "Name contains invalid characters";
+  const duplicate = devices.some(
+    (d) => d.deviceId !== device.deviceId && d.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (duplicate) return "Another device already has this name";
+  return null;
+};
+
+// Shows the new name immediately and restores the old one if the backend rejects it,
+// unless a rename from another client has arrived in the meantime
+export const applyRename = async (
+  { setErrorMessage }: Pick<CommandContext, "setErrorMessage">,
+  device: EspDevice,
+  name: string
+): Promise<boolean> => {
+  const previousName = device.name;
+  const newName = name.trim();
+  if (newName === previousName) return true;
+
+  const setName = (value: string) =>
+    deviceStore.dispatch({ type: "upsert", device: { deviceId: device.deviceId, name: value } });
+
+  setName(newName);
+  try {
+    await renameDevice(device, newName);
+    return true;
+  } catch (error) {
+    if (deviceStore.getDevice(device.deviceId)?.name === newName) setName(previousName);
+    const reason = errorReason(error);
+    setErrorMessage(`Failed to rename ${previousName}: ${reason}`);
+    return false;
+  }
+};
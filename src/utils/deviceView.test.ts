@@ -0,0 +1,81 @@
+import { DeviceView, EspDevice } from "../types/types";
+import { UNASSIGNED_ROOM } from "../hooks/useRooms";
+import { applyView, DEFAULT_VIEW, DeviceViewContext, fuzzyMatch, viewFromSearch, viewToSearch } from "./deviceView";
+
+const device = (deviceId: string, overrides: Partial<EspDevice> = {}): EspDevice => ({
+  deviceId,
+  name: deviceId,
+  lightOn: false,
+  commandTopic: `esp/${deviceId}/command`,
+  ...overrides,
+});
+
+const devices = [
+  device("a", { name: "Living room lamp", lightOn: true, room: "Living room", lastSeen: 300 }),
+  device("b", { name: "Bedside", lightOn: false, room: "Bedroom" }),
+  device("c", { name: "Porch", lightOn: true, rgbMode: true, lastSeen: 500 }),
+  device("d", { name: "Attic", lightOn: false, room: "Bedroom", lastSeen: 100 }),
+];
+
+const context: DeviceViewContext = {
+  roomOf: (d) => d.room ?? UNASSIGNED_ROOM,
+  lastActivity: (d) => d.lastSeen,
+  isOffline: (d) => d.lastSeen === undefined,
+};
+
+const view = (overrides: Partial<DeviceView>): DeviceView => ({ ...DEFAULT_VIEW, ...overrides });
+const ids = (result: EspDevice[]) => result.map((d) => d.deviceId);
+
+describe("fuzzyMatch", () => {
+  it("matches characters in order, ignoring case", () => {
+    expect(fuzzyMatch("lvr", "Living room")).toBe(true);
+    expect(fuzzyMatch("LR", "living room")).toBe(true);
+    expect(fuzzyMatch("rvl", "Living room")).toBe(false);
+    expect(fuzzyMatch("", "anything")).toBe(true);
+  });
+});
+
+describe("applyView", () => {
+  it("requires every search term to match a name, id or topic", () => {
+    expect(ids(applyView(devices, view({ query: "lamp" }), context))).toEqual(["a"]);
+    expect(ids(applyView(devices, view({ query: "esp/c/" }), context))).toEqual(["c"]);
+    expect(ids(applyView(devices, view({ query: "living bedside" }), context))).toEqual([]);
+  });
+
+  it("widens with on and off but narrows with the other filters", () => {
+    expect(ids(applyView(devices, view({ filters: ["on", "off"] }), context))).toHaveLength(4);
+    expect(ids(applyView(devices, view({ filters: ["on", "rgb"] }), context))).toEqual(["c"]);
+    expect(ids(applyView(devices, view({ filters: ["offline"] }), context))).toEqual(["b"]);
+  });
+
+  it("sorts by room with unassigned devices last, then by name", () => {
+    expect(ids(applyView(devices, view({ sort: "room" }), context))).toEqual(["d", "b", "a", "c"]);
+  });
+
+  it("sorts by most recent activity with silent devices last", () => {
+    expect(ids(applyView(devices, view({ sort: "activity" }), context))).toEqual(["c", "a", "d", "b"]);
+  });
+
+  it("does not reorder the array it was given", () => {
+    const copy = [...devices];
+    applyView(devices, view({ sort: "name" }), context);
+    expect(devices).toEqual(copy);
+  });
+});
+
+describe("viewFromSearch and viewToSearch", () => {
+  it("round-trips a view through the URL", () => {
+    const custom = view({ query: "porch", filters: ["on", "rgb"], sort: "activity", layout: "table" });
+    expect(viewFromSearch(viewToSearch(custom, ""))).toEqual(custom);
+  });
+
+  it("leaves defaults out of the URL and keeps unrelated parameters", () => {
+    expect(viewToSearch(DEFAULT_VIEW, "")).toBe("");
+    expect(viewToSearch(view({ sort: "name" }), "?sort=activity&tab=2")).toBe("?sort=name&tab=2");
+    expect(viewToSearch(DEFAULT_VIEW, "?q=old&tab=2")).toBe("?tab=2");
+  });
+
+  it("falls back to defaults for unknown values", () => {
+    expect(viewFromSearch("?sort=size&layout=grid&filter=on,bogus")).toEqual(view({ filters: ["on"] }));
+  });
+});
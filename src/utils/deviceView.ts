@@ -0,0 +1,103 @@
+import { DeviceFilter, DeviceLayout, DeviceSort, DeviceView, EspDevice } from "../types/types";
+import { UNASSIGNED_ROOM } from "../hooks/useRooms";
+
+export const DEFAULT_VIEW: DeviceView = { query: "", filters: [], sort: "room", layout: "list" };
+
+export const FILTER_LABELS: Record<DeviceFilter, string> = {
+  on: "On",
+  off: "Off",
+  rgb: "RGB",
+  offline: "Offline",
+};
+
+export const SORT_LABELS: Record<DeviceSort, string> = {
+  room: "Room",
+  name: "Name",
+  activity: "Last activity",
+};
+
+export const LAYOUT_LABELS: Record<DeviceLayout, string> = {
+  list: "▦ List",
+  table: "☰ Table",
+};
+
+export interface DeviceViewContext {
+  roomOf: (device: EspDevice) => string;
+  lastActivity: (device: EspDevice) => number | undefined;
+  isOffline: (device: EspDevice) => boolean;
+}
+
+// Every character of the term appears in order, e.g. "lvr" matches "Living room"
+export const fuzzyMatch = (term: string, text: string): boolean => {
+  const haystack = text.toLowerCase();
+  let position = 0;
+  for (const char of term.toLowerCase()) {
+    position = haystack.indexOf(char, position) + 1;
+    if (position === 0) return false;
+  }
+  return true;
+};
+
+// Each whitespace-separated term has to match one of the searchable fields
+export const matchesQuery = (device: EspDevice, query: string): boolean =>
+  query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => [device.name, device.deviceId, device.commandTopic].some((field) => fuzzyMatch(term, field)));
+
+// On and Off widen each other; the other chips narrow the result
+const matchesFilters = (device: EspDevice, filters: DeviceFilter[], context: DeviceViewContext): boolean => {
+  const power = filters.filter((f): f is "on" | "off" => f === "on" || f === "off");
+  if (power.length > 0 && !power.includes(device.lightOn ? "on" : "off")) return false;
+  if (filters.includes("rgb") && !device.rgbMode) return false;
+  if (filters.includes("offline") && !context.isOffline(device)) return false;
+  return true;
+};
+
+const compareRooms = (a: string, b: string) =>
+  a === b ? 0 : a === UNASSIGNED_ROOM ? 1 : b === UNASSIGNED_ROOM ? -1 : a.localeCompare(b);
+
+export const applyView = (devices: EspDevice[], view: DeviceView, context: DeviceViewContext): EspDevice[] => {
+  const byName = (a: EspDevice, b: EspDevice) => a.name.localeCompare(b.name);
+  const comparators: Record<DeviceSort, (a: EspDevice, b: EspDevice) => number> = {
+    name: byName,
+    room: (a, b) => compareRooms(context.roomOf(a), context.roomOf(b)) || byName(a, b),
+    // Most recent first; devices never heard from go last
+    activity: (a, b) => (context.lastActivity(b) ?? -1) - (context.lastActivity(a) ?? -1) || byName(a, b),
+  };
+  return devices
+    .filter((device) => matchesQuery(device, view.query) && matchesFilters(device, view.filters, context))
+    .sort(comparators[view.sort]);
+};
+
+const isOneOf = <T extends string>(labels: Record<T, string>, value: string | null): value is T =>
+  value !== null && Object.prototype.hasOwnProperty.call(labels, value);
+
+// Unknown values in a hand-edited URL fall back to the defaults
+export const viewFromSearch = (search: string): DeviceView => {
+  const params = new URLSearchParams(search);
+  const sort = params.get("sort");
+  const layout = params.get("layout");
+  return {
+    query: params.get("q") ?? DEFAULT_VIEW.query,
+    filters: (params.get("filter") ?? "")
+      .split(",")
+      .filter((filter): filter is DeviceFilter => isOneOf(FILTER_LABELS, filter)),
+    sort: isOneOf(SORT_LABELS, sort) ? sort : DEFAULT_VIEW.sort,
+    layout: isOneOf(LAYOUT_LABELS, layout) ? layout : DEFAULT_VIEW.layout,
+  };
+};
+
+// Only values that differ from the defaults end up in the URL; other parameters are kept
+export const viewToSearch = (view: DeviceView, search: string): string => {
+  const params = new URLSearchParams(search);
+  const set = (key: string, value: string, fallback: string) =>
+    value === fallback ? params.delete(key) : params.set(key, value);
+  set("q", view.query, DEFAULT_VIEW.query);
+  set("filter", view.filters.join(","), "");
+  set("sort", view.sort, DEFAULT_VIEW.sort);
+  set("layout", view.layout, DEFAULT_VIEW.layout);
+  const result = params.toString();
+  return result ? `?${result}` : "";
+};
@@ -0,0 +1,17 @@
+import { EspDevice } from "../types/types";
+import { UNASSIGNED_ROOM } from "../hooks/useRooms";
+
+// Name given to devices that announce themselves without one
+export const defaultDeviceName = (deviceId: string) => `ESP_${deviceId}`;
+
+// Auto-discovered devices nobody has named or put in a room yet
+export const isUnclaimed = (device: EspDevice, room: string) =>
+  room === UNASSIGNED_ROOM && device.name === defaultDeviceName(device.deviceId);
+
+// The server list is authoritative for which devices exist and their reported state;
+// fields only known locally (live readings, capabilities learned over the socket) are kept
+export const reconcileDevices = (local: EspDevice[], remote: EspDevice[]): EspDevice[] =>
+  remote.map((device) => {
+    const existing = local.find((d) => d.deviceId === device.deviceId);
+    return existing ? { ...existing, ...device } : device;
+  });
@@ -0,0 +1,37 @@
+import { NotificationEvent } from "../types/types";
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  offline: "Device went offline",
+  lightOnTooLong: "Light left on",
+  commandFailed: "Command failed",
+  deviceError: "Device error",
+  system: "Dashboard error",
+};
+
+export const NOTIFICATION_EVENT_ICONS: Record<NotificationEvent, string> = {
+  offline: "📴",
+  lightOnTooLong: "💡",
+  commandFailed: "⚠",
+  deviceError: "🛑",
+  system: "⚙",
+};
+
+export const browserNotificationsSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+export const browserPermission = (): NotificationPermission | "unsupported" =>
+  browserNotificationsSupported() ? Notification.permission : "unsupported";
+
+// Goes through the service worker when there is one: mobile browsers only allow notifications from there
+export const showBrowserNotification = async (title: string, body: string, tag: string) => {
+  if (browserPermission() !== "granted") return;
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, { body, tag, icon: `${process.env.PUBLIC_URL}/icons/icon-192.png` });
+      return;
+    }
+    new Notification(title, { body, tag, icon: `${process.env.PUBLIC_URL}/icons/icon-192.png` });
+  } catch (error) {
+    console.warn("Browser notification failed:", error);
+  }
+};
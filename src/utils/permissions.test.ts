@@ -0,0 +1,20 @@
+import { hasPermission } from "./permissions";
+
+describe("hasPermission", () => {
+  it("lets viewers only see state", () => {
+    (["control", "rename", "delete", "provision", "firmware"] as const).forEach((permission) =>
+      expect(hasPermission("viewer", permission)).toBe(false)
+    );
+  });
+
+  it("lets operators control devices but not change them", () => {
+    expect(hasPermission("operator", "control")).toBe(true);
+    expect(hasPermission("operator", "rename")).toBe(false);
+    expect(hasPermission("operator", "delete")).toBe(false);
+  });
+
+  it("gives admins everything", () => {
+    expect(hasPermission("admin", "delete")).toBe(true);
+    expect(hasPermission("admin", "firmware")).toBe(true);
+  });
+});
@@ -0,0 +1,12 @@
+import { UserRole } from "../types/types";
+
+export type Permission = "control" | "rename" | "delete" | "provision" | "firmware";
+
+// Every role can see device state; these are the extras on top
+const GRANTS: Record<UserRole, Permission[]> = {
+  viewer: [],
+  operator: ["control"],
+  admin: ["control", "rename", "delete", "provision", "firmware"],
+};
+
+export const hasPermission = (role: UserRole, permission: Permission) => GRANTS[role].includes(permission);
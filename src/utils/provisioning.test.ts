@@ -0,0 +1,34 @@
+import { createRegistration } from "./provisioning";
+
+const ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789";
+
+const stubRandom = (fill: (length: number, call: number) => number[]) => {
+  let call = 0;
+  Object.defineProperty(globalThis, "crypto", {
+    configurable: true,
+    value: {
+      getRandomValues: (array: Uint8Array) => {
+        array.set(fill(array.length, call++));
+        return array;
+      },
+    },
+  });
+};
+
+describe("createRegistration", () => {
+  it("derives topics and broker credentials from the device id", () => {
+    stubRandom((length) => Array.from({ length }, (_, i) => i));
+    const registration = createRegistration("  Porch  ", "a1b2c3");
+    expect(registration).toMatchObject({ deviceId: "a1b2c3", name: "Porch", username: "esp-a1b2c3" });
+    expect(registration.commandTopic).toContain("a1b2c3");
+    expect(registration.password).toBe(ALPHABET.slice(0, 20));
+  });
+
+  it("skips bytes that would favour the start of the alphabet", () => {
+    // 228 is the first byte past the last whole multiple of 57; it would map back onto "A"
+    stubRandom((length, call) => Array.from({ length }, (_, i) => (call === 0 && i % 2 === 0 ? 228 : 58)));
+    const { password } = createRegistration("Porch", "a1b2c3");
+    expect(password).toHaveLength(20);
+    expect(password).toBe("B".repeat(20));
+  });
+});
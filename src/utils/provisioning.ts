@@ -0,0 +1,61 @@
+import { getConfig } from "../config/config";
+import { DeviceRegistration } from "../types/types";
+
+const PASSWORD_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789";
+const PASSWORD_LENGTH = 20;
+
+const randomValues = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// Six random bytes, matching the MAC-style ids the firmware uses when it picks its own
+export const generateDeviceId = () =>
+  Array.from(randomValues(6), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// Bytes at or above the last whole multiple of the alphabet size are dropped, so every character is equally likely
+const UNBIASED_LIMIT = 256 - (256 % PASSWORD_ALPHABET.length);
+
+const generatePassword = () => {
+  let password = "";
+  while (password.length < PASSWORD_LENGTH) {
+    const bytes = randomValues(PASSWORD_LENGTH);
+    for (let i = 0; i < bytes.length && password.length < PASSWORD_LENGTH; i++) {
+      if (bytes[i] < UNBIASED_LIMIT) password += PASSWORD_ALPHABET[bytes[i] % PASSWORD_ALPHABET.length];
+    }
+  }
+  return password;
+};
+
+export const createRegistration = (name: string, deviceId = generateDeviceId()): DeviceRegistration => {
+  const { stateTopic, commandTopicTemplate } = getConfig();
+  return {
+    deviceId,
+    name: name.trim(),
+    stateTopic: stateTopic.replace("+", deviceId),
+    commandTopic: commandTopicTemplate.replace("{deviceId}", deviceId),
+    username: `esp-${deviceId}`,
+    password: generatePassword(),
+  };
+};
+
+export interface WifiSettings {
+  ssid: string;
+  password: string;
+}
+
+// JSON the firmware reads from its config partition or scans from the QR code
+export const deviceConfigSnippet = (registration: DeviceRegistration, wifi: WifiSettings) =>
+  JSON.stringify(
+    {
+      deviceId: registration.deviceId,
+      name: registration.name,
+      ...(wifi.ssid ? { wifi: { ssid: wifi.ssid, password: wifi.password } } : {}),
+      mqtt: {
+        url: getConfig().deviceBrokerUrl,
+        username: registration.username,
+        password: registration.password,
+        stateTopic: registration.stateTopic,
+        commandTopic: registration.commandTopic,
+      },
+    },
+    null,
+    2
+  );
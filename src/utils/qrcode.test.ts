@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+import { encodeQr, reedSolomonRemainder } from "./qrcode";
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// Reads the 15 format bits from both copies, as laid out in ISO/IEC 18004
+const readFormatBits = (modules: boolean[][]) => {
+  const size = modules.length;
+  const bit = (x: number, y: number) => (modules[y][x] ? 1 : 0);
+  const first: number[] = [];
+  for (let i = 0; i <= 5; i++) first.push(bit(8, i));
+  first.push(bit(8, 7), bit(8, 8), bit(7, 8));
+  for (let i = 9; i < 15; i++) first.push(bit(14 - i, 8));
+  const second: number[] = [];
+  for (let i = 0; i < 8; i++) second.push(bit(size - 1 - i, 8));
+  for (let i = 8; i < 15; i++) second.push(bit(8, size - 15 + i));
+  const toNumber = (bits: number[]) => bits.reduce((acc, b, i) => acc | (b << i), 0);
+  return [toNumber(first), toNumber(second)];
+};
+
+const bchRemainder = (data: number) => {
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return rem & 0x3ff;
+};
+
+// Version 1 only: undoes the mask and reads the codewords back in the zigzag placement order
+const readVersion1Codewords = (modules: boolean[][], mask: number) => {
+  const size = modules.length;
+  const isFunction = (x: number, y: number) =>
+    x === 6 || y === 6 || (x <= 8 && y <= 8) || (x >= size - 8 && y <= 8) || (x <= 8 && y >= size - 8);
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!isFunction(x, y)) bits.push(Number(modules[y][x] !== MASKS[mask](x, y)));
+      }
+    }
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, b) => (acc << 1) | b, 0));
+  }
+  return codewords;
+};
+
+const hasFinderAt = (modules: boolean[][], left: number, top: number) =>
+  [0, 1, 2, 3, 4, 5, 6].every((dy) =>
+    [0, 1, 2, 3, 4, 5, 6].every((dx) => {
+      const dist = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+      return modules[top + dy][left + dx] === (dist !== 2);
+    })
+  );
+
+describe("reedSolomonRemainder", () => {
+  it("matches the published error correction for HELLO WORLD at 1-M", () => {
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+});
+
+describe("encodeQr", () => {
+  it("picks the smallest version that fits", () => {
+    expect(encodeQr("hello")).toHaveLength(21);
+    expect(encodeQr("x".repeat(15))).toHaveLength(25);
+    expect(encodeQr("x".repeat(200))).toHaveLength(17 + 4 * 10);
+  });
+
+  it("throws when the text cannot fit in any version", () => {
+    expect(() => encodeQr("x".repeat(3000))).toThrow("too long");
+  });
+
+  it("draws the finder and timing patterns and the dark module", () => {
+    const modules = encodeQr("x".repeat(100));
+    const size = modules.length;
+    expect(hasFinderAt(modules, 0, 0)).toBe(true);
+    expect(hasFinderAt(modules, size - 7, 0)).toBe(true);
+    expect(hasFinderAt(modules, 0, size - 7)).toBe(true);
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  it("writes matching, valid format information for level M", () => {
+    const [first, second] = readFormatBits(encodeQr("https://example.com/setup"));
+    expect(first).toBe(second);
+    const unmasked = first ^ 0x5412;
+    const data = unmasked >>> 10;
+    expect(data >>> 3).toBe(0);
+    expect(unmasked & 0x3ff).toBe(bchRemainder(data));
+  });
+
+  it("round-trips the text through a version 1 symbol", () => {
+    const text = "esp-42 ok";
+    const modules = encodeQr(text);
+    const [format] = readFormatBits(modules);
+    const mask = ((format ^ 0x5412) >>> 10) & 7;
+    const codewords = readVersion1Codewords(modules, mask);
+    expect(codewords).toHaveLength(26);
+
+    const data = codewords.slice(0, 16);
+    expect(reedSolomonRemainder(data, 10)).toEqual(codewords.slice(16));
+
+    const bits = data.flatMap((byte) => [7, 6, 5, 4, 3, 2, 1, 0].map((i) => (byte >>> i) & 1));
+    const read = (from: number, length: number) =>
+      bits.slice(from, from + length).reduce((acc, b) => (acc << 1) | b, 0);
+    expect(read(0, 4)).toBe(0b0100);
+    const length = read(4, 8);
+    const bytes = Array.from({ length }, (_, i) => read(12 + i * 8, 8));
+    expect(String.fromCharCode(...bytes)).toBe(text);
+  });
+});
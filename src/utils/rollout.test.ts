@@ -0,0 +1,64 @@
+import { DeviceOtaState, FirmwareRollout, OtaStatus } from "../types/types";
+import { describeStages, evaluateRollout, stageTargets } from "./rollout";
+
+const rollout = (overrides: Partial<FirmwareRollout> = {}): FirmwareRollout => ({
+  id: "r-1",
+  firmware: { id: "fw-1", version: "1.2.0", url: "https://example.com/fw.bin", size: 1024, uploadedAt: 0 },
+  deviceIds: Array.from({ length: 10 }, (_, i) => `esp-${i}`),
+  stages: [10, 50, 100],
+  currentStage: 0,
+  status: "running",
+  devices: {},
+  createdAt: 0,
+  createdBy: "admin",
+  ...overrides,
+});
+
+const states = (deviceIds: string[], status: OtaStatus): Record<string, DeviceOtaState> =>
+  Object.fromEntries(deviceIds.map((deviceId) => [deviceId, { status, updatedAt: 0 }]));
+
+describe("stageTargets", () => {
+  it("covers the first percentage of devices for each stage", () => {
+    const r = rollout();
+    expect(stageTargets(r)).toEqual(["esp-0"]);
+    expect(stageTargets(r, 1)).toHaveLength(5);
+    expect(stageTargets(r, 2)).toEqual(r.deviceIds);
+  });
+
+  it("rounds up and always includes at least one device", () => {
+    expect(stageTargets(rollout({ deviceIds: ["a", "b", "c"], stages: [50, 100] }))).toEqual(["a", "b"]);
+    expect(stageTargets(rollout({ deviceIds: ["a", "b", "c"], stages: [0, 100] }))).toEqual(["a"]);
+  });
+});
+
+describe("evaluateRollout", () => {
+  it("keeps running while stage devices are still updating", () => {
+    expect(evaluateRollout(rollout())).toBe("running");
+    expect(evaluateRollout(rollout({ devices: states(["esp-0"], "flashing") }))).toBe("running");
+  });
+
+  it("waits for approval once a stage has finished", () => {
+    expect(evaluateRollout(rollout({ devices: states(["esp-0"], "done") }))).toBe("awaiting");
+  });
+
+  it("halts as soon as any device in the stage fails", () => {
+    const devices = { ...states(["esp-0", "esp-1"], "flashing"), ...states(["esp-2"], "failed") };
+    expect(evaluateRollout(rollout({ currentStage: 1, devices }))).toBe("halted");
+  });
+
+  it("completes after the last stage", () => {
+    const r = rollout({ currentStage: 2 });
+    expect(evaluateRollout({ ...r, devices: states(r.deviceIds, "done") })).toBe("completed");
+  });
+
+  it("leaves rollouts that are not running alone", () => {
+    expect(evaluateRollout(rollout({ status: "aborted", devices: states(["esp-0"], "failed") }))).toBe("aborted");
+    expect(evaluateRollout(rollout({ status: "awaiting" }))).toBe("awaiting");
+  });
+});
+
+describe("describeStages", () => {
+  it("names a zero percent stage as a single device", () => {
+    expect(describeStages([0, 50, 100])).toBe("1 device → 50% → 100%");
+  });
+});
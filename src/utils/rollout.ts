@@ -0,0 +1,28 @@
+import { DeviceOtaState, FirmwareRollout, RolloutStatus } from "../types/types";
+
+export const STAGE_PRESETS: { label: string; stages: number[] }[] = [
+  { label: "10% → 50% → 100%", stages: [10, 50, 100] },
+  { label: "1 device → 100%", stages: [0, 100] },
+  { label: "All at once", stages: [100] },
+];
+
+export const isOtaFinished = (state: Pick<DeviceOtaState, "status"> | undefined) =>
+  state?.status === "done" || state?.status === "failed";
+
+// Devices covered once the given stage has run; every stage includes at least one device
+export const stageTargets = (rollout: FirmwareRollout, stage = rollout.currentStage): string[] => {
+  const count = Math.ceil((rollout.deviceIds.length * rollout.stages[stage]) / 100);
+  return rollout.deviceIds.slice(0, Math.max(1, count));
+};
+
+// A failure halts the rollout; a finished stage waits for someone to approve the next one
+export const evaluateRollout = (rollout: FirmwareRollout): RolloutStatus => {
+  if (rollout.status !== "running") return rollout.status;
+  const states = stageTargets(rollout).map((deviceId) => rollout.devices[deviceId]);
+  if (states.some((state) => state?.status === "failed")) return "halted";
+  if (!states.every(isOtaFinished)) return "running";
+  return rollout.currentStage >= rollout.stages.length - 1 ? "completed" : "awaiting";
+};
+
+export const describeStages = (stages: number[]) =>
+  stages.map((percent) => (percent === 0 ? "1 device" : `${percent}%`)).join(" → ");
@@ -0,0 +1,67 @@
+import { EspDevice } from "../types/types";
+import { captureTarget, planSceneCommands } from "./scene";
+
+const device = (overrides: Partial<EspDevice> = {}): EspDevice => ({
+  deviceId: "esp-1",
+  name: "Porch",
+  lightOn: false,
+  rgbMode: false,
+  brightness: 40,
+  color: { r: 255, g: 0, b: 0 },
+  commandTopic: "esp/esp-1/command",
+  ...overrides,
+});
+
+describe("captureTarget", () => {
+  it("records the current light, RGB, brightness and color", () => {
+    expect(captureTarget(device({ lightOn: true, rgbMode: undefined }))).toEqual({
+      deviceId: "esp-1",
+      lightOn: true,
+      rgbMode: false,
+      brightness: 40,
+      color: { r: 255, g: 0, b: 0 },
+    });
+  });
+});
+
+describe("planSceneCommands", () => {
+  it("sends nothing when the device is already there", () => {
+    expect(planSceneCommands(device(), captureTarget(device()))).toEqual({ expected: {}, messages: [] });
+  });
+
+  it("only sends the attributes that differ and leaves omitted ones alone", () => {
+    expect(planSceneCommands(device(), { deviceId: "esp-1", lightOn: true, brightness: 80 })).toEqual({
+      expected: { lightOn: true, brightness: 80 },
+      messages: ["on", JSON.stringify({ brightness: 80 })],
+    });
+    expect(planSceneCommands(device(), { deviceId: "esp-1", color: { r: 0, g: 0, b: 255 } })).toEqual({
+      expected: { color: { r: 0, g: 0, b: 255 } },
+      messages: [JSON.stringify({ color: { r: 0, g: 0, b: 255 } })],
+    });
+  });
+
+  it("switches RGB off before turning the light on", () => {
+    expect(planSceneCommands(device({ rgbMode: true }), { deviceId: "esp-1", lightOn: true, rgbMode: false })).toEqual({
+      expected: { rgbMode: false, lightOn: true },
+      messages: ["offRGB", "on"],
+    });
+  });
+
+  it("also leaves RGB when the light is turned on and RGB was not part of the scene", () => {
+    const plan = planSceneCommands(device({ rgbMode: true }), { deviceId: "esp-1", lightOn: true });
+    expect(plan.expected).toEqual({ rgbMode: false, lightOn: true });
+    expect(plan.messages).toEqual(["offRGB", "on"]);
+  });
+
+  it("turns the light off before switching RGB on", () => {
+    const plan = planSceneCommands(device({ lightOn: true }), { deviceId: "esp-1", rgbMode: true });
+    expect(plan.expected).toEqual({ lightOn: false, rgbMode: true });
+    expect(plan.messages).toEqual(["off", "onRGB"]);
+  });
+
+  it("resolves a target with both the light and RGB on in favour of RGB", () => {
+    const plan = planSceneCommands(device(), { deviceId: "esp-1", lightOn: true, rgbMode: true });
+    expect(plan.expected).toEqual({ rgbMode: true });
+    expect(plan.messages).toEqual(["onRGB"]);
+  });
+});
@@ -0,0 +1,57 @@
+import { EspDevice, SceneTarget } from "../types/types";
+import { DeviceState } from "../hooks/useCommandTracker";
+import { colorsMatch } from "./color";
+
+export const captureTarget = (device: EspDevice): SceneTarget => {
+  const target: SceneTarget = {
+    deviceId: device.deviceId,
+    lightOn: device.lightOn,
+    rgbMode: Boolean(device.rgbMode),
+  };
+  if (device.brightness !== undefined) target.brightness = device.brightness;
+  if (device.color) target.color = device.color;
+  return target;
+};
+
+export interface ScenePlan {
+  // Only the attributes that differ from the device's current state
+  expected: DeviceState;
+  messages: string[];
+}
+
+// The plain light and RGB are never on together; a target asking for both gets RGB
+const resolveLightAndRgb = (target: SceneTarget): Pick<SceneTarget, "lightOn" | "rgbMode"> => {
+  if (target.rgbMode) return { lightOn: false, rgbMode: true };
+  return { lightOn: target.lightOn, rgbMode: target.lightOn ? false : target.rgbMode };
+};
+
+// Smallest command sequence that moves the device to the target. RGB is switched off
+// before the light comes on and switched on last, matching how the firmware arbitrates them.
+export const planSceneCommands = (device: EspDevice, target: SceneTarget): ScenePlan => {
+  const expected: DeviceState = {};
+  const messages: string[] = [];
+  const { lightOn, rgbMode } = resolveLightAndRgb(target);
+
+  if (rgbMode === false && device.rgbMode) {
+    expected.rgbMode = false;
+    messages.push("offRGB");
+  }
+  if (lightOn !== undefined && lightOn !== device.lightOn) {
+    expected.lightOn = lightOn;
+    messages.push(lightOn ? "on" : "off");
+  }
+  if (rgbMode === true && !device.rgbMode) {
+    expected.rgbMode = true;
+    messages.push("onRGB");
+  }
+  if (target.brightness !== undefined && target.brightness !== device.brightness) {
+    expected.brightness = target.brightness;
+    messages.push(JSON.stringify({ brightness: target.brightness }));
+  }
+  if (target.color && !colorsMatch(target.color, device.color, 0)) {
+    expected.color = target.color;
+    messages.push(JSON.stringify({ color: target.color }));
+  }
+
+  return { expected, messages };
+};
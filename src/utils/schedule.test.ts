@@ -0,0 +1,124 @@
+import { Schedule } from "../types/types";
+import { dueRuns, nextOccurrence, occurrencesBetween, parseCron, validateRule } from "./schedule";
+
+// Local time, like the runner
+const at = (month: number, day: number, hour: number, minute: number) =>
+  new Date(2025, month - 1, day, hour, minute).getTime();
+
+const schedule = (overrides: Partial<Schedule>): Schedule => ({
+  id: "sch-1",
+  name: "Evening",
+  deviceId: "esp-1",
+  commandTopic: "esp-1/cmd",
+  action: "on",
+  rule: { kind: "weekly", days: [0, 1, 2, 3, 4, 5, 6], time: "18:00" },
+  enabled: true,
+  catchUp: true,
+  createdAt: 0,
+  ...overrides,
+});
+
+describe("parseCron", () => {
+  it("matches lists, ranges and steps", () => {
+    const matches = parseCron("*/15 9-17 * * 1-5");
+    // 2025-03-03 is a Monday
+    expect(matches(new Date(2025, 2, 3, 9, 30))).toBe(true);
+    expect(matches(new Date(2025, 2, 3, 9, 31))).toBe(false);
+    expect(matches(new Date(2025, 2, 3, 18, 0))).toBe(false);
+    expect(matches(new Date(2025, 2, 2, 9, 30))).toBe(false);
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect(parseCron("0 12 * * 7")(new Date(2025, 2, 2, 12, 0))).toBe(true);
+  });
+
+  it("matches either day field when both are restricted", () => {
+    const matches = parseCron("0 0 1 * 1");
+    expect(matches(new Date(2025, 2, 1, 0, 0))).toBe(true); // the 1st, a Saturday
+    expect(matches(new Date(2025, 2, 3, 0, 0))).toBe(true); // a Monday
+    expect(matches(new Date(2025, 2, 4, 0, 0))).toBe(false);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow("5 fields");
+    expect(() => parseCron("60 * * * *")).toThrow("out of range");
+    expect(() => parseCron("*/0 * * * *")).toThrow("Invalid step");
+    expect(() => parseCron("5-1 * * * *")).toThrow("out of range");
+  });
+
+  it("rejects empty list items and range bounds instead of reading them as 0", () => {
+    expect(() => parseCron("1,,2 * * * *")).toThrow("Empty value");
+    expect(() => parseCron("1, * * * *")).toThrow("Empty value");
+    expect(() => parseCron(",5 * * * *")).toThrow("Empty value");
+    expect(() => parseCron("-5 * * * *")).toThrow("Empty value");
+    expect(() => parseCron("/5 * * * *")).toThrow("Empty value");
+  });
+
+  it("rejects days that never occur in the chosen months", () => {
+    expect(() => parseCron("0 0 30 2 *")).toThrow("never occurs");
+    expect(() => parseCron("0 0 31 4,6 *")).toThrow("never occurs");
+    expect(() => parseCron("0 0 29 2 *")).not.toThrow();
+    // A weekday can still match, so the rule is possible
+    expect(() => parseCron("0 0 30 2 1")).not.toThrow();
+  });
+});
+
+describe("validateRule", () => {
+  it("checks weekly rules", () => {
+    expect(validateRule({ kind: "weekly", days: [], time: "18:00" })).toBe("Pick at least one weekday");
+    expect(validateRule({ kind: "weekly", days: [1], time: "24:00" })).toBe("Time must be HH:MM");
+    expect(validateRule({ kind: "weekly", days: [1], time: "07:30" })).toBeNull();
+  });
+
+  it("returns the cron parse error", () => {
+    expect(validateRule({ kind: "cron", expression: "0 0 30 2 *" })).toMatch(/never occurs/);
+    expect(validateRule({ kind: "cron", expression: "0 0 * * *" })).toBeNull();
+  });
+});
+
+describe("occurrencesBetween", () => {
+  it("lists each match in the half-open range, oldest first", () => {
+    const rule = { kind: "cron" as const, expression: "0 * * * *" };
+    expect(occurrencesBetween(rule, at(3, 3, 9, 0), at(3, 3, 11, 0))).toEqual([at(3, 3, 10, 0), at(3, 3, 11, 0)]);
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("finds the next weekly run", () => {
+    // Monday 19:00, next Wednesday run is two days later
+    const rule = { kind: "weekly" as const, days: [3], time: "07:15" };
+    expect(nextOccurrence(rule, at(3, 3, 19, 0))).toBe(at(3, 5, 7, 15));
+  });
+
+  it("returns null for invalid rules without searching", () => {
+    expect(nextOccurrence({ kind: "cron", expression: "0 0 30 2 *" }, at(3, 3, 0, 0))).toBeNull();
+  });
+});
+
+describe("dueRuns", () => {
+  it("fires the latest missed occurrence per device and attribute", () => {
+    const on = schedule({ id: "on", action: "on", rule: { kind: "weekly", days: [1], time: "18:00" } });
+    const off = schedule({ id: "off", action: "off", rule: { kind: "weekly", days: [1], time: "23:00" } });
+    const runs = dueRuns([on, off], at(3, 3, 12, 0), at(3, 4, 8, 0));
+    expect(runs).toEqual([{ schedule: off, at: at(3, 3, 23, 0) }]);
+  });
+
+  it("keeps different attributes apart and sorts by time", () => {
+    const light = schedule({ id: "light", action: "on", rule: { kind: "weekly", days: [1], time: "20:00" } });
+    const rgb = schedule({ id: "rgb", action: "onRGB", rule: { kind: "weekly", days: [1], time: "19:00" } });
+    const runs = dueRuns([light, rgb], at(3, 3, 12, 0), at(3, 3, 21, 0));
+    expect(runs.map((run) => run.schedule.id)).toEqual(["rgb", "light"]);
+  });
+
+  it("skips missed runs unless the schedule catches up", () => {
+    const missed = schedule({ catchUp: false });
+    expect(dueRuns([missed], at(3, 3, 12, 0), at(3, 3, 20, 0))).toEqual([]);
+    expect(dueRuns([missed], at(3, 3, 12, 0), at(3, 3, 18, 0) + 30 * 1000)).toHaveLength(1);
+  });
+
+  it("ignores disabled schedules and runs already done", () => {
+    expect(dueRuns([schedule({ enabled: false })], at(3, 3, 12, 0), at(3, 3, 20, 0))).toEqual([]);
+    expect(dueRuns([schedule({ lastRunAt: at(3, 3, 18, 0) })], at(3, 3, 12, 0), at(3, 3, 20, 0))).toEqual([]);
+    expect(dueRuns([schedule({ createdAt: at(3, 3, 19, 0) })], at(3, 3, 12, 0), at(3, 3, 20, 0))).toEqual([]);
+  });
+});
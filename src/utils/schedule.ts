@@ -0,0 +1,172 @@
+import { Schedule, ScheduleAction, ScheduleRule } from "../types/types";
+
+const MINUTE_MS = 60 * 1000;
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const ACTION_LABELS: Record<ScheduleAction, string> = {
+  on: "Light on",
+  off: "Light off",
+  onRGB: "RGB on",
+  offRGB: "RGB off",
+};
+
+// Actions that set the same attribute supersede each other when catching up
+export const actionAttribute = (action: ScheduleAction) =>
+  action === "on" || action === "off" ? "light" : "rgb";
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const CRON_FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 }, // day of week, 0 and 7 are Sunday
+];
+
+type CronMatcher = (date: Date) => boolean;
+
+// Longest each month can be, indexed by month number; February counts leap years
+const DAYS_IN_MONTH = [0, 31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const parseCronField = (field: string, { min, max }: CronField): Set<number> => {
+  const values = new Set<number>();
+
+  field.split(",").forEach((part) => {
+    const [range, stepText] = part.split("/");
+    // Number("") is 0, so "1,,2" or "-5" would otherwise quietly match 0
+    if (range.split("-").some((bound) => bound === "")) throw new Error(`Empty value in "${field}"`);
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step "${part}"`);
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-").map(Number);
+      start = from;
+      end = to === undefined ? (stepText === undefined ? from : max) : to;
+    }
+    if (![start, end].every((n) => Number.isInteger(n) && n >= min && n <= max) || start > end) {
+      throw new Error(`Value out of range in "${part}"`);
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  });
+
+  return values;
+};
+
+export const parseCron = (expression: string): CronMatcher => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Cron expressions need 5 fields: minute hour day month weekday");
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+    parseCronField(field, CRON_FIELDS[i])
+  );
+  if (weekdays.has(7)) weekdays.add(0);
+  // Standard cron: when both day fields are restricted, either one may match
+  const dayRestricted = fields[2] !== "*";
+  const weekdayRestricted = fields[4] !== "*";
+  // e.g. "0 0 30 2 *" would otherwise be searched for a year before giving up
+  const dayExists = Array.from(months).some((month) => Array.from(days).some((day) => day <= DAYS_IN_MONTH[month]));
+  if (!weekdayRestricted && !dayExists) {
+    throw new Error("That day of the month never occurs in the chosen months");
+  }
+
+  return (date) => {
+    const dayMatch = days.has(date.getDate());
+    const weekdayMatch = weekdays.has(date.getDay());
+    const dayOk =
+      dayRestricted && weekdayRestricted ? dayMatch || weekdayMatch : dayMatch && weekdayMatch;
+    return (
+      minutes.has(date.getMinutes()) &&
+      hours.has(date.getHours()) &&
+      months.has(date.getMonth() + 1) &&
+      dayOk
+    );
+  };
+};
+
+export const validateRule = (rule: ScheduleRule): string | null => {
+  if (rule.kind === "cron") {
+    try {
+      parseCron(rule.expression);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+  if (rule.days.length === 0) return "Pick at least one weekday";
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(rule.time)) return "Time must be HH:MM";
+  return null;
+};
+
+const ruleMatcher = (rule: ScheduleRule): CronMatcher => {
+  if (rule.kind === "cron") return parseCron(rule.expression);
+  const [hour, minute] = rule.time.split(":").map(Number);
+  return (date) =>
+    date.getHours() === hour && date.getMinutes() === minute && rule.days.includes(date.getDay());
+};
+
+const startOfMinute = (timestamp: number) => Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+
+// Occurrences in the half-open range (from, to], oldest first
+export const occurrencesBetween = (rule: ScheduleRule, from: number, to: number): number[] => {
+  const matches = ruleMatcher(rule);
+  const result: number[] = [];
+  for (let t = startOfMinute(from) + MINUTE_MS; t <= to; t += MINUTE_MS) {
+    if (matches(new Date(t))) result.push(t);
+  }
+  return result;
+};
+
+const NEXT_RUN_HORIZON_MS = 366 * 24 * 60 * MINUTE_MS;
+
+export const nextOccurrence = (rule: ScheduleRule, after = Date.now()): number | null => {
+  if (validateRule(rule)) return null;
+  const matches = ruleMatcher(rule);
+  for (let t = startOfMinute(after) + MINUTE_MS; t <= after + NEXT_RUN_HORIZON_MS; t += MINUTE_MS) {
+    if (matches(new Date(t))) return t;
+  }
+  return null;
+};
+
+export const describeRule = (rule: ScheduleRule) =>
+  rule.kind === "cron"
+    ? `cron "${rule.expression}"`
+    : `${rule.days.length === 7 ? "Every day" : rule.days.map((d) => WEEKDAYS[d]).join(", ")} at ${rule.time}`;
+
+export interface DueRun {
+  schedule: Schedule;
+  at: number;
+}
+
+// Works out what to fire for the window (from, now]. Only the newest occurrence per device
+// and attribute is kept, so a long backlog replays as its end state instead of every step.
+export const dueRuns = (schedules: Schedule[], from: number, now: number): DueRun[] => {
+  const latest = new Map<string, DueRun>();
+
+  schedules
+    .filter((schedule) => schedule.enabled && !validateRule(schedule.rule))
+    .forEach((schedule) => {
+      const since = Math.max(from, schedule.createdAt, schedule.lastRunAt ?? 0);
+      const occurrences = occurrencesBetween(schedule.rule, since, now);
+      if (occurrences.length === 0) return;
+
+      const at = occurrences[occurrences.length - 1];
+      // Missed occurrences are only replayed when the schedule opts in
+      if (!schedule.catchUp && now - at >= MINUTE_MS) return;
+
+      const key = `${schedule.deviceId}:${actionAttribute(schedule.action)}`;
+      const existing = latest.get(key);
+      if (!existing || existing.at < at) latest.set(key, { schedule, at });
+    });
+
+  return Array.from(latest.values()).sort((a, b) => a.at - b.at);
+};
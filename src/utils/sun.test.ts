@@ -0,0 +1,17 @@
+import { sunTimes } from "./sun";
+
+const MINUTE_MS = 60 * 1000;
+
+describe("sunTimes", () => {
+  it("matches published London times for the summer solstice to within a couple of minutes", () => {
+    const sun = sunTimes(new Date(2024, 5, 21), 51.5074, -0.1278);
+    expect(sun).not.toBeNull();
+    expect(Math.abs(sun!.sunrise - Date.UTC(2024, 5, 21, 3, 43))).toBeLessThan(2 * MINUTE_MS);
+    expect(Math.abs(sun!.sunset - Date.UTC(2024, 5, 21, 20, 21))).toBeLessThan(2 * MINUTE_MS);
+  });
+
+  it("returns null during polar day and polar night", () => {
+    expect(sunTimes(new Date(2024, 5, 21), 78.22, 15.65)).toBeNull();
+    expect(sunTimes(new Date(2024, 11, 21), 78.22, 15.65)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+// Sunrise and sunset from the standard sunrise equation (the same approach as suncalc),
+// accurate to about a minute, which is plenty for switching lights.
+const RAD = Math.PI / 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = RAD * 23.4397;
+// Sun's upper edge at the horizon, including refraction
+const SUN_ALTITUDE = RAD * -0.833;
+
+const toDays = (timestamp: number) => timestamp / DAY_MS - 0.5 + J1970 - J2000;
+const fromJulian = (julian: number) => (julian + 0.5 - J1970) * DAY_MS;
+
+const solarMeanAnomaly = (days: number) => RAD * (357.5291 + 0.98560028 * days);
+
+const eclipticLongitude = (anomaly: number) =>
+  anomaly +
+  RAD * (1.9148 * Math.sin(anomaly) + 0.02 * Math.sin(2 * anomaly) + 0.0003 * Math.sin(3 * anomaly)) +
+  RAD * 102.9372 +
+  Math.PI;
+
+const solarTransit = (days: number, anomaly: number, longitude: number) =>
+  J2000 + days + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * longitude);
+
+export interface SunTimes {
+  sunrise: number;
+  sunset: number;
+}
+
+// Times for the calendar day containing `date`; null during polar day or night
+export const sunTimes = (date: Date, latitude: number, longitude: number): SunTimes | null => {
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+  const noon = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12).getTime();
+  const cycle = Math.round(toDays(noon) - J0 - lw / (2 * Math.PI));
+
+  const approxNoon = J0 + lw / (2 * Math.PI) + cycle;
+  const anomaly = solarMeanAnomaly(approxNoon);
+  const eclipticLong = eclipticLongitude(anomaly);
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(eclipticLong));
+  const transit = solarTransit(approxNoon, anomaly, eclipticLong);
+
+  const cosHourAngle =
+    (Math.sin(SUN_ALTITUDE) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+
+  const hourAngle = Math.acos(cosHourAngle);
+  const set = solarTransit(J0 + (hourAngle + lw) / (2 * Math.PI) + cycle, anomaly, eclipticLong);
+  return { sunrise: fromJulian(transit - (set - transit)), sunset: fromJulian(set) };
+};
@@ -0,0 +1,61 @@
+export interface TelemetryPoint {
+  t: number;
+  v: number;
+}
+
+interface MetricInfo {
+  label: string;
+  unit: string;
+}
+
+export const KNOWN_METRICS: Record<string, MetricInfo> = {
+  temperature: { label: "Temperature", unit: "°C" },
+  humidity: { label: "Humidity", unit: "%" },
+  power: { label: "Power", unit: "W" },
+};
+
+export const metricInfo = (metric: string): MetricInfo =>
+  KNOWN_METRICS[metric] ?? { label: metric, unit: "" };
+
+export const formatReading = (metric: string, value: number) => {
+  const { unit } = metricInfo(metric);
+  return `${Number.isInteger(value) ? value : value.toFixed(1)}${unit ? ` ${unit}` : ""}`;
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Pulls numeric readings from top-level known fields, a `readings` object and a `metrics` object
+export const extractTelemetry = (data: Record<string, unknown>): Record<string, number> => {
+  const metrics: Record<string, number> = {};
+
+  Object.keys(KNOWN_METRICS).forEach((metric) => {
+    const value = toNumber(data[metric]);
+    if (value !== undefined) metrics[metric] = value;
+  });
+
+  [data.readings, data.metrics].forEach((group) => {
+    if (!group || typeof group !== "object") return;
+    Object.entries(group as Record<string, unknown>).forEach(([metric, raw]) => {
+      const value = toNumber(raw);
+      if (value !== undefined) metrics[metric] = value;
+    });
+  });
+
+  return metrics;
+};
+
+export const messageTimestamp = (data: Record<string, unknown>): number => {
+  const { timestamp } = data;
+  if (typeof timestamp === "number") {
+    // Firmware clocks usually send seconds
+    return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+  }
+  if (typeof timestamp === "string") {
+    const parsed = Date.parse(timestamp);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+  return Date.now();
+};